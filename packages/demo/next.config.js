@@ -1,7 +1,11 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
-  transpilePackages: ['@company/pos-intelligence-sdk'],
+  // The SDK is consumed from source (see tsconfig paths), so no prior build is needed
+  transpilePackages: ['@company/pos-intelligence-sdk', '@company/pos-intelligence-protocol'],
+  experimental: {
+    externalDir: true,
+  },
   env: {
     NEXT_PUBLIC_DEMO_MODE: 'true',
     NEXT_PUBLIC_SDK_API_KEY: 'pk_demo_123456789',
@@ -1,111 +1,41 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-// import { UnifiedPOSIntelligence } from '@company/pos-intelligence-sdk';
-
-// Temporary mock for development that actually creates an iframe
-class UnifiedPOSIntelligence {
-  private iframe?: HTMLIFrameElement;
-  private container?: HTMLElement;
-  private iframeUrl: string;
-  private onInitialized?: () => void;
-
-  constructor() {
-    this.iframeUrl = process.env.NEXT_PUBLIC_IFRAME_URL || 'http://localhost:3001';
-  }
-
-  setOnInitialized(callback: () => void) {
-    this.onInitialized = callback;
-  }
-
-  async init(config: any) {
-    console.log('Mock SDK initialized with config:', config);
-    
-    // Find the container
-    const container = document.getElementById(config.containerId);
-    if (!container) {
-      throw new Error('Container element not found');
-    }
-
-    this.container = container;
-
-    // Clean up any existing iframe first
-    const existingIframe = container.querySelector('iframe');
-    if (existingIframe) {
-      existingIframe.remove();
-      console.log('Removed existing iframe');
-    }
-
-    // Create and configure iframe
-    this.iframe = document.createElement('iframe');
-    this.iframe.src = `${this.iframeUrl}/unified-intelligence`;
-    this.iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
-    this.iframe.style.width = '100%';
-    this.iframe.style.height = '100%';
-    this.iframe.style.border = 'none';
-    this.iframe.style.borderRadius = '8px';
-    this.iframe.style.overflow = 'hidden';
-
-    // Add iframe to container
-    container.appendChild(this.iframe);
-
-    // Set up postMessage communication
-    this.iframe.addEventListener('load', () => {
-      console.log('Iframe loaded successfully');
-      this.sendHandshake(config);
-      // Call the initialized callback
-      if (this.onInitialized) {
-        this.onInitialized();
-      }
-    });
-
-    this.iframe.addEventListener('error', (error) => {
-      console.error('Iframe failed to load:', error);
-    });
-
-    // Listen for messages from iframe
-    window.addEventListener('message', this.handleMessage.bind(this));
-  }
-
-  private sendHandshake(config: any): void {
-    if (!this.iframe?.contentWindow) return;
-
-    const message = {
-      type: 'HANDSHAKE',
-      apiKey: config.apiKey,
-      features: config.features,
-      timestamp: Date.now()
-    };
-
-    this.iframe.contentWindow.postMessage(message, this.iframeUrl);
-  }
-
-  private handleMessage(event: MessageEvent): void {
-    // Verify origin
-    if (event.origin !== this.iframeUrl) return;
-
-    // Handle different message types
-    console.log('Received message from iframe:', event.data);
-  }
-  
-  triggerScenario(scenario: string) {
-    console.log('Mock SDK triggered scenario:', scenario);
-    
-    if (!this.iframe?.contentWindow) return;
-
-    const message = {
-      type: 'TRIGGER_SCENARIO',
-      payload: { scenario },
-      timestamp: Date.now()
-    };
-
-    this.iframe.contentWindow.postMessage(message, this.iframeUrl);
-  }
-}
+import { UnifiedPOSIntelligence } from '@company/pos-intelligence-sdk';
+import type { MerchantContext, OrderInput, ReviewInput } from '@company/pos-intelligence-sdk';
 import { useDemoStore } from '@/store/demo-store';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Code2, Eye, EyeOff } from 'lucide-react';
+import type { DemoMerchant, Order, Review } from '@/store/demo-store';
+
+function toMerchantContext(merchant: DemoMerchant): MerchantContext {
+  return {
+    merchantId: merchant.id,
+    locationId: merchant.locationId,
+    locationName: merchant.location,
+    businessName: merchant.businessName,
+    businessType: merchant.businessType,
+    timezone: merchant.timezone,
+    currency: merchant.currency,
+  };
+}
+
+function toOrderInput(order: Order): OrderInput {
+  return { id: order.id, total: order.total, itemCount: order.items.length, status: order.status, timestamp: order.time };
+}
+
+function toReviewInput(review: Review): ReviewInput {
+  return { id: review.id, rating: review.rating, text: review.text, platform: review.platform, timestamp: review.date };
+}
+
+// Hands POS activity to the widget; it ignores orders and reviews it already has
+function ingestActivity(sdk: UnifiedPOSIntelligence, orders: Order[], reviews: Review[]) {
+  return Promise.all([
+    ...orders.map((order) => sdk.ingest.order(toOrderInput(order))),
+    ...reviews.map((review) => sdk.ingest.review(toReviewInput(review))),
+  ]);
+}
 
 export function SDKIntegration() {
   const { sdkEnabled, setSdkEnabled, currentMerchant } = useDemoStore();
@@ -116,70 +46,77 @@ export function SDKIntegration() {
 
   // Single useEffect to handle SDK initialization and cleanup
   useEffect(() => {
-    if (sdkEnabled && containerRef.current) {
-      // Clean up any existing iframe first
-      const existingIframe = containerRef.current.querySelector('iframe');
-      if (existingIframe) {
-        existingIframe.remove();
-      }
+    if (!sdkEnabled || !containerRef.current) return;
 
-      // Set iframe URL globally for SDK to pick up
-      (window as any).NEXT_PUBLIC_IFRAME_URL = process.env.NEXT_PUBLIC_IFRAME_URL;
-      
-      const sdk = new UnifiedPOSIntelligence();
-      sdkRef.current = sdk;
+    const sdk = new UnifiedPOSIntelligence();
+    sdkRef.current = sdk;
 
-      // Set up callback for when iframe is loaded
-      sdk.setOnInitialized(() => {
-        setIsInitialized(true);
-        console.log('SDK iframe loaded successfully');
-        // Expose SDK instance globally
-        (window as any).unifiedSDK = sdk;
-      });
+    sdk.on('ready', () => {
+      setIsInitialized(true);
+      console.log('SDK iframe loaded successfully');
+      // Expose SDK instance globally
+      (window as any).unifiedSDK = sdk;
+    });
 
-      sdk.init({
-        containerId: 'intelligence-container',
-        apiKey: process.env.NEXT_PUBLIC_SDK_API_KEY || 'pk_demo_123456789',
-        features: {
-          alerts: true,
-          businessSentiment: true,
-          competitorAnalysis: true,
-          redditMonitoring: true,
-        },
-        theme: 'light',
-        defaultView: 'dashboard',
+    sdk.init({
+      containerId: 'intelligence-container',
+      apiKey: process.env.NEXT_PUBLIC_SDK_API_KEY || 'pk_demo_123456789',
+      features: {
+        alerts: true,
+        businessSentiment: true,
+        competitorAnalysis: true,
+        redditMonitoring: true,
+      },
+      theme: 'light',
+      defaultView: 'dashboard',
+      minHeight: 400,
+    })
+      .then(() => {
+        console.log('SDK initialized successfully with iframe URL:', process.env.NEXT_PUBLIC_IFRAME_URL);
+        return sdk.setMerchantContext(toMerchantContext(useDemoStore.getState().currentMerchant));
       })
-        .then(() => {
-          console.log('SDK initialized successfully with iframe URL:', process.env.NEXT_PUBLIC_IFRAME_URL);
-        })
-        .catch((error) => {
-          console.error('Failed to initialize SDK:', error);
-        });
-    } else if (!sdkEnabled && containerRef.current) {
-      // Clean up when disabled
-      const iframe = containerRef.current.querySelector('iframe');
-      if (iframe) {
-        iframe.remove();
-      }
-      setIsInitialized(false);
-      sdkRef.current = null;
-      delete (window as any).unifiedSDK;
-    }
+      .catch((error) => {
+        // Unmounting before the iframe connects cancels init(); nothing failed
+        if (error.code === 'CANCELLED') return;
+        console.error('Failed to initialize SDK:', error);
+      });
 
     return () => {
-      // Cleanup on component unmount
-      if (containerRef.current) {
-        const iframe = containerRef.current.querySelector('iframe');
-        if (iframe) {
-          iframe.remove();
-        }
-      }
+      sdk.destroy();
       setIsInitialized(false);
       sdkRef.current = null;
       delete (window as any).unifiedSDK;
     };
   }, [sdkEnabled]); // Only depend on sdkEnabled
 
+  // Tell the widget when the POS switches merchant or location
+  useEffect(() => {
+    const sdk = sdkRef.current;
+    if (!sdk || !isInitialized) return;
+
+    sdk.setMerchantContext(toMerchantContext(currentMerchant)).catch((error) => {
+      console.error('Failed to switch merchant context:', error);
+    });
+  }, [currentMerchant, isInitialized]);
+
+  // Each location keeps its own events, so send the activity again after a switch and then every change
+  useEffect(() => {
+    const sdk = sdkRef.current;
+    if (!sdk || !isInitialized) return;
+
+    const { orders, reviews } = useDemoStore.getState();
+    const report = (error: Error) => console.error('Failed to send POS activity:', error);
+    ingestActivity(sdk, orders, reviews).catch(report);
+
+    return useDemoStore.subscribe((state, previous) => {
+      const changedOrders = state.orders.filter((order) => !previous.orders.includes(order));
+      const newReviews = state.reviews.filter((review) => !previous.reviews.includes(review));
+      if (changedOrders.length > 0 || newReviews.length > 0) {
+        ingestActivity(sdk, changedOrders, newReviews).catch(report);
+      }
+    });
+  }, [currentMerchant, isInitialized]);
+
   const integrationCode = `// 1. Install the SDK
 npm install @company/unified-pos-intelligence
 
@@ -200,12 +137,20 @@ await sdk.init({
 });
 
 // 3. Set merchant context
-await sdk.authenticate(merchantToken);
-sdk.setMerchantContext({
+await sdk.setMerchantContext({
+  merchantId: '${currentMerchant.id}',
+  locationId: '${currentMerchant.locationId}',
   businessName: '${currentMerchant.businessName}',
-  location: '${currentMerchant.location}',
-  category: '${currentMerchant.businessType}'
-});`;
+  locationName: '${currentMerchant.location}',
+  businessType: '${currentMerchant.businessType}',
+  timezone: '${currentMerchant.timezone}',
+  currency: '${currentMerchant.currency}'
+});
+await sdk.authenticate(merchantToken);
+
+// 4. Send POS activity as it happens; events are checked and batched
+sdk.ingest.order({ id: order.id, total: order.total, status: order.status, timestamp: order.time });
+sdk.ingest.review({ id: review.id, rating: review.rating, text: review.text, timestamp: review.date });`;
 
   return (
     <div className="space-y-4">
@@ -272,10 +217,10 @@ sdk.setMerchantContext({
           <div
             id="intelligence-container"
             ref={containerRef}
-            className="h-[400px] w-full"
+            className="min-h-[400px] w-full"
           >
             {!isInitialized && (
-              <div className="flex h-full items-center justify-center rounded-lg border-2 border-dashed border-gray-300 bg-gray-50">
+              <div className="flex h-[400px] items-center justify-center rounded-lg border-2 border-dashed border-gray-300 bg-gray-50">
                 <div className="text-center">
                   <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
                   <p className="text-gray-600">Loading Unified Intelligence...</p>
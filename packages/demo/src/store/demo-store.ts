@@ -4,7 +4,10 @@ export interface DemoMerchant {
   id: string;
   businessName: string;
   businessType: 'restaurant' | 'retail' | 'cannabis' | 'service';
+  locationId: string;
   location: string;
+  timezone: string;
+  currency: string;
   logo?: string;
   metrics: {
     dailyRevenue: number;
@@ -65,7 +68,10 @@ const demoMerchants: DemoMerchant[] = [
     id: 'bellas-bistro',
     businessName: "Bella's Bistro",
     businessType: 'restaurant',
+    locationId: 'san-francisco',
     location: 'San Francisco, CA',
+    timezone: 'America/Los_Angeles',
+    currency: 'USD',
     metrics: {
       dailyRevenue: 12847,
       orderCount: 156,
@@ -79,7 +85,10 @@ const demoMerchants: DemoMerchant[] = [
     id: 'green-leaf',
     businessName: 'Green Leaf Dispensary',
     businessType: 'cannabis',
+    locationId: 'denver',
     location: 'Denver, CO',
+    timezone: 'America/Denver',
+    currency: 'USD',
     metrics: {
       dailyRevenue: 8923,
       orderCount: 89,
@@ -93,7 +102,10 @@ const demoMerchants: DemoMerchant[] = [
     id: 'urban-threads',
     businessName: 'Urban Threads',
     businessType: 'retail',
+    locationId: 'new-york',
     location: 'New York, NY',
+    timezone: 'America/New_York',
+    currency: 'USD',
     metrics: {
       dailyRevenue: 5632,
       orderCount: 42,
@@ -107,7 +119,10 @@ const demoMerchants: DemoMerchant[] = [
     id: 'quick-stop',
     businessName: 'Quick Stop Market',
     businessType: 'service',
+    locationId: 'chicago',
     location: 'Chicago, IL',
+    timezone: 'America/Chicago',
+    currency: 'USD',
     metrics: {
       dailyRevenue: 3421,
       orderCount: 234,
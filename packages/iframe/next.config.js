@@ -1,6 +1,23 @@
+// Parent pages allowed to embed the app. Feeds both the CSP frame-ancestors
+// directive and the postMessage allow-list in src/lib/origins.ts.
+const allowedParentOrigins = (
+  process.env.ALLOWED_PARENT_ORIGINS ||
+  "'self' https://*.pos-domain.com http://localhost:* https://localhost:*"
+)
+  .split(/[\s,]+/)
+  .filter(Boolean);
+
+// Backend the app calls, including the relay for email and SMS webhooks
+const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api.unified-intelligence.com';
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  env: {
+    NEXT_PUBLIC_ALLOWED_PARENT_ORIGINS: allowedParentOrigins.join(' '),
+    NEXT_PUBLIC_API_URL: apiUrl,
+  },
+  transpilePackages: ['@company/pos-intelligence-protocol'],
   headers: async () => {
     return [
       {
@@ -9,9 +26,9 @@ const nextConfig = {
           {
             key: 'Content-Security-Policy',
             value: [
-              "frame-ancestors 'self' https://*.pos-domain.com http://localhost:* https://localhost:*",
+              `frame-ancestors ${allowedParentOrigins.join(' ')}`,
               "default-src 'self'",
-              "connect-src 'self' https://api.unified-intelligence.com wss://realtime.unified-intelligence.com",
+              `connect-src 'self' ${apiUrl} wss://realtime.unified-intelligence.com`,
               "img-src 'self' https: data:",
               "font-src 'self' https://fonts.gstatic.com",
               "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
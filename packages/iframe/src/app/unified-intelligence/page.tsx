@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -13,37 +13,285 @@ import {
   Activity,
   AlertCircle,
   TrendingUp,
-  Users
+  Users,
+  Settings
 } from 'lucide-react';
+import { NotificationSettings } from '@/components/notification-settings';
+import { AlertsStore, toAlertState } from '@/lib/alerts-store';
+import type { AlertChange } from '@/lib/alerts-store';
 import { communication } from '@/lib/communication';
+import { createIndexedDBEventStorage, isIndexedDBAvailable } from '@/lib/event-db';
+import { EVENT_RETENTION_MS, EventStore } from '@/lib/event-store';
+import {
+  SAMPLE_INSIGHTS,
+  SAMPLE_SENTIMENT,
+  addReviewToSentiment,
+  createScenarioEvents,
+  formatAlertRollup,
+  formatAlertTime,
+  getAlertView,
+  getUrgentActions,
+} from '@/lib/intelligence';
+import { API_URL, Notifier, relayNotificationWebhook } from '@/lib/notifier';
+import type { NotificationDelivery } from '@/lib/notifier';
+import { observeContentSize } from '@/lib/resize';
+import { RulesEngine, getLookback } from '@/lib/rules-engine';
+import { createLocalSettingsStorage } from '@/lib/settings-storage';
+import {
+  HOST_NOTIFICATION_CHANNELS,
+  MessageType,
+  RpcError,
+  RpcMethod,
+  VIEW_FEATURES,
+  WEBHOOK_CHANNELS,
+  filterAlerts,
+  formatViewPath,
+  getAlertTime,
+  getMerchantContextKey,
+  groupIncidents,
+  isAlertUnread,
+  normalizeViewName,
+  parseViewPath,
+  validateAlertFilter,
+  validateAlertPolicy,
+  validateAlertRules,
+  validateNotificationPreferences,
+  validatePosEvents,
+} from '@company/pos-intelligence-protocol';
+import type {
+  Alert,
+  AlertDismissParams,
+  AlertEscalatedPayload,
+  AlertFilter,
+  AlertPolicy,
+  AlertSnoozeParams,
+  AlertUpdatedPayload,
+  ConfigPayload,
+  EventsIngestParams,
+  EventsIngestResult,
+  Incident,
+  Insight,
+  IntelligenceSnapshot,
+  MerchantContext,
+  NotificationPayload,
+  NotificationPreferencesUpdate,
+  PanelView,
+  PosEvent,
+  RulesSetParams,
+  SentimentSummary,
+  ViewChangedPayload,
+  ViewName,
+  ViewParams,
+  ViewRoute,
+} from '@company/pos-intelligence-protocol';
 
-export default function UnifiedIntelligencePage() {
-  const [features, setFeatures] = useState({
-    alerts: true,
-    businessSentiment: true,
-    competitorAnalysis: true,
-    redditMonitoring: true,
-  });
-  
-  const [activeTab, setActiveTab] = useState('dashboard');
-  const [alerts, setAlerts] = useState([
+interface ContextData {
+  sentiment: SentimentSummary | null;
+  insights: Insight[];
+}
+
+const EMPTY_CONTEXT: ContextData = { sentiment: null, insights: [] };
+
+const SNOOZE_MS = 60 * 60000;
+
+function createSampleAlerts(now: number): Alert[] {
+  return [
     {
       id: '1',
       title: 'Morning Rush Alert',
       message: 'Higher than usual order volume detected. Consider calling in additional staff.',
       severity: 'warning',
-      time: '5 min ago',
-      unread: true,
+      category: 'staffing',
+      source: 'orders',
+      status: 'active',
+      createdAt: now - 5 * 60000,
+      updatedAt: now - 5 * 60000,
     },
     {
       id: '2',
       title: 'New Review',
       message: 'You received a new 5-star review on Google!',
       severity: 'info',
-      time: '1 hour ago',
-      unread: false,
+      category: 'reviews',
+      source: 'reviews',
+      status: 'acknowledged',
+      createdAt: now - 60 * 60000,
+      updatedAt: now - 30 * 60000,
+      acknowledgedAt: now - 30 * 60000,
     },
-  ]);
+  ];
+}
+
+// Tells the host about a change in any location, tagged with its context; ALERT_NEW/ACKNOWLEDGED stay for older hosts
+function reportAlertChange(
+  { alert, previousStatus, previousSeverity }: AlertChange,
+  unreadCount: number,
+  contextKey: string
+) {
+  if (!communication) return;
+
+  const payload: AlertUpdatedPayload = { alert, previousStatus, unreadCount, contextKey };
+  communication.sendMessage({ type: MessageType.ALERT_UPDATED, payload });
+  if (previousSeverity) {
+    const escalated: AlertEscalatedPayload = { alert, previousSeverity, contextKey };
+    communication.sendMessage({ type: MessageType.ALERT_ESCALATED, payload: escalated });
+  }
+  // An escalation is announced again so hosts that toast new alerts notify the merchant once more
+  if (alert.status === 'active' && (previousStatus !== 'active' || previousSeverity)) {
+    const { id, title, message, severity } = alert;
+    communication.sendMessage({ type: MessageType.ALERT_NEW, payload: { id, title, message, severity, contextKey } });
+  } else if (previousStatus === 'active' && alert.status !== 'active') {
+    communication.sendMessage({ type: MessageType.ALERT_ACKNOWLEDGED, payload: { alertId: alert.id, contextKey } });
+  }
+}
+
+// New and escalated alerts are announced; ones the merchant has dealt with drop out of the digest
+function notifyAlertChange(notifier: Notifier, { alert, previousStatus, previousSeverity }: AlertChange) {
+  if (alert.status === 'active' && (previousStatus === undefined || previousSeverity)) {
+    notifier.notify(alert);
+  } else if (alert.status !== 'active') {
+    notifier.discard(alert.id);
+  }
+}
+
+function useSyncToHost(type: MessageType, value: unknown) {
+  const previous = useRef(value);
+  useEffect(() => {
+    if (previous.current === value) return;
+    previous.current = value;
+    communication?.sendMessage({ type, payload: value });
+  }, [type, value]);
+}
+
+export default function UnifiedIntelligencePage() {
+  const [features, setFeatures] = useState({
+    alerts: true,
+    businessSentiment: true,
+    competitorAnalysis: true,
+    redditMonitoring: true,
+  });
+  
+  const [route, setRoute] = useState<ViewRoute>({ view: 'dashboard' });
+  const activeTab = route.view;
+  // A single-feature panel shows one view without the header and tabs
+  const [panel, setPanel] = useState<PanelView | null>(null);
+  const [merchantContext, setMerchantContext] = useState<MerchantContext | undefined>(
+    () => communication?.getMerchantContext()
+  );
+  // Data is kept per merchant location so switching contexts never mixes them
+  const [dataByContext, setDataByContext] = useState<Record<string, ContextData>>({
+    default: { sentiment: SAMPLE_SENTIMENT, insights: SAMPLE_INSIGHTS },
+  });
+  const contextKey = getMerchantContextKey(merchantContext);
+  const { sentiment, insights } = dataByContext[contextKey] ?? EMPTY_CONTEXT;
+  const contextKeyRef = useRef(contextKey);
+  contextKeyRef.current = contextKey;
+  // Every location seen, so each notifier keeps its own time zone after the merchant switches away
+  const contexts = useRef(new Map<string, MerchantContext>());
+  if (merchantContext) contexts.current.set(contextKey, merchantContext);
+
+  // Alert ids shown as banners at the top of the widget until read or closed
+  const [notices, setNotices] = useState<string[]>([]);
+  // Each location's rules, alert policy and notification preferences survive reloads
+  const getSettings = (key: string) => createLocalSettingsStorage(key, (error) => communication?.sendMessage({
+    type: MessageType.ERROR,
+    payload: { code: 'SETTINGS_STORAGE_FAILED', message: error.message },
+  }));
+  // Each location has its own notification preferences and digest
+  const notifiers = useRef(new Map<string, Notifier>());
+  const getNotifier = (key: string) => {
+    let notifier = notifiers.current.get(key);
+    if (!notifier) {
+      const settings = getSettings(key);
+      const created = new Notifier({
+        preferences: settings.load().preferences,
+        timeZone: () => contexts.current.get(key)?.timezone,
+        deliver: (delivery) => deliverNotification(key, delivery),
+      });
+      created.subscribe(() => settings.save({ preferences: created.getPreferences() }));
+      notifiers.current.set(key, created);
+      notifier = created;
+    }
+    return notifier;
+  };
+  const notifier = getNotifier(contextKey);
+  // One store per location is the only copy of its alerts; the UI, RPC handlers and host all go through it
+  const alertStores = useRef(new Map<string, AlertsStore>());
+  const getAlertStore = (key: string) => {
+    let store = alertStores.current.get(key);
+    if (!store) {
+      const { policy } = getSettings(key).load();
+      const created = new AlertsStore(key === 'default' ? createSampleAlerts(Date.now()) : [], Date.now, policy);
+      created.subscribe((change) => {
+        reportAlertChange(change, created.getUnreadCount(), key);
+        notifyAlertChange(getNotifier(key), change);
+      });
+      alertStores.current.set(key, created);
+      store = created;
+    }
+    return store;
+  };
+  const alertStore = getAlertStore(contextKey);
+  // Each location keeps its own events, restored from IndexedDB, and evaluates its own rules over them
+  const eventStores = useRef(new Map<string, EventStore>());
+  const getEventStore = (key: string) => {
+    let store = eventStores.current.get(key);
+    if (!store) {
+      store = new EventStore({
+        storage: isIndexedDBAvailable() ? createIndexedDBEventStorage(key) : undefined,
+        onStorageError: (error) => communication?.sendMessage({
+          type: MessageType.ERROR,
+          payload: { code: 'EVENT_STORAGE_FAILED', message: error.message },
+        }),
+      });
+      void store.restore();
+      eventStores.current.set(key, store);
+    }
+    return store;
+  };
+  const currentEvents = () => getEventStore(contextKeyRef.current);
+  const ruleEngines = useRef(new Map<string, RulesEngine>());
+  const getRulesEngine = (key: string) => {
+    let engine = ruleEngines.current.get(key);
+    if (!engine) {
+      engine = new RulesEngine(getSettings(key).load().rules);
+      ruleEngines.current.set(key, engine);
+    }
+    return engine;
+  };
+  const currentRules = () => getRulesEngine(contextKeyRef.current);
+  const subscribeToAlerts = useCallback((listener: () => void) => alertStore.subscribe(listener), [alertStore]);
+  const allAlerts = useSyncExternalStore(subscribeToAlerts, () => alertStore.getAll(), () => alertStore.getAll());
+  const alerts = useMemo(() => filterAlerts(allAlerts), [allAlerts]);
+  // Incidents with more than one alert, by alert id, for the line linking related alerts
+  const sharedIncidents = useMemo(() => {
+    const byAlert = new Map<string, Incident>();
+    groupIncidents(alerts)
+      .filter((incident) => incident.alertIds.length > 1)
+      .forEach((incident) => incident.alertIds.forEach((alertId) => byAlert.set(alertId, incident)));
+    return byAlert;
+  }, [alerts]);
+  const unreadCount = alerts.filter(isAlertUnread).length;
+  const noticeAlerts = alerts.filter((alert) => isAlertUnread(alert) && notices.includes(alert.id));
+  const subscribeToPreferences = useCallback((listener: () => void) => notifier.subscribe(listener), [notifier]);
+  const preferences = useSyncExternalStore(
+    subscribeToPreferences,
+    () => notifier.getPreferences(),
+    () => notifier.getPreferences()
+  );
+  const alertStates = useMemo(() => alerts.map(toAlertState), [alerts]);
+  const urgentActions = useMemo(() => getUrgentActions(alertStates), [alertStates]);
+
+  // Keeps RPC handlers registered once on mount reading the latest data and context
+  const snapshotRef = useRef<IntelligenceSnapshot>({ alerts: alertStates, sentiment, insights, urgentActions });
+  snapshotRef.current = { alerts: alertStates, sentiment, insights, urgentActions };
+  const featuresRef = useRef(features);
+  featuresRef.current = features;
+  // Updated synchronously so back-to-back navigations report the right previous view
+  const routeRef = useRef(route);
+  const panelRef = useRef(panel);
+  panelRef.current = panel;
+  const contentRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (!communication) return; // Guard against SSR
@@ -54,41 +302,297 @@ export default function UnifiedIntelligencePage() {
       setFeatures(receivedFeatures as typeof features);
     }
 
+    // The host opens deep links by loading the page with e.g. ?view=alerts/a-123&panel=alerts
+    const search = new URLSearchParams(window.location.search);
+    const panelView = normalizeViewName(search.get('panel') ?? '');
+    const lockedView = panelView && panelView !== 'dashboard' && panelView !== 'settings' ? panelView : null;
+    let initialRoute = parseViewPath(search.get('view') ?? '');
+    if (lockedView && initialRoute?.view !== lockedView) {
+      initialRoute = { view: lockedView };
+    }
+    if (lockedView) {
+      panelRef.current = lockedView;
+      setPanel(lockedView);
+    }
+    if (initialRoute) {
+      routeRef.current = initialRoute;
+      setRoute(initialRoute);
+    }
+
+    const unsubscribeContext = communication.onMerchantContextChange(setMerchantContext);
+    const unsubscribeConfig = communication.onConfigChange((_config: ConfigPayload, changes: ConfigPayload) => {
+      if (changes.features) {
+        setFeatures(communication.getFeatures() as typeof features);
+      }
+    });
+
     // Listen for scenario triggers
-    communication.on('TRIGGER_SCENARIO', (message) => {
+    communication.on(MessageType.TRIGGER_SCENARIO, (message) => {
       const scenario = message.payload?.scenario;
       
+      ingestEvents(createScenarioEvents(scenario));
       switch (scenario) {
         case 'morning-rush':
-          setAlerts(prev => [{
-            id: `alert-${Date.now()}`,
-            title: 'Urgent: Morning Rush Detected',
-            message: 'Order volume is 150% above normal. Immediate action required.',
-            severity: 'critical',
-            time: 'Just now',
-            unread: true,
-          }, ...prev]);
-          break;
-        case 'negative-review':
-          setAlerts(prev => [{
-            id: `alert-${Date.now()}`,
-            title: 'Negative Review Alert',
-            message: 'New 1-star review requires immediate response.',
-            severity: 'warning',
-            time: 'Just now',
-            unread: true,
-          }, ...prev]);
+          addInsight({
+            id: `insight-${Date.now()}`,
+            title: 'Rush hours are shifting earlier',
+            detail: 'Today\'s rush started 30 minutes before the usual peak.',
+            source: 'orders',
+          });
           break;
       }
     });
 
+    const unregisterHandlers = [
+      communication.handle(RpcMethod.INTELLIGENCE_GET_SNAPSHOT, () => snapshotRef.current),
+      communication.handle(RpcMethod.ALERTS_LIST, (filter?: AlertFilter) => {
+        const error = validateAlertFilter(filter);
+        if (error) {
+          throw new RpcError('INVALID_PARAMS', error);
+        }
+        return currentAlerts().list(filter);
+      }),
+      communication.handle(RpcMethod.ALERTS_GET_UNREAD_COUNT, () => currentAlerts().getUnreadCount()),
+      communication.handle(RpcMethod.ALERTS_ACKNOWLEDGE, ({ alertId }: { alertId: string }) => {
+        const alert = currentAlerts().acknowledge(alertId);
+        if (!alert) {
+          throw new RpcError('NOT_FOUND', `Alert "${alertId}" not found`);
+        }
+        return { alertId };
+      }),
+      communication.handle(RpcMethod.ALERTS_SNOOZE, ({ alertId, until }: AlertSnoozeParams) => {
+        if (!Number.isFinite(until)) {
+          throw new RpcError('INVALID_PARAMS', 'Snooze time must be a timestamp');
+        }
+        const alert = currentAlerts().snooze(alertId, until);
+        if (!alert) {
+          throw new RpcError('NOT_FOUND', `Alert "${alertId}" not found`);
+        }
+        return { alertId, until };
+      }),
+      communication.handle(RpcMethod.ALERTS_DISMISS, ({ alertId }: AlertDismissParams) => {
+        const alert = currentAlerts().dismiss(alertId);
+        if (!alert) {
+          throw new RpcError('NOT_FOUND', `Alert "${alertId}" not found`);
+        }
+        return { alertId };
+      }),
+      communication.handle(RpcMethod.ALERTS_LIST_INCIDENTS, () => currentAlerts().getIncidents()),
+      communication.handle(RpcMethod.ALERTS_GET_POLICY, () => currentAlerts().getPolicy()),
+      communication.handle(RpcMethod.ALERTS_SET_POLICY, (policy: Partial<AlertPolicy>) => {
+        const error = validateAlertPolicy(policy);
+        if (error) {
+          throw new RpcError('INVALID_PARAMS', error);
+        }
+        const updated = currentAlerts().setPolicy(policy);
+        getSettings(contextKeyRef.current).save({ policy: updated });
+        return updated;
+      }),
+      communication.handle(RpcMethod.NOTIFICATIONS_GET_PREFERENCES, () => currentNotifier().getPreferences()),
+      communication.handle(RpcMethod.NOTIFICATIONS_SET_PREFERENCES, (update: NotificationPreferencesUpdate) => {
+        const error = validateNotificationPreferences(update);
+        if (error) {
+          throw new RpcError('INVALID_PARAMS', error);
+        }
+        return currentNotifier().setPreferences(update);
+      }),
+      communication.handle(RpcMethod.EVENTS_INGEST, ({ events, contextKey }: EventsIngestParams) => {
+        const error = validatePosEvents(events);
+        if (error) {
+          throw new RpcError('INVALID_PARAMS', error);
+        }
+        if (contextKey !== undefined && (typeof contextKey !== 'string' || !contextKey)) {
+          throw new RpcError('INVALID_PARAMS', 'contextKey must be a non-empty string');
+        }
+        return ingestEvents(events, contextKey ?? contextKeyRef.current);
+      }),
+      communication.handle(RpcMethod.RULES_GET, () => currentRules().getRules()),
+      communication.handle(RpcMethod.RULES_SET, ({ rules }: RulesSetParams) => {
+        const error = validateAlertRules(rules);
+        if (error) {
+          throw new RpcError('INVALID_PARAMS', error);
+        }
+        const tooLong = rules.find((rule) => getLookback(rule.condition) > EVENT_RETENTION_MS);
+        if (tooLong) {
+          throw new RpcError('INVALID_PARAMS', `Rule "${tooLong.id}" looks back further than the ${EVENT_RETENTION_MS / 86400000} days of events kept`);
+        }
+        currentRules().setRules(rules);
+        getSettings(contextKeyRef.current).save({ rules });
+        return currentRules().getRules();
+      }),
+      communication.handle(RpcMethod.VIEW_SWITCH, ({ view, params }: { view: string; params?: ViewParams }) => {
+        const next = typeof view === 'string' ? parseViewPath(view, params) : null;
+        if (!next) {
+          throw new RpcError('INVALID_VIEW', `Unknown view "${view}"`);
+        }
+        if (panelRef.current && next.view !== panelRef.current) {
+          throw new RpcError('VIEW_UNAVAILABLE', `This panel only shows the ${panelRef.current} view`);
+        }
+        const feature = VIEW_FEATURES[next.view];
+        if (feature && !featuresRef.current[feature]) {
+          throw new RpcError('VIEW_UNAVAILABLE', `The ${next.view} view is not enabled`);
+        }
+        const alertId = next.params?.alertId;
+        if (alertId && !currentAlerts().get(alertId)) {
+          throw new RpcError('NOT_FOUND', `Alert "${alertId}" not found`);
+        }
+        navigate(next);
+        return next;
+      }),
+    ];
+
     return () => {
       if (communication) {
-        communication.off('TRIGGER_SCENARIO');
+        communication.off(MessageType.TRIGGER_SCENARIO);
+        unsubscribeContext();
+        unsubscribeConfig();
+        unregisterHandlers.forEach((unregister: () => void) => unregister());
       }
     };
   }, []);
 
+  useEffect(() => {
+    const stores = alertStores.current;
+    const locationNotifiers = notifiers.current;
+    return () => {
+      stores.forEach(store => store.destroy());
+      locationNotifiers.forEach(locationNotifier => locationNotifier.destroy());
+    };
+  }, []);
+
+  // Start restoring a location's stored events as soon as it opens, before the host sends more
+  useEffect(() => {
+    currentEvents();
+  }, [contextKey]);
+
+  // Escape inside the iframe never reaches the host page; ask it to close the panel or drawer
+  useEffect(() => {
+    if (!communication) return;
+
+    const handleKeydown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !event.defaultPrevented) {
+        communication.sendMessage({ type: MessageType.DISMISS });
+      }
+    };
+    window.addEventListener('keydown', handleKeydown);
+    return () => window.removeEventListener('keydown', handleKeydown);
+  }, []);
+
+  // Let the host size the iframe to the content instead of scrolling inside it
+  useEffect(() => {
+    if (!communication || !contentRef.current) return;
+    return observeContentSize(contentRef.current, (size) => communication.reportSize(size));
+  }, []);
+
+  // Leave a tab whose feature the host just turned off
+  useEffect(() => {
+    const feature = VIEW_FEATURES[activeTab];
+    if (feature && !features[feature]) {
+      navigate({ view: 'dashboard' });
+    }
+  }, [features]);
+
+  // Bring a deep-linked alert into view
+  useEffect(() => {
+    const alertId = route.params?.alertId;
+    if (!alertId || !contentRef.current) return;
+
+    const element = contentRef.current.querySelector(`[data-alert-id="${CSS.escape(alertId)}"]`);
+    element?.scrollIntoView({ block: 'nearest' });
+  }, [route]);
+
+  // Pushes later changes to the host; the initial values reach it through the snapshot
+  useSyncToHost(MessageType.SENTIMENT_UPDATED, sentiment);
+  useSyncToHost(MessageType.INSIGHTS_UPDATED, insights);
+  useSyncToHost(MessageType.URGENT_ACTIONS_UPDATED, urgentActions);
+
+  const updateContext = (update: (data: ContextData) => ContextData, key = contextKeyRef.current) => {
+    setDataByContext(prev => ({ ...prev, [key]: update(prev[key] ?? EMPTY_CONTEXT) }));
+  };
+
+  const currentAlerts = () => getAlertStore(contextKeyRef.current);
+
+  const currentNotifier = () => getNotifier(contextKeyRef.current);
+
+  // Webhooks and the host get every location's deliveries; banners only show the location on screen
+  const deliverNotification = (key: string, delivery: NotificationDelivery) => {
+    const { webhooks } = getNotifier(key).getPreferences();
+    WEBHOOK_CHANNELS.forEach((channel) => {
+      const webhook = webhooks[channel];
+      if (!webhook || !delivery.channels.includes(channel)) return;
+      const relay = { apiUrl: API_URL, apiKey: communication?.getApiKey(), token: communication?.getAuthToken() };
+      relayNotificationWebhook(channel, webhook, delivery, relay).catch((error: Error) => communication?.sendMessage({
+        type: MessageType.ERROR,
+        payload: { code: 'NOTIFICATION_WEBHOOK_FAILED', message: error.message },
+      }));
+    });
+    const channels = delivery.channels.filter((channel) => HOST_NOTIFICATION_CHANNELS.includes(channel));
+    if (channels.length > 0) {
+      const payload: NotificationPayload = { alerts: delivery.alerts, channels, digest: delivery.digest, contextKey: key };
+      communication?.sendMessage({ type: MessageType.NOTIFICATION, payload });
+    }
+
+    if (contextKeyRef.current === key && delivery.channels.includes('widget')) {
+      const ids = delivery.alerts.map((alert) => alert.id);
+      setNotices(current => [...ids, ...current.filter((id) => !ids.includes(id))].slice(0, 3));
+    }
+  };
+
+  const closeNotice = (alertId: string) => {
+    setNotices(current => current.filter((id) => id !== alertId));
+  };
+
+  const openNotice = (alert: Alert) => {
+    closeNotice(alert.id);
+    if (!panel || panel === 'alerts') navigate({ view: 'alerts', params: { alertId: alert.id } });
+  };
+
+  const changePreferences = (update: NotificationPreferencesUpdate) => {
+    const error = validateNotificationPreferences(update);
+    if (!error) currentNotifier().setPreferences(update);
+    return error;
+  };
+
+  // Stores events for their location, runs its rules when any are new and folds new reviews into its sentiment
+  const ingestEvents = (events: PosEvent[], key = contextKeyRef.current): EventsIngestResult => {
+    const store = getEventStore(key);
+    const added = store.add(events);
+    if (added.length === 0) return { accepted: 0, alertIds: [] };
+
+    const alerts = getAlertStore(key);
+    const alertIds = getRulesEngine(key).evaluate(store.getAll()).map((alert) => alerts.add(alert).id);
+    const ratings = added.flatMap((event) => (event.kind === 'review' ? [event.rating] : []));
+    if (ratings.length > 0) {
+      updateContext(data => ({ ...data, sentiment: ratings.reduce(addReviewToSentiment, data.sentiment) }), key);
+    }
+    return { accepted: added.length, alertIds };
+  };
+
+  const addInsight = (insight: Insight) => {
+    updateContext(data => ({ ...data, insights: [insight, ...data.insights] }));
+  };
+
+  const takeAction = (alert: Alert) => {
+    const view = getAlertView(alert);
+    currentAlerts().acknowledge(alert.id);
+    if (view) navigate({ view });
+  };
+
+  const navigate = (next: ViewRoute) => {
+    const previous = routeRef.current;
+    if (formatViewPath(next) === formatViewPath(previous)) return;
+
+    routeRef.current = next;
+    setRoute(next);
+
+    const payload: ViewChangedPayload = { ...next, previousView: previous.view };
+    communication?.sendMessage({ type: MessageType.VIEW_CHANGED, payload });
+  };
+
+  const changeView = (view: string) => {
+    navigate({ view: view as ViewName });
+  };
+
   const getSeverityColor = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -103,246 +607,338 @@ export default function UnifiedIntelligencePage() {
   };
 
   return (
-    <div className="h-full bg-gray-50 p-4 overflow-y-auto">
-      <div className="mx-auto max-w-6xl">
-        <header className="mb-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-2xl font-bold text-gray-900">Unified Intelligence</h1>
-              <p className="text-sm text-gray-600">AI-powered insights for your business</p>
+    <div className="h-full bg-gray-50 overflow-y-auto">
+      <div ref={contentRef} className={panel ? 'p-2' : 'p-4'}>
+        <div className="mx-auto max-w-6xl">
+          <header className={panel ? 'hidden' : 'mb-6'}>
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">Unified Intelligence</h1>
+                <p className="text-sm text-gray-600">
+                  {merchantContext?.businessName
+                    ? [merchantContext.businessName, merchantContext.locationName].filter(Boolean).join(' · ')
+                    : 'AI-powered insights for your business'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Badge variant="outline" className="bg-brand-teal text-white border-brand-teal">
+                  Connected
+                </Badge>
+              </div>
             </div>
-            <div className="flex items-center space-x-2">
-              <Badge variant="outline" className="bg-brand-teal text-white border-brand-teal">
-                Connected
-              </Badge>
+          </header>
+
+          {features.alerts && noticeAlerts.length > 0 && (
+            <div className="mb-4 space-y-2" role="status">
+              {noticeAlerts.map((alert) => (
+                <div
+                  key={alert.id}
+                  className={`flex items-start justify-between rounded-lg border p-3 ${getSeverityColor(alert.severity)}`}
+                >
+                  <button type="button" className="text-left" onClick={() => openNotice(alert)}>
+                    <span className="font-medium">{alert.title}</span>
+                    <span className="block text-sm">{alert.message}</span>
+                  </button>
+                  <button
+                    type="button"
+                    aria-label="Close notification"
+                    className="ml-2 text-lg leading-none"
+                    onClick={() => closeNotice(alert.id)}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
             </div>
-          </div>
-        </header>
-
-        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4 relative">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="dashboard">
-              <Activity className="mr-2 h-4 w-4" />
-              Dashboard
-            </TabsTrigger>
-            {features.alerts && (
-              <TabsTrigger value="alerts">
-                <Bell className="mr-2 h-4 w-4" />
-                Alerts
-                {alerts.filter(a => a.unread).length > 0 && (
-                  <Badge className="ml-2 h-5 w-5 rounded-full p-0 text-xs">
-                    {alerts.filter(a => a.unread).length}
-                  </Badge>
-                )}
-              </TabsTrigger>
-            )}
-            {features.businessSentiment && (
-              <TabsTrigger value="sentiment">
-                <MessageSquare className="mr-2 h-4 w-4" />
-                Sentiment
-              </TabsTrigger>
-            )}
-            {features.competitorAnalysis && (
-              <TabsTrigger value="competitors">
-                <Trophy className="mr-2 h-4 w-4" />
-                Competitors
+          )}
+
+          <Tabs value={activeTab} onValueChange={changeView} className="space-y-4 relative">
+            <TabsList className={panel ? 'hidden' : 'grid w-full grid-cols-6'}>
+              <TabsTrigger value="dashboard">
+                <Activity className="mr-2 h-4 w-4" />
+                Dashboard
               </TabsTrigger>
-            )}
-            {features.redditMonitoring && (
-              <TabsTrigger value="reddit">
-                <Hash className="mr-2 h-4 w-4" />
-                Reddit
+              {features.alerts && (
+                <TabsTrigger value="alerts">
+                  <Bell className="mr-2 h-4 w-4" />
+                  Alerts
+                  {unreadCount > 0 && (
+                    <Badge className="ml-2 h-5 w-5 rounded-full p-0 text-xs">
+                      {unreadCount}
+                    </Badge>
+                  )}
+                </TabsTrigger>
+              )}
+              {features.businessSentiment && (
+                <TabsTrigger value="sentiment">
+                  <MessageSquare className="mr-2 h-4 w-4" />
+                  Sentiment
+                </TabsTrigger>
+              )}
+              {features.competitorAnalysis && (
+                <TabsTrigger value="competitors">
+                  <Trophy className="mr-2 h-4 w-4" />
+                  Competitors
+                </TabsTrigger>
+              )}
+              {features.redditMonitoring && (
+                <TabsTrigger value="reddit">
+                  <Hash className="mr-2 h-4 w-4" />
+                  Reddit
+                </TabsTrigger>
+              )}
+              <TabsTrigger value="settings">
+                <Settings className="mr-2 h-4 w-4" />
+                Settings
               </TabsTrigger>
-            )}
-          </TabsList>
+            </TabsList>
+
+            <TabsContent value="dashboard" className="space-y-4 relative z-0">
+              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Active Alerts</CardTitle>
+                    <AlertCircle className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{unreadCount}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {alerts.length} total alerts
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Sentiment Score</CardTitle>
+                    <TrendingUp className="h-4 w-4 text-green-500" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{sentiment ? sentiment.score.toFixed(1) : '—'}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {sentiment?.change !== undefined
+                        ? `${sentiment.change >= 0 ? '+' : ''}${sentiment.change.toFixed(1)} from last week`
+                        : 'No reviews yet'}
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Market Position</CardTitle>
+                    <Trophy className="h-4 w-4 text-yellow-500" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">#2</div>
+                    <p className="text-xs text-muted-foreground">
+                      In your area
+                    </p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                    <CardTitle className="text-sm font-medium">Reddit Mentions</CardTitle>
+                    <Hash className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">7</div>
+                    <p className="text-xs text-muted-foreground">
+                      This month
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
 
-          <TabsContent value="dashboard" className="space-y-4 relative z-0">
-            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <Card>
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Active Alerts</CardTitle>
-                  <AlertCircle className="h-4 w-4 text-muted-foreground" />
+                <CardHeader>
+                  <CardTitle>Recent Activity</CardTitle>
+                  <CardDescription>
+                    Your latest alerts and insights
+                  </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">{alerts.filter(a => a.unread).length}</div>
-                  <p className="text-xs text-muted-foreground">
-                    {alerts.length} total alerts
-                  </p>
+                <CardContent className="space-y-3">
+                  {alerts.slice(0, 3).map((alert) => (
+                    <div
+                      key={alert.id}
+                      className={`rounded-lg border p-3 ${getSeverityColor(alert.severity)}`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <h4 className="font-medium">{alert.title}</h4>
+                          <p className="text-sm mt-1">{alert.message}</p>
+                        </div>
+                        <span className="text-xs">{formatAlertTime(alert.createdAt)}</span>
+                      </div>
+                    </div>
+                  ))}
+                  {insights.slice(0, 2).map((insight) => (
+                    <div key={insight.id} className="rounded-lg border p-3">
+                      <h4 className="font-medium">{insight.title}</h4>
+                      <p className="text-sm mt-1 text-muted-foreground">{insight.detail}</p>
+                    </div>
+                  ))}
                 </CardContent>
               </Card>
+            </TabsContent>
 
+            <TabsContent value="alerts" className="space-y-4">
               <Card>
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Sentiment Score</CardTitle>
-                  <TrendingUp className="h-4 w-4 text-green-500" />
+                <CardHeader>
+                  <CardTitle>Operational Alerts</CardTitle>
+                  <CardDescription>
+                    Real-time alerts for your business
+                  </CardDescription>
                 </CardHeader>
-                <CardContent>
-                  <div className="text-2xl font-bold">4.3</div>
-                  <p className="text-xs text-muted-foreground">
-                    +0.2 from last week
-                  </p>
+                <CardContent className="space-y-3">
+                  {alerts.map((alert) => (
+                    <div
+                      key={alert.id}
+                      data-alert-id={alert.id}
+                      className={`rounded-lg border p-4 ${getSeverityColor(alert.severity)} ${
+                        alert.id === route.params?.alertId ? 'ring-2 ring-brand-teal' : ''
+                      }`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="space-y-1">
+                          <h4 className="font-medium flex items-center">
+                            {alert.title}
+                            {isAlertUnread(alert) && (
+                              <Badge className="ml-2" variant="secondary">New</Badge>
+                            )}
+                            {formatAlertRollup(alert) && (
+                              <Badge className="ml-2" variant="outline">{formatAlertRollup(alert)}</Badge>
+                            )}
+                            {alert.escalatedFrom && (
+                              <Badge className="ml-2" variant="destructive">Escalated</Badge>
+                            )}
+                          </h4>
+                          <p className="text-sm">{alert.message}</p>
+                          {sharedIncidents.has(alert.id) && (
+                            <p className="text-xs opacity-80">
+                              Incident: {sharedIncidents.get(alert.id)?.title} · {sharedIncidents.get(alert.id)?.alertIds.length} alerts
+                            </p>
+                          )}
+                          {alert.explanation && alert.message !== alert.explanation.join('. ') && (
+                            <ul className="text-xs list-disc pl-4 opacity-80">
+                              {alert.explanation.map((reason) => (
+                                <li key={reason}>{reason}</li>
+                              ))}
+                            </ul>
+                          )}
+                          <div className="flex space-x-2 mt-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!isAlertUnread(alert)}
+                              onClick={() => alertStore.acknowledge(alert.id)}
+                            >
+                              Acknowledge
+                            </Button>
+                            {getAlertView(alert) && (
+                              <Button size="sm" variant="outline" onClick={() => takeAction(alert)}>
+                                Take Action
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              disabled={alert.status === 'snoozed'}
+                              onClick={() => alertStore.snooze(alert.id, Date.now() + SNOOZE_MS)}
+                            >
+                              Snooze 1h
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => alertStore.dismiss(alert.id)}>
+                              Dismiss
+                            </Button>
+                          </div>
+                        </div>
+                        <span className="text-xs">{formatAlertTime(getAlertTime(alert))}</span>
+                      </div>
+                    </div>
+                  ))}
                 </CardContent>
               </Card>
+            </TabsContent>
 
+            <TabsContent value="sentiment" className="space-y-4">
               <Card>
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Market Position</CardTitle>
-                  <Trophy className="h-4 w-4 text-yellow-500" />
+                <CardHeader>
+                  <CardTitle>Business Sentiment Analysis</CardTitle>
+                  <CardDescription>
+                    AI-powered analysis of your customer reviews
+                    {route.params?.reviewId && ` · Review ${route.params.reviewId}`}
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">#2</div>
-                  <p className="text-xs text-muted-foreground">
-                    In your area
-                  </p>
+                  <div className="text-center py-8">
+                    <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">
+                      Sentiment analysis will appear here
+                    </h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      AI-generated insights from Google and Yelp reviews
+                    </p>
+                  </div>
                 </CardContent>
               </Card>
+            </TabsContent>
 
+            <TabsContent value="competitors" className="space-y-4">
               <Card>
-                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <CardTitle className="text-sm font-medium">Reddit Mentions</CardTitle>
-                  <Hash className="h-4 w-4 text-muted-foreground" />
+                <CardHeader>
+                  <CardTitle>Competitor Analysis</CardTitle>
+                  <CardDescription>
+                    Compare your performance with competitors
+                  </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">7</div>
-                  <p className="text-xs text-muted-foreground">
-                    This month
-                  </p>
+                  <div className="text-center py-8">
+                    <Trophy className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">
+                      Competitor insights will appear here
+                    </h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Side-by-side comparison with market leaders
+                    </p>
+                  </div>
                 </CardContent>
               </Card>
-            </div>
+            </TabsContent>
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Activity</CardTitle>
-                <CardDescription>
-                  Your latest alerts and insights
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {alerts.slice(0, 3).map((alert) => (
-                  <div
-                    key={alert.id}
-                    className={`rounded-lg border p-3 ${getSeverityColor(alert.severity)}`}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div>
-                        <h4 className="font-medium">{alert.title}</h4>
-                        <p className="text-sm mt-1">{alert.message}</p>
-                      </div>
-                      <span className="text-xs">{alert.time}</span>
-                    </div>
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="alerts" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Operational Alerts</CardTitle>
-                <CardDescription>
-                  Real-time alerts for your business
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {alerts.map((alert) => (
-                  <div
-                    key={alert.id}
-                    className={`rounded-lg border p-4 ${getSeverityColor(alert.severity)}`}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="space-y-1">
-                        <h4 className="font-medium flex items-center">
-                          {alert.title}
-                          {alert.unread && (
-                            <Badge className="ml-2" variant="secondary">New</Badge>
-                          )}
-                        </h4>
-                        <p className="text-sm">{alert.message}</p>
-                        <div className="flex space-x-2 mt-2">
-                          <Button size="sm" variant="outline">
-                            Acknowledge
-                          </Button>
-                          <Button size="sm" variant="outline">
-                            Take Action
-                          </Button>
-                        </div>
-                      </div>
-                      <span className="text-xs">{alert.time}</span>
-                    </div>
+            <TabsContent value="reddit" className="space-y-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reddit Monitoring</CardTitle>
+                  <CardDescription>
+                    Track and respond to Reddit mentions
+                    {route.params?.threadId && ` · Thread ${route.params.threadId}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-center py-8">
+                    <Hash className="mx-auto h-12 w-12 text-gray-400" />
+                    <h3 className="mt-2 text-sm font-medium text-gray-900">
+                      Reddit mentions will appear here
+                    </h3>
+                    <p className="mt-1 text-sm text-gray-500">
+                      Monitor brand mentions and engage with your community
+                    </p>
                   </div>
-                ))}
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="sentiment" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Business Sentiment Analysis</CardTitle>
-                <CardDescription>
-                  AI-powered analysis of your customer reviews
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <MessageSquare className="mx-auto h-12 w-12 text-gray-400" />
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">
-                    Sentiment analysis will appear here
-                  </h3>
-                  <p className="mt-1 text-sm text-gray-500">
-                    AI-generated insights from Google and Yelp reviews
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="competitors" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Competitor Analysis</CardTitle>
-                <CardDescription>
-                  Compare your performance with competitors
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <Trophy className="mx-auto h-12 w-12 text-gray-400" />
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">
-                    Competitor insights will appear here
-                  </h3>
-                  <p className="mt-1 text-sm text-gray-500">
-                    Side-by-side comparison with market leaders
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-
-          <TabsContent value="reddit" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Reddit Monitoring</CardTitle>
-                <CardDescription>
-                  Track and respond to Reddit mentions
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <Hash className="mx-auto h-12 w-12 text-gray-400" />
-                  <h3 className="mt-2 text-sm font-medium text-gray-900">
-                    Reddit mentions will appear here
-                  </h3>
-                  <p className="mt-1 text-sm text-gray-500">
-                    Monitor brand mentions and engage with your community
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="settings" className="space-y-4">
+              <NotificationSettings
+                key={contextKey}
+                preferences={preferences}
+                timeZone={merchantContext?.timezone}
+                onChange={changePreferences}
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
       </div>
     </div>
   );
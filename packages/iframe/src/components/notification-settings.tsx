@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ALERT_CATEGORIES, ALERT_SEVERITIES, NOTIFICATION_CHANNELS, WEBHOOK_CHANNELS } from '@company/pos-intelligence-protocol';
+import type {
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  WebhookChannel,
+} from '@company/pos-intelligence-protocol';
+
+export interface NotificationSettingsProps {
+  preferences: NotificationPreferences;
+  /** Merchant time zone quiet hours are read in */
+  timeZone?: string;
+  /** Applies a change and returns why it was refused, or null */
+  onChange: (update: NotificationPreferencesUpdate) => string | null;
+}
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  widget: 'In widget',
+  toast: 'Host toast',
+  browser: 'Browser',
+  email: 'Email',
+  sms: 'SMS',
+};
+
+const DIGEST_INTERVALS = [15, 30, 60, 240];
+
+const toggle = (channels: NotificationChannel[], channel: NotificationChannel) =>
+  channels.includes(channel) ? channels.filter((entry) => entry !== channel) : [...channels, channel];
+
+function ChannelCheckboxes({
+  label,
+  channels,
+  disabled,
+  onToggle,
+}: {
+  label: string;
+  channels: NotificationChannel[];
+  disabled?: boolean;
+  onToggle: (channel: NotificationChannel) => void;
+}) {
+  return (
+    <>
+      {NOTIFICATION_CHANNELS.map((channel) => (
+        <td key={channel} className="py-1 text-center">
+          <input
+            type="checkbox"
+            aria-label={`${label}: ${CHANNEL_LABELS[channel]}`}
+            checked={channels.includes(channel)}
+            disabled={disabled}
+            onChange={() => onToggle(channel)}
+          />
+        </td>
+      ))}
+    </>
+  );
+}
+
+/**
+ * The merchant's notification preferences: channels per severity and
+ * category, quiet hours, the digest and the email and SMS webhooks.
+ */
+export function NotificationSettings({ preferences, timeZone, onChange }: NotificationSettingsProps) {
+  const [webhookDrafts, setWebhookDrafts] = useState(() => ({
+    email: preferences.webhooks.email ?? { url: '', to: '' },
+    sms: preferences.webhooks.sms ?? { url: '', to: '' },
+  }));
+  const [error, setError] = useState<string | null>(null);
+  const { quietHours, digest } = preferences;
+
+  const apply = (update: NotificationPreferencesUpdate) => setError(onChange(update));
+
+  const editWebhook = (channel: WebhookChannel, field: 'url' | 'to', value: string) => {
+    setWebhookDrafts((drafts) => ({ ...drafts, [channel]: { ...drafts[channel], [field]: value } }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about alerts. Quiet hours follow {timeZone ?? 'this device\'s time zone'}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 text-sm">
+        <table className="w-full">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium">Alerts</th>
+              <th />
+              {NOTIFICATION_CHANNELS.map((channel) => (
+                <th key={channel} className="font-medium">{CHANNEL_LABELS[channel]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ALERT_SEVERITIES.map((severity) => (
+              <tr key={severity}>
+                <td className="py-1 capitalize">{severity}</td>
+                <td />
+                <ChannelCheckboxes
+                  label={severity}
+                  channels={preferences.channels[severity]}
+                  onToggle={(channel) => apply({ channels: { [severity]: toggle(preferences.channels[severity], channel) } })}
+                />
+              </tr>
+            ))}
+            {ALERT_CATEGORIES.map((category) => {
+              const override = preferences.categories[category];
+              return (
+                <tr key={category}>
+                  <td className="py-1 capitalize">{category}</td>
+                  <td className="py-1">
+                    <label className="flex items-center gap-1 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={override !== undefined}
+                        onChange={() => apply({ categories: { [category]: override ? null : ['widget'] } })}
+                      />
+                      Custom
+                    </label>
+                  </td>
+                  <ChannelCheckboxes
+                    label={category}
+                    channels={override ?? []}
+                    disabled={!override}
+                    onToggle={(channel) => apply({ categories: { [category]: toggle(override ?? [], channel) } })}
+                  />
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 font-medium">
+            <input
+              type="checkbox"
+              checked={quietHours !== null}
+              onChange={() => apply({ quietHours: quietHours ? null : { start: '22:00', end: '07:00' } })}
+            />
+            Quiet hours
+          </label>
+          {quietHours && (
+            <div className="flex flex-wrap items-center gap-3 pl-6">
+              <input
+                type="time"
+                aria-label="Quiet hours start"
+                className="rounded border px-2 py-1"
+                value={quietHours.start}
+                onChange={(event) => apply({ quietHours: { ...quietHours, start: event.target.value } })}
+              />
+              <span>to</span>
+              <input
+                type="time"
+                aria-label="Quiet hours end"
+                className="rounded border px-2 py-1"
+                value={quietHours.end}
+                onChange={(event) => apply({ quietHours: { ...quietHours, end: event.target.value } })}
+              />
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={quietHours.allowCritical ?? false}
+                  onChange={() => apply({ quietHours: { ...quietHours, allowCritical: !quietHours.allowCritical } })}
+                />
+                Let critical alerts through
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="font-medium">Digest</p>
+          <div className="flex flex-wrap items-center gap-3">
+            {ALERT_SEVERITIES.map((severity) => (
+              <label key={severity} className="flex items-center gap-2 capitalize">
+                <input
+                  type="checkbox"
+                  checked={digest.severities.includes(severity)}
+                  onChange={() => apply({
+                    digest: {
+                      severities: digest.severities.includes(severity)
+                        ? digest.severities.filter((entry) => entry !== severity)
+                        : [...digest.severities, severity],
+                    },
+                  })}
+                />
+                {severity}
+              </label>
+            ))}
+            <select
+              aria-label="Digest interval"
+              className="rounded border px-2 py-1"
+              value={digest.interval / 60000}
+              onChange={(event) => apply({ digest: { interval: Number(event.target.value) * 60000 } })}
+            >
+              {[...new Set([...DIGEST_INTERVALS, digest.interval / 60000])].map((minutes) => (
+                <option key={minutes} value={minutes}>Every {minutes} min</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="font-medium">Email and SMS webhooks</p>
+          {WEBHOOK_CHANNELS.map((channel) => (
+            <div key={channel} className="flex flex-wrap items-center gap-2">
+              <span className="w-12">{CHANNEL_LABELS[channel]}</span>
+              <input
+                type="url"
+                aria-label={`${CHANNEL_LABELS[channel]} webhook URL`}
+                placeholder="https://"
+                className="flex-1 rounded border px-2 py-1"
+                value={webhookDrafts[channel].url}
+                onChange={(event) => editWebhook(channel, 'url', event.target.value)}
+              />
+              <input
+                aria-label={`${CHANNEL_LABELS[channel]} recipient`}
+                placeholder={channel === 'email' ? 'owner@example.com' : '+15550100'}
+                className="rounded border px-2 py-1"
+                value={webhookDrafts[channel].to}
+                onChange={(event) => editWebhook(channel, 'to', event.target.value)}
+              />
+              <Button size="sm" variant="outline" onClick={() => apply({ webhooks: { [channel]: webhookDrafts[channel] } })}>
+                Save
+              </Button>
+              {preferences.webhooks[channel] && (
+                <Button size="sm" variant="ghost" onClick={() => apply({ webhooks: { [channel]: null } })}>
+                  Remove
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <p role="alert" className="text-red-700">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
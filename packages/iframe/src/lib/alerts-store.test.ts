@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AlertsStore, toAlertState } from './alerts-store';
+import type { NewAlert } from './alerts-store';
+
+function newAlert(id: string, overrides: Partial<NewAlert> = {}): NewAlert {
+  return {
+    id,
+    title: `Alert ${id}`,
+    message: 'Details',
+    severity: 'warning',
+    category: 'operations',
+    source: 'orders',
+    ...overrides,
+  };
+}
+
+describe('AlertsStore', () => {
+  let store: AlertsStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new AlertsStore();
+  });
+
+  afterEach(() => {
+    store.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should raise alerts as active and report them as new', () => {
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const alert = store.add(newAlert('a1'));
+
+    expect(alert).toMatchObject({ status: 'active', createdAt: Date.now(), updatedAt: Date.now() });
+    expect(listener).toHaveBeenCalledWith({ alert, previousStatus: undefined });
+    expect(store.getUnreadCount()).toBe(1);
+  });
+
+  it('should track acknowledge and dismiss with timestamps', () => {
+    const listener = vi.fn();
+    store.add(newAlert('a1'));
+    store.add(newAlert('a2', { severity: 'critical' }));
+    store.subscribe(listener);
+
+    vi.advanceTimersByTime(1000);
+    expect(store.acknowledge('a1')).toMatchObject({ status: 'acknowledged', acknowledgedAt: Date.now() });
+    expect(store.dismiss('a2')).toMatchObject({ status: 'dismissed', dismissedAt: Date.now() });
+    store.acknowledge('a1');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[1][0].previousStatus).toBe('active');
+    expect(store.list().map(({ id }) => id)).toEqual(['a1']);
+    expect(store.list({ status: 'dismissed' }).map(({ id }) => id)).toEqual(['a2']);
+    expect(store.acknowledge('missing')).toBeUndefined();
+  });
+
+  it('should turn a snoozed alert active again when the time is up', () => {
+    const listener = vi.fn();
+    store.add(newAlert('a1'));
+    store.subscribe(listener);
+
+    store.snooze('a1', Date.now() + 60000);
+    expect(store.getUnreadCount()).toBe(0);
+
+    vi.advanceTimersByTime(60000);
+    expect(store.get('a1')).toMatchObject({ status: 'active', snoozedUntil: undefined });
+    expect(listener.mock.calls.map(([change]) => [change.previousStatus, change.alert.status])).toEqual([
+      ['active', 'snoozed'],
+      ['snoozed', 'active'],
+    ]);
+  });
+
+  it('should keep an alert snoozed for longer than setTimeout can wait', () => {
+    const day = 24 * 60 * 60000;
+    store.add(newAlert('a1'));
+    store.snooze('a1', Date.now() + 30 * day);
+
+    vi.advanceTimersByTime(25 * day);
+    expect(store.get('a1')?.status).toBe('snoozed');
+
+    vi.advanceTimersByTime(5 * day);
+    expect(store.get('a1')?.status).toBe('active');
+  });
+
+  it('should not wake an alert acknowledged while snoozed', () => {
+    store.add(newAlert('a1'));
+    store.snooze('a1', Date.now() + 60000);
+    store.acknowledge('a1');
+
+    vi.advanceTimersByTime(60000);
+    expect(store.get('a1')?.status).toBe('acknowledged');
+  });
+
+  it('should roll repeats of an unread alert into it', () => {
+    const listener = vi.fn();
+    store.add(newAlert('a1', { title: 'Rush' }));
+    store.subscribe(listener);
+
+    vi.advanceTimersByTime(10 * 60000);
+    const rolledUp = store.add(newAlert('a2', { title: 'Rush', message: 'Busier', severity: 'critical' }));
+
+    expect(rolledUp).toMatchObject({ id: 'a1', count: 2, message: 'Busier', severity: 'critical', lastOccurredAt: Date.now() });
+    expect(store.getAll()).toHaveLength(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ previousStatus: 'active' }));
+
+    store.acknowledge('a1');
+    expect(store.add(newAlert('a3', { title: 'Rush' })).id).toBe('a3');
+  });
+
+  it('should raise a new alert once the dedupe window has passed', () => {
+    store.setPolicy({ dedupeWindow: 60000 });
+    store.add(newAlert('a1', { ruleId: 'surge', title: 'Surge' }));
+
+    vi.advanceTimersByTime(30000);
+    expect(store.add(newAlert('a2', { ruleId: 'surge', title: 'Surge again' })).id).toBe('a1');
+    vi.advanceTimersByTime(61000);
+    expect(store.add(newAlert('a3', { ruleId: 'surge' })).id).toBe('a3');
+  });
+
+  it('should group related alerts into incidents', () => {
+    store.add(newAlert('a1', { title: 'Rush' }));
+    vi.advanceTimersByTime(20 * 60000);
+    store.add(newAlert('a2', { title: 'Slow tickets' }));
+    store.add(newAlert('r1', { category: 'reviews' }));
+    vi.advanceTimersByTime(31 * 60000);
+    store.add(newAlert('a3', { title: 'Low stock' }));
+
+    expect(store.get('a2')?.incidentId).toBe('incident-a1');
+    expect(store.getIncidents().map(({ id, alertIds }) => [id, alertIds])).toEqual([
+      ['incident-a3', ['a3']],
+      ['incident-r1', ['r1']],
+      ['incident-a1', ['a2', 'a1']],
+    ]);
+    expect(store.list({ incidentId: 'incident-a1' })).toHaveLength(2);
+  });
+
+  it('should escalate an unacknowledged warning and report it', () => {
+    const listener = vi.fn();
+    store.setPolicy({ escalateAfter: 5 * 60000 });
+    store.add(newAlert('a1'));
+    store.add(newAlert('a2'));
+    store.acknowledge('a2');
+    store.subscribe(listener);
+
+    vi.advanceTimersByTime(5 * 60000);
+
+    expect(store.get('a1')).toMatchObject({ severity: 'critical', escalatedFrom: 'warning', escalatedAt: Date.now() });
+    expect(store.get('a2')?.severity).toBe('warning');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toMatchObject({ previousStatus: 'active', previousSeverity: 'warning' });
+  });
+
+  it('should not escalate early when the policy waits longer than setTimeout can', () => {
+    const day = 24 * 60 * 60000;
+    store.setPolicy({ escalateAfter: 30 * day });
+    store.add(newAlert('a1'));
+
+    vi.advanceTimersByTime(25 * day);
+    expect(store.get('a1')?.severity).toBe('warning');
+
+    vi.advanceTimersByTime(5 * day);
+    expect(store.get('a1')?.severity).toBe('critical');
+  });
+
+  it('should hold escalation while snoozed and follow policy changes', () => {
+    store.add(newAlert('a1'));
+    store.snooze('a1', Date.now() + 20 * 60000);
+
+    vi.advanceTimersByTime(15 * 60000);
+    expect(store.get('a1')?.severity).toBe('warning');
+    // Overdue, so it escalates right after waking
+    vi.advanceTimersByTime(5 * 60000 + 1);
+    expect(store.get('a1')).toMatchObject({ status: 'active', severity: 'critical' });
+
+    store.setPolicy({ escalateAfter: null });
+    store.add(newAlert('a2'));
+    vi.advanceTimersByTime(60 * 60000);
+    expect(store.get('a2')?.severity).toBe('warning');
+  });
+
+  it('should reduce alerts to the snapshot shape', () => {
+    const alert = store.add(newAlert('a1'));
+
+    expect(toAlertState(alert)).toEqual({
+      id: 'a1',
+      title: 'Alert a1',
+      message: 'Details',
+      severity: 'warning',
+      unread: true,
+    });
+  });
+});
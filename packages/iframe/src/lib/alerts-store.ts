@@ -0,0 +1,252 @@
+import {
+  ALERT_SEVERITIES,
+  DEFAULT_ALERT_POLICY,
+  filterAlerts,
+  getAlertFingerprint,
+  getAlertTime,
+  groupIncidents,
+  isAlertUnread,
+} from '@company/pos-intelligence-protocol';
+import type {
+  Alert,
+  AlertFilter,
+  AlertPolicy,
+  AlertSeverity,
+  AlertState,
+  AlertStatus,
+  Incident,
+} from '@company/pos-intelligence-protocol';
+import { runAt } from './timers';
+
+/** What a feed supplies; the store fills in status, timestamps, rollups and incidents */
+export type NewAlert = Pick<Alert, 'id' | 'title' | 'message' | 'severity' | 'category' | 'source'> &
+  Partial<Pick<Alert, 'createdAt' | 'ruleId' | 'explanation' | 'fingerprint'>>;
+
+export interface AlertChange {
+  alert: Alert;
+  /** Absent when the alert is new */
+  previousStatus?: AlertStatus;
+  /** Set when the change escalated the alert */
+  previousSeverity?: AlertSeverity;
+}
+
+export type AlertListener = (change: AlertChange) => void;
+
+/**
+ * Drops the lifecycle fields for the snapshot and urgent actions, which only
+ * care whether an alert is unread.
+ */
+export function toAlertState({ id, title, message, severity, status }: Alert): AlertState {
+  return { id, title, message, severity, unread: isAlertUnread({ status }) };
+}
+
+const moreSevere = (a: AlertSeverity, b: AlertSeverity) =>
+  ALERT_SEVERITIES.indexOf(a) <= ALERT_SEVERITIES.indexOf(b) ? a : b;
+
+/**
+ * The alerts of one merchant location. The page renders from it, the RPC
+ * handlers change it, and listeners hear about every change so the host can
+ * be told. Repeats roll up into the unread alert they repeat, related alerts
+ * share an incident, snoozed alerts turn active again and active warnings
+ * escalate on their own, all as the location's {@link AlertPolicy} says.
+ */
+export class AlertsStore {
+  private alerts: Alert[] = [];
+  private listeners = new Set<AlertListener>();
+  private wakeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private escalationTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(
+    initial: Alert[] = [],
+    private now: () => number = Date.now,
+    private policy: AlertPolicy = DEFAULT_ALERT_POLICY
+  ) {
+    this.alerts = [...initial];
+    initial.forEach((alert) => {
+      this.scheduleWake(alert);
+      this.scheduleEscalation(alert);
+    });
+  }
+
+  getPolicy(): AlertPolicy {
+    return this.policy;
+  }
+
+  /** Applies to alerts already raised too, e.g. a shorter `escalateAfter` can escalate them at once */
+  setPolicy(changes: Partial<AlertPolicy>): AlertPolicy {
+    this.policy = { ...this.policy, ...changes };
+    this.alerts.forEach((alert) => this.scheduleEscalation(alert));
+    return this.policy;
+  }
+
+  /** Every alert, dismissed ones included, newest first. The same array until the next change. */
+  getAll(): readonly Alert[] {
+    return this.alerts;
+  }
+
+  list(filter?: AlertFilter): Alert[] {
+    return filterAlerts(this.alerts, filter);
+  }
+
+  get(alertId: string): Alert | undefined {
+    return this.alerts.find((alert) => alert.id === alertId);
+  }
+
+  getUnreadCount(): number {
+    return this.alerts.filter(isAlertUnread).length;
+  }
+
+  /** Open incidents, most recently active first */
+  getIncidents(): Incident[] {
+    return groupIncidents(filterAlerts(this.alerts));
+  }
+
+  /**
+   * Raises an alert, replacing any earlier one with the same id. A repeat of
+   * an unread alert within `dedupeWindow` is counted on that alert instead,
+   * which is returned.
+   */
+  add(input: NewAlert): Alert {
+    const previous = this.get(input.id);
+    const time = this.now();
+    const occurredAt = input.createdAt ?? time;
+    const fingerprint = getAlertFingerprint(input);
+
+    const repeated = previous ? undefined : this.findRepeated(fingerprint, occurredAt);
+    if (repeated) {
+      return this.update(repeated, {
+        title: input.title,
+        message: input.message,
+        explanation: input.explanation,
+        severity: moreSevere(repeated.severity, input.severity),
+        count: (repeated.count ?? 1) + 1,
+        lastOccurredAt: Math.max(occurredAt, getAlertTime(repeated)),
+      });
+    }
+
+    const alert: Alert = {
+      ...input,
+      fingerprint,
+      incidentId: previous?.incidentId ?? this.findIncident(input.category, occurredAt) ?? `incident-${input.id}`,
+      status: 'active',
+      createdAt: occurredAt,
+      updatedAt: time,
+    };
+
+    this.clearWake(alert.id);
+    this.alerts = [alert, ...this.alerts.filter((existing) => existing.id !== alert.id)];
+    this.scheduleEscalation(alert);
+    this.emit({ alert, previousStatus: previous?.status });
+    return alert;
+  }
+
+  acknowledge(alertId: string): Alert | undefined {
+    const alert = this.get(alertId);
+    if (!alert || alert.status === 'acknowledged') return alert;
+
+    return this.update(alert, { status: 'acknowledged', acknowledgedAt: this.now(), snoozedUntil: undefined });
+  }
+
+  snooze(alertId: string, until: number): Alert | undefined {
+    const alert = this.get(alertId);
+    if (!alert) return undefined;
+
+    return this.update(alert, { status: 'snoozed', snoozedUntil: until });
+  }
+
+  dismiss(alertId: string): Alert | undefined {
+    const alert = this.get(alertId);
+    if (!alert || alert.status === 'dismissed') return alert;
+
+    return this.update(alert, { status: 'dismissed', dismissedAt: this.now(), snoozedUntil: undefined });
+  }
+
+  subscribe(listener: AlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  destroy(): void {
+    this.wakeTimers.forEach((timer) => clearTimeout(timer));
+    this.wakeTimers.clear();
+    this.escalationTimers.forEach((timer) => clearTimeout(timer));
+    this.escalationTimers.clear();
+    this.listeners.clear();
+  }
+
+  private update(alert: Alert, changes: Partial<Alert>, previousSeverity?: AlertSeverity): Alert {
+    const updated: Alert = { ...alert, ...changes, updatedAt: this.now() };
+    this.alerts = this.alerts.map((existing) => (existing.id === alert.id ? updated : existing));
+    this.clearWake(alert.id);
+    this.scheduleWake(updated);
+    this.scheduleEscalation(updated);
+    this.emit({ alert: updated, previousStatus: alert.status, previousSeverity });
+    return updated;
+  }
+
+  // Acknowledged and dismissed alerts have been seen, so a repeat is news again
+  private findRepeated(fingerprint: string, occurredAt: number): Alert | undefined {
+    return this.alerts.find((alert) =>
+      (alert.status === 'active' || alert.status === 'snoozed') &&
+      getAlertFingerprint(alert) === fingerprint &&
+      occurredAt - getAlertTime(alert) <= this.policy.dedupeWindow
+    );
+  }
+
+  private findIncident(category: Alert['category'], occurredAt: number): string | undefined {
+    return this.alerts.find((alert) =>
+      alert.status !== 'dismissed' &&
+      alert.incidentId !== undefined &&
+      alert.category === category &&
+      occurredAt - getAlertTime(alert) <= this.policy.groupWindow
+    )?.incidentId;
+  }
+
+  private scheduleEscalation(alert: Alert): void {
+    clearTimeout(this.escalationTimers.get(alert.id));
+    this.escalationTimers.delete(alert.id);
+
+    const { escalateAfter } = this.policy;
+    if (escalateAfter === null || alert.status !== 'active' || alert.severity !== 'warning') return;
+
+    runAt(alert.createdAt + escalateAfter, () => {
+      this.escalationTimers.delete(alert.id);
+      const current = this.get(alert.id);
+      if (current?.status === 'active' && current.severity === 'warning') {
+        this.update(
+          current,
+          { severity: 'critical', escalatedAt: this.now(), escalatedFrom: current.severity },
+          current.severity
+        );
+      }
+    }, (timer) => {
+      this.escalationTimers.set(alert.id, timer);
+    }, this.now);
+  }
+
+  private scheduleWake(alert: Alert): void {
+    if (alert.status !== 'snoozed' || alert.snoozedUntil === undefined) return;
+
+    const until = alert.snoozedUntil;
+    runAt(until, () => {
+      this.wakeTimers.delete(alert.id);
+      const current = this.get(alert.id);
+      if (current?.status === 'snoozed' && current.snoozedUntil === until) {
+        this.update(current, { status: 'active', snoozedUntil: undefined });
+      }
+    }, (timer) => {
+      this.wakeTimers.set(alert.id, timer);
+    }, this.now);
+  }
+
+  private clearWake(alertId: string): void {
+    clearTimeout(this.wakeTimers.get(alertId));
+    this.wakeTimers.delete(alertId);
+  }
+
+  private emit(change: AlertChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Appearance } from './appearance';
+
+function mockColorScheme(dark: boolean) {
+  let listener: ((event: { matches: boolean }) => void) | undefined;
+  const query = {
+    matches: dark,
+    addEventListener: vi.fn((_type: string, handler: typeof listener) => {
+      listener = handler;
+    }),
+    removeEventListener: vi.fn(),
+  };
+  vi.spyOn(window, 'matchMedia').mockReturnValue(query as unknown as MediaQueryList);
+  return { query, change: (matches: boolean) => listener?.({ matches }) };
+}
+
+describe('Appearance', () => {
+  const root = document.createElement('div');
+  let appearance: Appearance;
+
+  afterEach(() => {
+    appearance.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should switch between light and dark without touching other classes', () => {
+    root.className = 'h-full';
+    appearance = new Appearance(root);
+
+    appearance.apply({ theme: 'dark' });
+    expect(root.classList.contains('dark')).toBe(true);
+    expect(root.classList.contains('h-full')).toBe(true);
+
+    appearance.apply({ theme: 'light' });
+    expect(root.classList.contains('dark')).toBe(false);
+  });
+
+  it('should follow the system color scheme in auto mode', () => {
+    const scheme = mockColorScheme(true);
+    appearance = new Appearance(root);
+
+    appearance.apply({ theme: 'auto' });
+    expect(root.classList.contains('dark')).toBe(true);
+
+    scheme.change(false);
+    expect(root.classList.contains('dark')).toBe(false);
+
+    appearance.apply({ theme: 'dark' });
+    expect(scheme.query.removeEventListener).toHaveBeenCalled();
+  });
+
+  it('should set the locale and replace custom properties', () => {
+    appearance = new Appearance(root);
+
+    appearance.apply({ locale: 'fr-CA', customStyles: { '--primary': '0 0% 0%', '--radius': '0' } });
+    expect(root.lang).toBe('fr-CA');
+    expect(root.style.getPropertyValue('--radius')).toBe('0');
+
+    appearance.apply({ customStyles: { '--primary': '10 50% 50%' } });
+    expect(root.style.getPropertyValue('--primary')).toBe('10 50% 50%');
+    expect(root.style.getPropertyValue('--radius')).toBe('');
+  });
+});
@@ -0,0 +1,67 @@
+import type { ConfigPayload, Theme } from '@company/pos-intelligence-protocol';
+
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Applies host-controlled theme, locale and custom properties to the
+ * document root, so config changes take effect without a reload.
+ */
+export class Appearance {
+  private appliedStyles: string[] = [];
+  private colorScheme?: MediaQueryList;
+
+  constructor(private root: HTMLElement = document.documentElement) {}
+
+  apply(config: ConfigPayload): void {
+    if (config.theme !== undefined) this.setTheme(config.theme);
+    if (config.locale !== undefined) this.root.lang = config.locale;
+    if (config.customStyles !== undefined) this.setCustomStyles(config.customStyles);
+  }
+
+  /**
+   * Stops following the system color scheme and removes custom properties.
+   */
+  destroy(): void {
+    this.stopFollowingSystem();
+    this.setCustomStyles({});
+  }
+
+  private setTheme(theme: Theme): void {
+    this.stopFollowingSystem();
+
+    if (theme !== 'auto') {
+      this.render(theme);
+      return;
+    }
+
+    if (typeof window.matchMedia !== 'function') {
+      this.render('light');
+      return;
+    }
+
+    this.colorScheme = window.matchMedia(DARK_SCHEME_QUERY);
+    this.colorScheme.addEventListener('change', this.handleSchemeChange);
+    this.render(this.colorScheme.matches ? 'dark' : 'light');
+  }
+
+  private handleSchemeChange = (event: MediaQueryListEvent): void => {
+    this.render(event.matches ? 'dark' : 'light');
+  };
+
+  private stopFollowingSystem(): void {
+    this.colorScheme?.removeEventListener('change', this.handleSchemeChange);
+    this.colorScheme = undefined;
+  }
+
+  private render(theme: 'light' | 'dark'): void {
+    this.root.classList.toggle('dark', theme === 'dark');
+    this.root.style.colorScheme = theme;
+  }
+
+  // Replaces the whole set so properties the host dropped fall back to the stylesheet
+  private setCustomStyles(styles: Record<string, string>): void {
+    this.appliedStyles.forEach((name) => this.root.style.removeProperty(name));
+    Object.entries(styles).forEach(([name, value]) => this.root.style.setProperty(name, value));
+    this.appliedStyles = Object.keys(styles);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AuthSession } from './auth-session';
+
+const DAY = 24 * 60 * 60000;
+
+function createJwt(claims: Record<string, unknown>) {
+  const encode = (value: unknown) => btoa(JSON.stringify(value)).replace(/=+$/, '');
+  return `${encode({ alg: 'HS256' })}.${encode(claims)}.signature`;
+}
+
+describe('AuthSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should keep the token in memory only', () => {
+    const session = new AuthSession();
+
+    session.setToken('opaque-token');
+
+    expect(session.getToken()).toBe('opaque-token');
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should read expiry and merchant from JWT claims', () => {
+    const session = new AuthSession();
+    const exp = Math.floor(Date.now() / 1000) + 3600;
+
+    const info = session.setToken(createJwt({ exp, merchant_id: 'bellas-bistro' }));
+
+    expect(info).toEqual({ expiresAt: exp * 1000, merchantId: 'bellas-bistro' });
+  });
+
+  it('should request a refresh before expiry and wipe the token at expiry', () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const session = new AuthSession({ refreshLeadMs: 60000, onExpiring, onExpired });
+    const expiresAt = Date.now() + 5 * 60000;
+
+    session.setToken('token', { expiresAt });
+    vi.advanceTimersByTime(4 * 60000);
+    expect(onExpiring).toHaveBeenCalledWith(expiresAt);
+    expect(session.getToken()).toBe('token');
+
+    vi.advanceTimersByTime(60000);
+    expect(onExpired).toHaveBeenCalled();
+    expect(session.getToken()).toBeUndefined();
+  });
+
+  it('should keep tokens that expire beyond the longest timer delay until they do', () => {
+    const onExpiring = vi.fn();
+    const onExpired = vi.fn();
+    const session = new AuthSession({ refreshLeadMs: 60000, onExpiring, onExpired });
+    const expiresAt = Date.now() + 60 * DAY;
+
+    session.setToken('token', { expiresAt });
+    vi.advanceTimersByTime(30 * DAY);
+    expect(onExpiring).not.toHaveBeenCalled();
+    expect(onExpired).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30 * DAY - 60000);
+    expect(onExpiring).toHaveBeenCalledWith(expiresAt);
+    expect(onExpired).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(60000);
+    expect(onExpired).toHaveBeenCalledTimes(1);
+    expect(session.getToken()).toBeUndefined();
+  });
+
+  it('should reject tokens that have already expired', () => {
+    const session = new AuthSession();
+
+    expect(() => session.setToken('token', { expiresAt: Date.now() - 1 })).toThrow('Token has already expired');
+  });
+
+  it('should wipe the token when a different merchant becomes active', () => {
+    const session = new AuthSession();
+    session.setToken('token', { merchantId: 'bellas-bistro' });
+
+    expect(session.switchMerchant('bellas-bistro')).toBe(false);
+    expect(session.getToken()).toBe('token');
+
+    expect(session.switchMerchant('green-leaf')).toBe(true);
+    expect(session.getToken()).toBeUndefined();
+  });
+
+  it('should bind an unscoped token to the first merchant applied', () => {
+    const session = new AuthSession();
+    session.setToken('opaque-token');
+
+    expect(session.switchMerchant('bellas-bistro')).toBe(false);
+    expect(session.getInfo().merchantId).toBe('bellas-bistro');
+    expect(session.switchMerchant('green-leaf')).toBe(true);
+  });
+});
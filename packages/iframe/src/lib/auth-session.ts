@@ -0,0 +1,131 @@
+import { runAt } from './timers';
+
+const DEFAULT_REFRESH_LEAD_MS = 60000;
+
+export interface AuthSessionOptions {
+  /** How long before expiry to ask the host for a new token */
+  refreshLeadMs?: number;
+  onExpiring?: (expiresAt: number) => void;
+  onExpired?: () => void;
+}
+
+export interface AuthSessionInfo {
+  expiresAt?: number;
+  merchantId?: string;
+}
+
+interface TokenClaims {
+  exp?: number;
+  sub?: string;
+  merchant_id?: string;
+}
+
+// Reads claims without verifying them; the API verifies the signature
+function decodeClaims(token: string): TokenClaims {
+  const [, payload] = token.split('.');
+  if (!payload) return {};
+
+  try {
+    const normalized = payload.replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=')));
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Keeps the merchant bearer token in memory only, so it never outlives the
+ * iframe or leaks to the next merchant on a shared terminal.
+ */
+export class AuthSession {
+  private token?: string;
+  private info: AuthSessionInfo = {};
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private expiryTimer?: ReturnType<typeof setTimeout>;
+  private refreshLeadMs: number;
+
+  constructor(private options: AuthSessionOptions = {}) {
+    this.refreshLeadMs = options.refreshLeadMs ?? DEFAULT_REFRESH_LEAD_MS;
+  }
+
+  /**
+   * Stores a token. Expiry and merchant default to the JWT `exp` and
+   * `merchant_id`/`sub` claims when not given explicitly.
+   */
+  setToken(token: string, info: AuthSessionInfo = {}): AuthSessionInfo {
+    const claims = decodeClaims(token);
+    const expiresAt = info.expiresAt ?? (claims.exp ? claims.exp * 1000 : undefined);
+    const merchantId = info.merchantId ?? claims.merchant_id ?? claims.sub;
+
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      throw new Error('Token has already expired');
+    }
+
+    // A token for another merchant replaces everything tied to the previous one
+    this.clear();
+    this.token = token;
+    this.info = { expiresAt, merchantId };
+    this.scheduleExpiry();
+
+    return this.info;
+  }
+
+  getToken(): string | undefined {
+    if (this.info.expiresAt !== undefined && this.info.expiresAt <= Date.now()) {
+      this.expire();
+      return undefined;
+    }
+    return this.token;
+  }
+
+  getInfo(): AuthSessionInfo {
+    return { ...this.info };
+  }
+
+  isAuthenticated(): boolean {
+    return this.getToken() !== undefined;
+  }
+
+  /**
+   * Clears the session when the active merchant changes to a different one.
+   * A token not yet tied to a merchant is bound to the first one applied.
+   * Returns true when the token was wiped.
+   */
+  switchMerchant(merchantId: string): boolean {
+    if (!this.token || this.info.merchantId === merchantId) return false;
+
+    if (this.info.merchantId === undefined) {
+      this.info.merchantId = merchantId;
+      return false;
+    }
+
+    this.clear();
+    return true;
+  }
+
+  clear(): void {
+    clearTimeout(this.refreshTimer);
+    clearTimeout(this.expiryTimer);
+    this.refreshTimer = undefined;
+    this.expiryTimer = undefined;
+    this.token = undefined;
+    this.info = {};
+  }
+
+  private scheduleExpiry(): void {
+    const { expiresAt } = this.info;
+    if (expiresAt === undefined) return;
+
+    runAt(expiresAt - this.refreshLeadMs, () => this.options.onExpiring?.(expiresAt), (timer) => {
+      this.refreshTimer = timer;
+    });
+    runAt(expiresAt, () => this.expire(), (timer) => {
+      this.expiryTimer = timer;
+    });
+  }
+
+  private expire(): void {
+    this.clear();
+    this.options.onExpired?.();
+  }
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  MessageType,
+  RpcMethod,
+  SUPPORTED_CAPABILITIES,
+  SUPPORTED_PROTOCOL,
+  SecureChannel,
+  createEnvelope,
+} from '@company/pos-intelligence-protocol';
+import { CommunicationManager, communication } from './communication';
+
+const HOST_ORIGIN = 'https://shop.pos-domain.com';
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+function dispatch(data: unknown, origin = HOST_ORIGIN, source: Window = window.parent) {
+  window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+}
+
+describe('CommunicationManager', () => {
+  const parentPostMessage = window.parent.postMessage as ReturnType<typeof vi.fn>;
+  let manager: CommunicationManager;
+
+  // The app-wide singleton would otherwise answer the same handshakes
+  beforeAll(() => {
+    communication.destroy();
+  });
+
+  beforeEach(() => {
+    parentPostMessage.mockClear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    vi.restoreAllMocks();
+  });
+
+  async function handshake(manager: CommunicationManager, origin = HOST_ORIGIN) {
+    const host = new SecureChannel();
+    const publicKey = await host.createPublicKey();
+    dispatch(createEnvelope(MessageType.HANDSHAKE, {
+      apiKey: 'pk_test_123',
+      features: { alerts: true },
+      protocol: SUPPORTED_PROTOCOL,
+      capabilities: SUPPORTED_CAPABILITIES,
+      publicKey,
+      channel: 'ch_test',
+    }), origin);
+    await settle();
+    return { host, manager };
+  }
+
+  // Completes the handshake and returns the host side of the signed session
+  async function connect(manager: CommunicationManager) {
+    const { host } = await handshake(manager);
+    await vi.waitFor(() => expect(parentPostMessage).toHaveBeenCalled());
+    const [ready] = parentPostMessage.mock.calls[0];
+    await host.establish(ready.payload.publicKey);
+    await host.open(ready);
+    return host;
+  }
+
+  it('should reject every message type before the handshake', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const onViolation = vi.fn();
+    manager.onSecurityViolation(onViolation);
+
+    dispatch(createEnvelope(MessageType.CONFIG, { theme: 'dark' }));
+    await settle();
+
+    expect(onViolation).toHaveBeenCalledWith(expect.objectContaining({ reason: 'NO_SESSION', type: 'CONFIG' }));
+    expect(document.documentElement.className).not.toBe('dark');
+  });
+
+  it('should ignore handshakes from origins outside the allow-list', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const onViolation = vi.fn();
+    manager.onSecurityViolation(onViolation);
+
+    await handshake(manager, 'https://evil.example');
+
+    expect(onViolation).toHaveBeenCalledWith(
+      expect.objectContaining({ reason: 'UNTRUSTED_ORIGIN', origin: 'https://evil.example' })
+    );
+    expect(parentPostMessage).not.toHaveBeenCalled();
+    expect(manager.getProtocolVersion()).toBeUndefined();
+  });
+
+  it('should ignore handshakes from windows other than the embedding page', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const onViolation = vi.fn();
+    manager.onSecurityViolation(onViolation);
+    const popup = { postMessage: vi.fn() } as unknown as Window;
+
+    dispatch(createEnvelope(MessageType.HANDSHAKE, { protocol: SUPPORTED_PROTOCOL }), HOST_ORIGIN, popup);
+    await settle();
+
+    expect(onViolation).toHaveBeenCalledWith(expect.objectContaining({ reason: 'UNTRUSTED_SOURCE', origin: HOST_ORIGIN }));
+    expect(parentPostMessage).not.toHaveBeenCalled();
+  });
+
+  it('should answer an allowed handshake with a signed READY to that origin only', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const { host } = await handshake(manager);
+
+    await vi.waitFor(() => expect(parentPostMessage).toHaveBeenCalled());
+    const [ready, targetOrigin] = parentPostMessage.mock.calls[0];
+    expect(ready.type).toBe(MessageType.READY);
+    expect(ready.channel).toBe('ch_test');
+    expect(targetOrigin).toBe(HOST_ORIGIN);
+
+    await host.establish(ready.payload.publicKey);
+    await expect(host.open(ready)).resolves.toEqual({ ok: true });
+  });
+
+  it('should switch merchant context over RPC and drop the previous merchant token', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const host = await connect(manager);
+
+    const onContext = vi.fn();
+    manager.onMerchantContextChange(onContext);
+    const call = async (method: string, params: unknown) => {
+      const request = createEnvelope(MessageType.RPC_REQUEST, { method, params });
+      dispatch(await host.seal(request));
+      await vi.waitFor(() => expect(parentPostMessage.mock.calls.some(([message]) =>
+        message.type === MessageType.RPC_RESPONSE && message.payload.requestId === request.id
+      )).toBe(true));
+    };
+
+    await call(RpcMethod.SET_MERCHANT_CONTEXT, { merchantId: 'bellas-bistro', locationId: 'downtown' });
+    await call(RpcMethod.AUTHENTICATE, { token: 'merchant-token' });
+    expect(manager.getAuthToken()).toBe('merchant-token');
+    expect(manager.getMerchantContextKey()).toBe('bellas-bistro/downtown');
+
+    await call(RpcMethod.SET_MERCHANT_CONTEXT, { merchantId: 'bellas-bistro', locationId: 'uptown' });
+    expect(manager.getAuthToken()).toBe('merchant-token');
+
+    await call(RpcMethod.SET_MERCHANT_CONTEXT, { merchantId: 'green-leaf' });
+    expect(manager.getAuthToken()).toBeUndefined();
+    expect(onContext).toHaveBeenCalledTimes(3);
+    expect(onContext).toHaveBeenLastCalledWith({ merchantId: 'green-leaf' });
+  });
+
+  it('should apply CONFIG diffs live and keep unchanged settings', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const host = await connect(manager);
+    const onConfig = vi.fn();
+    manager.onConfigChange(onConfig);
+
+    dispatch(await host.seal(createEnvelope(MessageType.CONFIG, { theme: 'dark', locale: 'de-DE' })));
+    dispatch(await host.seal(createEnvelope(MessageType.CONFIG, { features: { alerts: false } })));
+    await vi.waitFor(() => expect(onConfig).toHaveBeenCalledTimes(2));
+
+    expect(manager.getConfig()).toEqual({ theme: 'dark', locale: 'de-DE', features: { alerts: false } });
+    expect(onConfig).toHaveBeenLastCalledWith(manager.getConfig(), { features: { alerts: false } });
+    expect(document.documentElement.classList.contains('dark')).toBe(true);
+    expect(document.documentElement.lang).toBe('de-DE');
+
+    dispatch(await host.seal(createEnvelope(MessageType.CONFIG, { theme: 'neon' })));
+    await vi.waitFor(() => expect(parentPostMessage.mock.calls.some(([message]) =>
+      message.type === MessageType.ERROR && message.payload.code === 'INVALID_CONFIG'
+    )).toBe(true));
+    expect(manager.getConfig().theme).toBe('dark');
+  });
+
+  it('should answer heartbeat pings with a signed pong', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    const host = await connect(manager);
+
+    const ping = await host.seal(createEnvelope(MessageType.PING));
+    dispatch(ping);
+    await vi.waitFor(() => expect(parentPostMessage).toHaveBeenCalledTimes(2));
+
+    const [pong] = parentPostMessage.mock.calls[1];
+    expect(pong).toMatchObject({ type: MessageType.PONG, payload: { pingId: ping.id }, channel: 'ch_test' });
+    await expect(host.open(pong)).resolves.toEqual({ ok: true });
+  });
+
+  it('should send the last measured size once the host connects', async () => {
+    manager = new CommunicationManager({ allowedOrigins: ['https://*.pos-domain.com'] });
+    manager.reportSize({ height: 480, width: 640 });
+    expect(parentPostMessage).not.toHaveBeenCalled();
+
+    await connect(manager);
+    await vi.waitFor(() => expect(parentPostMessage).toHaveBeenCalledTimes(2));
+    const [resize] = parentPostMessage.mock.calls[1];
+    expect(resize).toMatchObject({ type: MessageType.RESIZE, payload: { height: 480, width: 640 } });
+  });
+});
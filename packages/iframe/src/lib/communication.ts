@@ -1,24 +1,85 @@
-export interface Message {
-  type: string;
-  subtype?: string;
-  action?: string;
-  payload?: any;
-  timestamp: number;
-  id: string;
-  sequence?: number;
-  signature?: string;
+import {
+  MessageType,
+  RpcEndpoint,
+  RpcError,
+  RpcMethod,
+  SUPPORTED_CAPABILITIES,
+  SUPPORTED_PROTOCOL,
+  SecureChannel,
+  createMessageId,
+  getMerchantContextKey,
+  isEnvelope,
+  isProtocolRange,
+  negotiateCapabilities,
+  negotiateVersion,
+  validateConfig,
+  validateMerchantContext,
+} from '@company/pos-intelligence-protocol';
+import type {
+  AuthenticateParams,
+  AuthenticateResult,
+  Capability,
+  ConfigPayload,
+  Envelope,
+  FeatureFlags,
+  HandshakePayload,
+  MerchantContext,
+  ResizePayload,
+  RpcCallOptions,
+  RpcHandler,
+  SecurityViolation,
+} from '@company/pos-intelligence-protocol';
+import { Appearance } from './appearance';
+import { AuthSession } from './auth-session';
+import { getAllowedOrigins, isOriginAllowed } from './origins';
+
+export type Message = Envelope;
+
+export interface CommunicationOptions {
+  /** CSP-style parent origins allowed to open a session */
+  allowedOrigins?: string[];
 }
 
 export class CommunicationManager {
-  private origin: string = '*'; // Will be set from handshake
-  private sequence: number = 0;
+  private origin?: string; // Set once an allowed parent completes the handshake
+  private channelId?: string; // Host widget instance, stamped on every outgoing message
+  private allowedOrigins: string[];
   private apiKey?: string;
-  private features?: Record<string, boolean>;
+  private features?: FeatureFlags;
+  private protocolVersion?: number;
+  private capabilities: Capability[] = [];
   private handlers: Map<string, (message: Message) => void> = new Map();
+  private rpc = new RpcEndpoint((message) => this.post(message));
+  private channel = new SecureChannel();
+  private inbound: Promise<void> = Promise.resolve();
+  private securityListeners: Set<(violation: SecurityViolation) => void> = new Set();
+  private merchantContext?: MerchantContext;
+  private contextListeners: Set<(context?: MerchantContext) => void> = new Set();
+  private config: ConfigPayload = {};
+  private configListeners: Set<(config: ConfigPayload, changes: ConfigPayload) => void> = new Set();
+  private appearance = new Appearance();
+  private contentSize?: ResizePayload;
+  private auth = new AuthSession({
+    onExpiring: (expiresAt) => {
+      this.sendMessage({ type: MessageType.TOKEN_EXPIRING, payload: { expiresAt } });
+    },
+    onExpired: () => {
+      this.sendMessage({
+        type: MessageType.ERROR,
+        payload: { code: 'TOKEN_EXPIRED', message: 'Merchant token expired before it was refreshed' },
+      });
+    },
+  });
+
+  constructor(options: CommunicationOptions = {}) {
+    this.allowedOrigins = options.allowedOrigins ?? getAllowedOrigins();
+
+    this.rpc.register(RpcMethod.AUTHENTICATE, (params) => this.handleAuthenticate(params ?? {}));
+    this.rpc.register(RpcMethod.SET_MERCHANT_CONTEXT, (params) => this.handleMerchantContext(params));
 
-  constructor() {
     // Only set up message listener on client side
     if (typeof window !== 'undefined') {
+      this.purgeLegacyToken();
       this.setupMessageListener();
     }
   }
@@ -26,77 +87,257 @@ export class CommunicationManager {
   private setupMessageListener() {
     if (typeof window === 'undefined') return;
     
-    window.addEventListener('message', (event: MessageEvent) => {
-      // Validate message structure
-      if (!event.data || typeof event.data !== 'object') return;
-
-      const message = event.data as Message;
-      
-      // Handle different message types
-      switch (message.type) {
-        case 'HANDSHAKE':
-          this.handleHandshake(event.origin, message);
-          break;
-        case 'CONFIG':
-          this.handleConfig(message);
-          break;
-        case 'AUTH':
-          this.handleAuth(message);
-          break;
-        default:
-          // Call registered handlers
-          const handler = this.handlers.get(message.type);
-          if (handler) {
-            handler(message);
-          }
-      }
+    window.addEventListener('message', this.handleMessageEvent);
+  }
+
+  // Earlier builds persisted the bearer token; remove it from shared terminals
+  private purgeLegacyToken() {
+    try {
+      window.localStorage?.removeItem('auth_token');
+    } catch {
+      // Storage can be blocked in third-party iframes
+    }
+  }
+
+  private handleMessageEvent = (event: MessageEvent) => {
+    // Validate message structure; other scripts (e.g. devtools) post non-envelopes
+    if (!isEnvelope(event.data)) return;
+
+    const message = event.data;
+    this.inbound = this.inbound.then(() => this.receive(event.origin, event.source, message)).catch((error) => {
+      console.error('Failed to handle host message:', error);
     });
+  };
+
+  // Runs one message at a time so signature checks never reorder the stream
+  private async receive(origin: string, source: MessageEventSource | null, message: Message) {
+    // Only the embedding page talks to the widget; another window on an allowed origin is not it
+    if (source !== window.parent) {
+      this.reportViolation({ reason: 'UNTRUSTED_SOURCE', type: message.type, id: message.id, origin });
+      return;
+    }
+
+    if (message.type === MessageType.HANDSHAKE) {
+      if (!isOriginAllowed(origin, this.allowedOrigins, window.location.origin)) {
+        this.reportViolation({ reason: 'UNTRUSTED_ORIGIN', type: message.type, id: message.id, origin });
+        return;
+      }
+
+      // A live session can only be renegotiated by the window that opened it
+      if (this.channel.isEstablished() && origin !== this.origin) {
+        this.reportViolation({ reason: 'UNTRUSTED_ORIGIN', type: message.type, id: message.id, origin });
+        return;
+      }
+      await this.handleHandshake(origin, message);
+      return;
+    }
+
+    // Nothing but HANDSHAKE is processed until a session exists
+    if (!this.channel.isEstablished()) {
+      this.reportViolation({ reason: 'NO_SESSION', type: message.type, id: message.id, origin });
+      return;
+    }
+
+    if (origin !== this.origin) {
+      this.reportViolation({ reason: 'UNTRUSTED_ORIGIN', type: message.type, id: message.id, origin });
+      return;
+    }
+
+    const check = await this.channel.open(message);
+    if (!check.ok) {
+      this.reportViolation({ reason: check.reason, type: message.type, id: message.id, origin });
+      return;
+    }
+
+    this.dispatch(message);
+  }
+
+  private dispatch(message: Message) {
+    // Request/response traffic is matched by id inside the RPC layer
+    if (this.rpc.handleMessage(message)) return;
+
+    // Handle different message types
+    switch (message.type) {
+      case MessageType.CONFIG:
+        this.handleConfig(message);
+        break;
+      case MessageType.PING:
+        this.sendMessage({ type: MessageType.PONG, payload: { pingId: message.id } });
+        break;
+      default:
+        // Call registered handlers
+        const handler = this.handlers.get(message.type);
+        if (handler) {
+          handler(message);
+        }
+    }
   }
 
-  private handleHandshake(origin: string, message: Message) {
+  private reportViolation(violation: SecurityViolation) {
+    console.warn('Rejected postMessage:', violation);
+    this.securityListeners.forEach((listener) => listener(violation));
+
+    // Let the host audit drops too, over the authenticated channel only
+    if (this.channel.isEstablished()) {
+      this.sendMessage({ type: MessageType.SECURITY_VIOLATION, payload: violation });
+    }
+  }
+
+  private async handleHandshake(origin: string, message: Message) {
     this.origin = origin;
-    this.apiKey = message.payload?.apiKey;
-    this.features = message.payload?.features;
+    this.channel.reset();
+    const handshake = message.payload as Partial<HandshakePayload> | undefined;
+    this.channelId = typeof handshake?.channel === 'string' ? handshake.channel : undefined;
+
+    if (!isProtocolRange(handshake?.protocol)) {
+      this.sendMessage({
+        type: MessageType.ERROR,
+        payload: {
+          code: 'PROTOCOL_MISMATCH',
+          message: 'Handshake did not declare a supported protocol range',
+          data: { supported: SUPPORTED_PROTOCOL },
+        },
+      });
+      return;
+    }
+
+    try {
+      this.protocolVersion = negotiateVersion(SUPPORTED_PROTOCOL, handshake.protocol);
+    } catch (error) {
+      this.sendMessage({
+        type: MessageType.ERROR,
+        payload: {
+          code: 'PROTOCOL_MISMATCH',
+          message: (error as Error).message,
+          data: { supported: SUPPORTED_PROTOCOL },
+        },
+      });
+      return;
+    }
+
+    if (!handshake.publicKey) {
+      this.sendMessage({
+        type: MessageType.ERROR,
+        payload: { code: 'HANDSHAKE_INVALID', message: 'Handshake did not include a public key' },
+      });
+      return;
+    }
+
+    // Derive the session signing key; READY is the first signed message
+    const publicKey = await this.channel.createPublicKey();
+    await this.channel.establish(handshake.publicKey);
+
+    this.apiKey = handshake.apiKey;
+    this.features = handshake.features;
+    this.capabilities = negotiateCapabilities(SUPPORTED_CAPABILITIES, handshake.capabilities ?? []);
 
     // Send ready message back
     this.sendMessage({
-      type: 'READY',
+      type: MessageType.READY,
       payload: {
-        version: '1.0.0',
+        protocolVersion: this.protocolVersion,
+        capabilities: this.capabilities,
         features: this.features,
+        publicKey,
       },
     });
+
+    // The first measurement usually lands before the host has connected
+    if (this.contentSize) {
+      this.reportSize(this.contentSize);
+    }
   }
 
+  // Applies a CONFIG diff live; keys the host did not send keep their current value
   private handleConfig(message: Message) {
-    // Handle configuration updates
-    if (message.payload?.theme) {
-      document.documentElement.className = message.payload.theme;
+    const error = validateConfig(message.payload);
+    if (error) {
+      this.sendMessage({ type: MessageType.ERROR, payload: { code: 'INVALID_CONFIG', message: error } });
+      return;
+    }
+
+    const changes = message.payload as ConfigPayload;
+    if (changes.features) {
+      this.features = { ...this.features, ...changes.features };
     }
+    this.config = { ...this.config, ...changes, features: this.features };
+    this.appearance.apply(changes);
+    this.configListeners.forEach((listener) => listener(this.config, changes));
   }
 
-  private handleAuth(message: Message) {
-    // Handle authentication
-    const token = message.payload?.token;
-    if (token) {
-      // Store token for API calls
-      localStorage.setItem('auth_token', token);
+  private handleAuthenticate({ token, merchantId }: Partial<AuthenticateParams>): AuthenticateResult {
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new RpcError('INVALID_TOKEN', 'A non-empty token is required');
     }
+
+    try {
+      return this.auth.setToken(token, { merchantId: merchantId ?? this.merchantContext?.merchantId });
+    } catch (error) {
+      throw new RpcError('TOKEN_EXPIRED', (error as Error).message);
+    }
+  }
+
+  private handleMerchantContext(context: MerchantContext): MerchantContext {
+    const error = validateMerchantContext(context);
+    if (error) {
+      throw new RpcError('INVALID_CONTEXT', error);
+    }
+
+    // Switching merchants must not carry the previous merchant's token over
+    this.auth.switchMerchant(context.merchantId);
+    this.merchantContext = { ...context };
+    this.contextListeners.forEach((listener) => listener(this.merchantContext));
+
+    return this.merchantContext;
   }
 
   public sendMessage(message: Omit<Message, 'timestamp' | 'id' | 'sequence'>) {
-    if (typeof window === 'undefined') return;
+    this.post({ ...message, id: createMessageId() });
+  }
+
+  private post(message: Omit<Message, 'timestamp' | 'sequence'>) {
+    if (typeof window === 'undefined' || window.parent === window) return;
+
+    // Never broadcast to '*': without a verified parent there is nobody to talk to
+    const origin = this.origin;
+    if (!origin) return;
     
     const fullMessage: Message = {
       ...message,
       timestamp: Date.now(),
-      id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      sequence: this.sequence++,
     };
+    if (this.channelId) {
+      fullMessage.channel = this.channelId;
+    }
 
-    if (window.parent !== window) {
-      window.parent.postMessage(fullMessage, this.origin);
+    // Handshake errors go out unsigned; everything after the key exchange is sealed
+    if (!this.channel.isEstablished()) {
+      window.parent.postMessage(fullMessage, origin);
+      return;
     }
+
+    this.channel
+      .seal(fullMessage)
+      .then((sealed) => window.parent.postMessage(sealed, origin))
+      .catch((error) => console.error('Failed to sign message:', error));
+  }
+
+  /**
+   * Tells the host how tall the content is so it can size the iframe. Sent
+   * only when the host negotiated the `resize` capability.
+   */
+  public reportSize(size: ResizePayload) {
+    this.contentSize = size;
+    if (!this.channel.isEstablished() || !this.hasCapability('resize')) return;
+
+    this.sendMessage({ type: MessageType.RESIZE, payload: size });
+  }
+
+  public onSecurityViolation(listener: (violation: SecurityViolation) => void) {
+    this.securityListeners.add(listener);
+    return () => {
+      this.securityListeners.delete(listener);
+    };
   }
 
   public on(type: string, handler: (message: Message) => void) {
@@ -107,10 +348,80 @@ export class CommunicationManager {
     this.handlers.delete(type);
   }
 
+  public call<T = unknown>(method: string, params?: unknown, options?: RpcCallOptions): Promise<T> {
+    return this.rpc.call<T>(method, params, options);
+  }
+
+  public handle(method: string, handler: RpcHandler) {
+    return this.rpc.register(method, handler);
+  }
+
+  /**
+   * Stops listening and forgets the session. Used when the app unmounts.
+   */
+  public destroy() {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('message', this.handleMessageEvent);
+    }
+    this.rpc.cancelAll('CANCELLED', 'Communication channel closed');
+    this.channel.reset();
+    this.auth.clear();
+    this.merchantContext = undefined;
+    this.config = {};
+    this.contentSize = undefined;
+    this.appearance.destroy();
+    this.origin = undefined;
+    this.channelId = undefined;
+  }
+
+  public getMerchantContext() {
+    return this.merchantContext;
+  }
+
+  /**
+   * Key under which per-location state is kept; changes with the merchant context.
+   */
+  public getMerchantContextKey() {
+    return getMerchantContextKey(this.merchantContext);
+  }
+
+  public onMerchantContextChange(listener: (context?: MerchantContext) => void) {
+    this.contextListeners.add(listener);
+    return () => {
+      this.contextListeners.delete(listener);
+    };
+  }
+
+  public getConfig() {
+    return this.config;
+  }
+
+  public onConfigChange(listener: (config: ConfigPayload, changes: ConfigPayload) => void) {
+    this.configListeners.add(listener);
+    return () => {
+      this.configListeners.delete(listener);
+    };
+  }
+
   public getFeatures() {
     return this.features || {};
   }
 
+  public getProtocolVersion() {
+    return this.protocolVersion;
+  }
+
+  public hasCapability(capability: Capability) {
+    return this.capabilities.includes(capability);
+  }
+
+  /**
+   * Current merchant bearer token, or undefined when signed out or expired.
+   */
+  public getAuthToken() {
+    return this.auth.getToken();
+  }
+
   public getApiKey() {
     return this.apiKey;
   }
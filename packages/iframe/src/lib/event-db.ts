@@ -0,0 +1,81 @@
+import type { PosEvent } from '@company/pos-intelligence-protocol';
+import { getEventKey } from './event-store';
+import type { EventStorage } from './event-store';
+
+const DB_NAME = 'pos-intelligence-events';
+const DB_VERSION = 1;
+const STORE_NAME = 'events';
+
+interface EventRecord {
+  key: string;
+  context: string;
+  event: PosEvent;
+  timestamp: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const store = req.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex('context', 'context');
+    store.createIndex('age', ['context', 'timestamp']);
+  };
+  return request(req);
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Keeps one merchant location's events in IndexedDB, keyed by its context
+ * key so locations never see each other's data.
+ */
+export function createIndexedDBEventStorage(context: string): EventStorage {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const transaction = async (mode: IDBTransactionMode) => {
+    database ??= openDatabase();
+    const db = await database;
+    return db.transaction(STORE_NAME, mode);
+  };
+
+  return {
+    async load() {
+      const store = (await transaction('readonly')).objectStore(STORE_NAME);
+      const records: EventRecord[] = await request(store.index('context').getAll(context));
+      return records.map((record) => record.event);
+    },
+    async save(events) {
+      const tx = await transaction('readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      events.forEach((event) => {
+        const record: EventRecord = { key: `${context}|${getEventKey(event)}`, context, event, timestamp: event.timestamp };
+        store.put(record);
+      });
+      await completion(tx);
+    },
+    async prune(timestamp) {
+      const tx = await transaction('readwrite');
+      const range = IDBKeyRange.bound([context, -Infinity], [context, timestamp], false, true);
+      const keys = await request(tx.objectStore(STORE_NAME).index('age').getAllKeys(range));
+      keys.forEach((key) => tx.objectStore(STORE_NAME).delete(key));
+      await completion(tx);
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { PosEvent } from '@company/pos-intelligence-protocol';
+import { EventStore } from './event-store';
+import type { EventStorage } from './event-store';
+
+const DAY = 24 * 60 * 60000;
+const now = Date.UTC(2024, 5, 1, 9);
+
+const order = (id: string, timestamp: number, total = 20): PosEvent => ({ kind: 'order', id, total, timestamp });
+
+function createStorage(initial: PosEvent[] = []) {
+  let stored = [...initial];
+  const storage: EventStorage = {
+    load: vi.fn(async () => stored),
+    save: vi.fn(async (events: PosEvent[]) => {
+      stored = [...stored.filter((existing) => !events.some((event) => event.id === existing.id)), ...events];
+    }),
+    prune: vi.fn(async (timestamp: number) => {
+      stored = stored.filter((event) => event.timestamp >= timestamp);
+    }),
+  };
+  return { storage, stored: () => stored };
+}
+
+describe('EventStore', () => {
+  it('should keep events oldest first and report only new ones', () => {
+    const store = new EventStore({ now: () => now });
+
+    expect(store.add([order('o2', now), order('o1', now - 1000)])).toHaveLength(2);
+    const added = store.add([order('o2', now, 35), order('o3', now - 500)]);
+
+    expect(added.map((event) => event.id)).toEqual(['o3']);
+    expect(store.getAll().map((event) => event.id)).toEqual(['o1', 'o3', 'o2']);
+    expect(store.getAll()[2]).toMatchObject({ total: 35 });
+  });
+
+  it('should keep events of different kinds with the same id apart', () => {
+    const store = new EventStore({ now: () => now });
+
+    store.add([order('1', now), { kind: 'review', id: '1', rating: 5, timestamp: now }]);
+
+    expect(store.size).toBe(2);
+  });
+
+  it('should let events age out after the retention period', () => {
+    let time = now;
+    const store = new EventStore({ retention: 7 * DAY, now: () => time });
+
+    expect(store.add([order('old', now - 8 * DAY), order('o1', now - 6 * DAY)])).toHaveLength(1);
+    time += 2 * DAY;
+    store.add([order('o2', time)]);
+
+    expect(store.getAll().map((event) => event.id)).toEqual(['o2']);
+  });
+
+  it('should persist events and restore them on the next page', async () => {
+    const { storage, stored } = createStorage();
+    const first = new EventStore({ storage, now: () => now });
+    first.add([order('o1', now - 1000), order('o2', now)]);
+    await vi.waitFor(() => expect(stored()).toHaveLength(2));
+
+    const second = new EventStore({ storage, now: () => now });
+    second.add([order('o2', now, 50)]);
+    await second.restore();
+
+    expect(second.getAll()).toEqual([order('o1', now - 1000), order('o2', now, 50)]);
+    expect(storage.prune).toHaveBeenCalledWith(now - 30 * DAY);
+  });
+
+  it('should report storage failures and keep working in memory', async () => {
+    const onStorageError = vi.fn();
+    const storage: EventStorage = {
+      load: () => Promise.reject(new Error('blocked')),
+      save: () => Promise.reject(new Error('quota')),
+      prune: () => Promise.resolve(),
+    };
+    const store = new EventStore({ storage, now: () => now, onStorageError });
+
+    await store.restore();
+    store.add([order('o1', now)]);
+
+    await vi.waitFor(() => expect(onStorageError).toHaveBeenCalledTimes(2));
+    expect(store.size).toBe(1);
+  });
+});
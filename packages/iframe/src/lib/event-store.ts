@@ -0,0 +1,98 @@
+import type { PosEvent } from '@company/pos-intelligence-protocol';
+
+const DAY = 24 * 60 * 60000;
+
+/** How long events are kept before they age out */
+export const EVENT_RETENTION_MS = 30 * DAY;
+
+/**
+ * Where one location's events outlive the page, e.g. IndexedDB.
+ */
+export interface EventStorage {
+  load(): Promise<PosEvent[]>;
+  save(events: PosEvent[]): Promise<void>;
+  /** Removes events from before `timestamp` */
+  prune(timestamp: number): Promise<void>;
+}
+
+export interface EventStoreOptions {
+  retention?: number;
+  storage?: EventStorage;
+  now?: () => number;
+  onStorageError?: (error: Error) => void;
+}
+
+export const getEventKey = (event: Pick<PosEvent, 'kind' | 'id'>) => `${event.kind}:${event.id}`;
+
+/**
+ * The POS events of one merchant location for the last
+ * {@link EVENT_RETENTION_MS}, oldest first. Every view and the rules engine
+ * read from it; with a storage it survives reloads.
+ */
+export class EventStore {
+  private events = new Map<string, PosEvent>();
+  private sorted: PosEvent[] = [];
+  private readonly retention: number;
+  private readonly now: () => number;
+
+  constructor(private options: EventStoreOptions = {}) {
+    this.retention = options.retention ?? EVENT_RETENTION_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /** The same array until the next change */
+  getAll(): readonly PosEvent[] {
+    return this.sorted;
+  }
+
+  get size(): number {
+    return this.events.size;
+  }
+
+  /**
+   * Loads events kept by an earlier page. Ones received since take
+   * precedence over their stored copies.
+   */
+  async restore(): Promise<void> {
+    const storage = this.options.storage;
+    if (!storage) return;
+
+    try {
+      const stored = await storage.load();
+      stored.forEach((event) => {
+        const key = getEventKey(event);
+        if (!this.events.has(key)) this.events.set(key, event);
+      });
+      this.prune();
+    } catch (error) {
+      this.options.onStorageError?.(error as Error);
+    }
+  }
+
+  /**
+   * Stores `events`, replacing earlier copies with the same kind and id, and
+   * returns the ones it had not seen. Events already past retention are
+   * ignored.
+   */
+  add(events: PosEvent[]): PosEvent[] {
+    const cutoff = this.now() - this.retention;
+    const kept = events.filter((event) => event.timestamp >= cutoff);
+    const added = kept.filter((event) => !this.events.has(getEventKey(event)));
+
+    kept.forEach((event) => this.events.set(getEventKey(event), event));
+    this.prune();
+    if (kept.length > 0) {
+      this.options.storage?.save(kept).catch((error) => this.options.onStorageError?.(error));
+    }
+    return added;
+  }
+
+  private prune(): void {
+    const cutoff = this.now() - this.retention;
+    this.events.forEach((event, key) => {
+      if (event.timestamp < cutoff) this.events.delete(key);
+    });
+    this.sorted = [...this.events.values()].sort((a, b) => a.timestamp - b.timestamp);
+    this.options.storage?.prune(cutoff).catch((error) => this.options.onStorageError?.(error));
+  }
+}
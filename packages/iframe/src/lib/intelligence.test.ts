@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { addReviewToSentiment, createScenarioEvents, formatAlertRollup, formatAlertTime, getAlertView, getUrgentActions } from './intelligence';
+
+describe('getUrgentActions', () => {
+  it('should turn unread critical and warning alerts into actions', () => {
+    const actions = getUrgentActions([
+      { id: 'a1', title: 'Rush', message: 'Busy', severity: 'critical', unread: true },
+      { id: 'a2', title: 'Review', message: 'New review', severity: 'info', unread: true },
+      { id: 'a3', title: 'Stock', message: 'Low stock', severity: 'warning', unread: false },
+    ]);
+
+    expect(actions).toEqual([{ id: 'action-a1', title: 'Respond to: Rush', alertId: 'a1' }]);
+  });
+});
+
+describe('addReviewToSentiment', () => {
+  it('should fold a rating into the running average', () => {
+    expect(addReviewToSentiment({ score: 4, reviewCount: 3 }, 1)).toEqual({
+      score: 3.3,
+      change: -0.7,
+      reviewCount: 4,
+    });
+  });
+
+  it('should start from the first rating', () => {
+    expect(addReviewToSentiment(null, 5)).toEqual({ score: 5, change: 0, reviewCount: 1 });
+  });
+});
+
+describe('getAlertView', () => {
+  it('should open the view that matches the alert category', () => {
+    expect(getAlertView({ category: 'reviews' })).toBe('sentiment');
+    expect(getAlertView({ category: 'social' })).toBe('reddit');
+    expect(getAlertView({ category: 'staffing' })).toBeNull();
+  });
+});
+
+describe('formatAlertTime', () => {
+  it('should describe how long ago an alert was raised', () => {
+    const now = Date.UTC(2024, 0, 2, 12);
+    expect(formatAlertTime(now - 30000, now)).toBe('Just now');
+    expect(formatAlertTime(now - 5 * 60000, now)).toBe('5 min ago');
+    expect(formatAlertTime(now - 60 * 60000, now)).toBe('1 hour ago');
+    expect(formatAlertTime(now - 26 * 60 * 60000, now)).toBe('Yesterday');
+  });
+});
+
+describe('formatAlertRollup', () => {
+  it('should count repeats over the time they span', () => {
+    expect(formatAlertRollup({ count: 5, createdAt: 0, lastOccurredAt: 10 * 60000 })).toBe('×5 in 10 min');
+    expect(formatAlertRollup({ count: 2, createdAt: 0, lastOccurredAt: 5000 })).toBe('×2 in 1 min');
+    expect(formatAlertRollup({ count: 3, createdAt: 0, lastOccurredAt: 150 * 60000 })).toBe('×3 in 3 h');
+    expect(formatAlertRollup({ createdAt: 0 })).toBeNull();
+  });
+});
+
+describe('createScenarioEvents', () => {
+  it('should end a steady day of orders in a burst for the morning rush', () => {
+    const now = Date.UTC(2024, 5, 1, 9);
+    const events = createScenarioEvents('morning-rush', now);
+
+    expect(events.every((event) => event.kind === 'order' && event.timestamp <= now)).toBe(true);
+    expect(events.filter((event) => event.timestamp > now - 30 * 60000)).toHaveLength(5);
+    expect(new Set(events.map((event) => event.id)).size).toBe(events.length);
+  });
+
+  it('should send a one-star review and nothing for unknown scenarios', () => {
+    expect(createScenarioEvents('negative-review', 1000)).toEqual([
+      expect.objectContaining({ kind: 'review', rating: 1, timestamp: 1000 }),
+    ]);
+    expect(createScenarioEvents('unknown')).toEqual([]);
+  });
+});
@@ -0,0 +1,128 @@
+import type {
+  Alert,
+  AlertCategory,
+  AlertState,
+  Insight,
+  PosEvent,
+  SentimentSummary,
+  UrgentAction,
+  ViewName,
+} from '@company/pos-intelligence-protocol';
+
+export const SAMPLE_SENTIMENT: SentimentSummary = { score: 4.3, change: 0.2, reviewCount: 128 };
+
+export const SAMPLE_INSIGHTS: Insight[] = [
+  {
+    id: 'insight-1',
+    title: 'Weekend brunch is driving reviews',
+    detail: 'Most 5-star reviews this month mention the Saturday brunch menu.',
+    source: 'reviews',
+  },
+  {
+    id: 'insight-2',
+    title: 'Lunch orders peak earlier than staffing',
+    detail: 'Orders climb from 11:15, but the second shift starts at 11:45.',
+    source: 'orders',
+  },
+];
+
+/**
+ * Unread critical and warning alerts, most recent first, as things the
+ * merchant should act on now.
+ */
+export function getUrgentActions(alerts: AlertState[]): UrgentAction[] {
+  return alerts
+    .filter((alert) => alert.unread && (alert.severity === 'critical' || alert.severity === 'warning'))
+    .map((alert) => ({ id: `action-${alert.id}`, title: `Respond to: ${alert.title}`, alertId: alert.id }));
+}
+
+/**
+ * Folds a new review rating into the running average, rounded to one decimal.
+ */
+export function addReviewToSentiment(sentiment: SentimentSummary | null, rating: number): SentimentSummary {
+  const count = sentiment?.reviewCount ?? 0;
+  const previous = sentiment?.score ?? rating;
+  const score = Math.round(((previous * count + rating) / (count + 1)) * 10) / 10;
+  return {
+    score,
+    change: Math.round((score - previous) * 10) / 10,
+    reviewCount: count + 1,
+  };
+}
+
+// Categories with a view where the merchant can follow up
+const CATEGORY_VIEWS: Partial<Record<AlertCategory, ViewName>> = {
+  reviews: 'sentiment',
+  competitors: 'competitors',
+  social: 'reddit',
+};
+
+/**
+ * View that "Take Action" opens for an alert, or null when there is none.
+ */
+export function getAlertView(alert: Pick<Alert, 'category'>): ViewName | null {
+  return CATEGORY_VIEWS[alert.category] ?? null;
+}
+
+/**
+ * Short relative label such as "5 min ago" for an alert timestamp.
+ */
+export function formatAlertTime(timestamp: number, now = Date.now()): string {
+  const minutes = Math.floor((now - timestamp) / 60000);
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return hours === 1 ? '1 hour ago' : `${hours} hours ago`;
+
+  const days = Math.floor(hours / 24);
+  return days === 1 ? 'Yesterday' : `${days} days ago`;
+}
+
+/**
+ * Rollup label such as "×5 in 10 min" for an alert that occurred more than
+ * once, or null.
+ */
+export function formatAlertRollup({ count = 1, createdAt, lastOccurredAt = createdAt }: Pick<Alert, 'count' | 'createdAt' | 'lastOccurredAt'>): string | null {
+  if (count <= 1) return null;
+
+  const minutes = Math.max(1, Math.round((lastOccurredAt - createdAt) / 60000));
+  const span = minutes < 60 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+  return `×${count} in ${span}`;
+}
+
+/**
+ * Synthetic POS events for the demo scenarios, so they raise alerts through
+ * the rules like real host data: a steady day of orders ending in a burst,
+ * or a single one-star review.
+ */
+export function createScenarioEvents(scenario: string, now = Date.now()): PosEvent[] {
+  switch (scenario) {
+    case 'morning-rush': {
+      const steady = Array.from({ length: 48 }, (_, index): PosEvent => ({
+        kind: 'order',
+        id: `rush-${now}-${index}`,
+        total: 18 + (index % 5) * 4,
+        timestamp: now - (index + 1) * 30 * 60000 - 60000,
+      }));
+      const burst = Array.from({ length: 5 }, (_, index): PosEvent => ({
+        kind: 'order',
+        id: `rush-${now}-burst-${index}`,
+        total: 24,
+        timestamp: now - index * 5 * 60000,
+      }));
+      return [...steady, ...burst];
+    }
+    case 'negative-review':
+      return [{
+        kind: 'review',
+        id: `review-${now}`,
+        rating: 1,
+        text: 'Waited 40 minutes and the order was cold.',
+        platform: 'google',
+        timestamp: now,
+      }];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Alert } from '@company/pos-intelligence-protocol';
+import { Notifier, relayNotificationWebhook } from './notifier';
+
+function alert(id: string, overrides: Partial<Alert> = {}): Alert {
+  return {
+    id,
+    title: `Alert ${id}`,
+    message: 'Details',
+    severity: 'warning',
+    category: 'operations',
+    source: 'orders',
+    status: 'active',
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    ...overrides,
+  };
+}
+
+const ids = (delivery: { alerts: Alert[] }) => delivery.alerts.map(({ id }) => id);
+
+describe('Notifier', () => {
+  let deliver: ReturnType<typeof vi.fn>;
+  let notifier: Notifier;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 14:00 in New York
+    vi.setSystemTime(Date.UTC(2024, 5, 1, 18));
+    deliver = vi.fn();
+    notifier = new Notifier({ deliver, timeZone: () => 'America/New_York' });
+  });
+
+  afterEach(() => {
+    notifier.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should send each alert to the channels of its severity or category', () => {
+    notifier.setPreferences({ categories: { reviews: ['email'] } });
+
+    notifier.notify(alert('a1', { severity: 'critical' }));
+    notifier.notify(alert('r1', { category: 'reviews' }));
+
+    expect(deliver.mock.calls.map(([delivery]) => [ids(delivery), delivery.channels])).toEqual([
+      [['a1'], ['widget']],
+      [['a1'], ['toast', 'browser']],
+      [['r1'], ['email']],
+    ]);
+  });
+
+  it('should batch digest severities until the digest is due', () => {
+    notifier.notify(alert('i1', { severity: 'info' }));
+    vi.advanceTimersByTime(30 * 60000);
+    notifier.notify(alert('i2', { severity: 'info' }));
+    notifier.notify(alert('i3', { severity: 'info' }));
+    notifier.discard('i3');
+    expect(deliver).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(30 * 60000);
+    expect(deliver).toHaveBeenCalledTimes(4);
+    expect(deliver.mock.calls[3][0]).toMatchObject({ channels: ['toast'], digest: true });
+    expect(ids(deliver.mock.calls[3][0])).toEqual(['i1', 'i2']);
+  });
+
+  it('should send each held alert only on its own channels', () => {
+    notifier.setPreferences({ quietHours: { start: '13:00', end: '15:30' }, categories: { reviews: ['sms'] } });
+    notifier.notify(alert('i1', { severity: 'info' }));
+    notifier.notify(alert('c1', { severity: 'critical' }));
+    notifier.notify(alert('r1', { category: 'reviews' }));
+    notifier.notify(alert('i2', { severity: 'info' }));
+    deliver.mockClear();
+
+    vi.advanceTimersByTime(90 * 60000);
+
+    expect(deliver.mock.calls.map(([delivery]) => [ids(delivery), delivery.channels])).toEqual([
+      [['i1', 'i2'], ['toast']],
+      [['c1'], ['toast', 'browser']],
+      [['r1'], ['sms']],
+    ]);
+  });
+
+  it('should hold alerts through quiet hours in the merchant time zone', () => {
+    notifier.setPreferences({ quietHours: { start: '13:00', end: '15:30', allowCritical: true } });
+
+    notifier.notify(alert('w1'));
+    notifier.notify(alert('c1', { severity: 'critical' }));
+    expect(deliver.mock.calls.map(([delivery]) => [ids(delivery), delivery.channels])).toEqual([
+      [['w1'], ['widget']],
+      [['c1'], ['widget']],
+      [['c1'], ['toast', 'browser']],
+    ]);
+
+    vi.advanceTimersByTime(90 * 60000 - 1);
+    expect(deliver).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(1);
+    expect(deliver).toHaveBeenLastCalledWith(expect.objectContaining({ channels: ['toast'], digest: true }));
+    expect(ids(deliver.mock.calls[3][0])).toEqual(['w1']);
+  });
+
+  it('should send held alerts once quiet hours are turned off', () => {
+    notifier.setPreferences({ quietHours: { start: '13:00', end: '15:30' } });
+    notifier.notify(alert('w1'));
+
+    notifier.setPreferences({ quietHours: null });
+    vi.advanceTimersByTime(1);
+
+    expect(ids(deliver.mock.calls[1][0])).toEqual(['w1']);
+  });
+});
+
+describe('relayNotificationWebhook', () => {
+  it('should hand the alerts to the backend relay and reject when it fails', async () => {
+    const fetchImpl = vi.fn().mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce({ ok: false, status: 502 });
+    const webhook = { url: 'https://hooks.example.com/sms', to: '+15550100' };
+    const delivery = { alerts: [alert('a1')], channels: ['sms' as const], digest: false };
+    const relay = { apiUrl: 'https://api.example.com/', apiKey: 'pk_test_123', token: 'jwt' };
+
+    await relayNotificationWebhook('sms', webhook, delivery, relay, fetchImpl);
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.example.com/v1/notifications/webhooks', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Api-Key': 'pk_test_123', Authorization: 'Bearer jwt' },
+    }));
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body)).toMatchObject({ channel: 'sms', webhook, alerts: [{ id: 'a1' }] });
+
+    await expect(relayNotificationWebhook('sms', webhook, delivery, relay, fetchImpl)).rejects.toThrow(
+      'The sms webhook relay answered 502'
+    );
+  });
+});
@@ -0,0 +1,196 @@
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationChannels,
+  getQuietHoursEnd,
+  isQuietTime,
+  mergeNotificationPreferences,
+} from '@company/pos-intelligence-protocol';
+import type {
+  Alert,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  NotificationWebhook,
+  WebhookChannel,
+} from '@company/pos-intelligence-protocol';
+
+/** Alerts to send out now on the given channels */
+export interface NotificationDelivery {
+  alerts: Alert[];
+  channels: NotificationChannel[];
+  /** True for alerts that were held back by quiet hours or the digest */
+  digest: boolean;
+}
+
+export interface NotifierOptions {
+  preferences?: NotificationPreferences;
+  /** The merchant's IANA time zone, read when quiet hours are checked */
+  timeZone?: () => string | undefined;
+  now?: () => number;
+  deliver: (delivery: NotificationDelivery) => void;
+}
+
+interface HeldAlert {
+  alert: Alert;
+  channels: NotificationChannel[];
+}
+
+/**
+ * Decides how one location's merchant hears about an alert. The widget
+ * banner goes out at once; other channels wait while quiet hours last, and
+ * severities in the digest are batched until the next digest is due.
+ */
+export class Notifier {
+  private preferences: NotificationPreferences;
+  private listeners = new Set<() => void>();
+  private held = new Map<string, HeldAlert>();
+  private heldSince?: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly now: () => number;
+
+  constructor(private options: NotifierOptions) {
+    this.preferences = options.preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+    this.now = options.now ?? Date.now;
+  }
+
+  getPreferences(): NotificationPreferences {
+    return this.preferences;
+  }
+
+  /** Takes a validated update; held alerts follow the new quiet hours and digest */
+  setPreferences(update: NotificationPreferencesUpdate): NotificationPreferences {
+    this.preferences = mergeNotificationPreferences(this.preferences, update);
+    this.schedule();
+    this.listeners.forEach((listener) => listener());
+    return this.preferences;
+  }
+
+  /** Hears about preference changes; returns an unsubscribe function */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Announces a new or escalated alert */
+  notify(alert: Alert): void {
+    // An escalation replaces the version waiting in the digest
+    this.held.delete(alert.id);
+
+    const channels = getNotificationChannels(this.preferences, alert);
+    if (channels.includes('widget')) {
+      this.options.deliver({ alerts: [alert], channels: ['widget'], digest: false });
+    }
+    const outside = channels.filter((channel) => channel !== 'widget');
+    if (outside.length === 0) return;
+
+    const { quietHours, digest } = this.preferences;
+    const quiet = this.isQuiet() && !(alert.severity === 'critical' && quietHours?.allowCritical);
+    if (!quiet && !digest.severities.includes(alert.severity)) {
+      this.options.deliver({ alerts: [alert], channels: outside, digest: false });
+      return;
+    }
+
+    if (this.held.size === 0) this.heldSince = this.now();
+    this.held.set(alert.id, { alert, channels: outside });
+    this.schedule();
+  }
+
+  /** Leaves an alert out of the next digest, e.g. once it has been read */
+  discard(alertId: string): void {
+    if (this.held.delete(alertId) && this.held.size === 0) this.schedule();
+  }
+
+  destroy(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.held.clear();
+    this.listeners.clear();
+  }
+
+  private isQuiet(): boolean {
+    return isQuietTime(this.preferences.quietHours, this.now(), this.options.timeZone?.());
+  }
+
+  // Held alerts go out when quiet hours end, or when the digest is due if none of them were only waiting out quiet hours
+  private schedule(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    if (this.held.size === 0) return;
+
+    const now = this.now();
+    const { quietHours, digest } = this.preferences;
+    let due = (this.heldSince ?? now) + digest.interval;
+    if (quietHours && this.isQuiet()) {
+      due = getQuietHoursEnd(quietHours, now, this.options.timeZone?.());
+    } else if ([...this.held.values()].some(({ alert }) => !digest.severities.includes(alert.severity))) {
+      due = now;
+    }
+    this.timer = setTimeout(() => this.flush(), Math.max(0, due - now));
+  }
+
+  private flush(): void {
+    this.timer = undefined;
+    if (this.isQuiet()) {
+      this.schedule();
+      return;
+    }
+
+    const held = [...this.held.values()];
+    this.held.clear();
+    this.heldSince = undefined;
+    if (held.length === 0) return;
+
+    // Alerts held side by side keep their own channels; one digest per channel set
+    const groups = new Map<string, HeldAlert[]>();
+    held.forEach((entry) => {
+      const key = [...entry.channels].sort().join(',');
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    });
+    groups.forEach((entries) => {
+      this.options.deliver({ alerts: entries.map((entry) => entry.alert), channels: entries[0].channels, digest: true });
+    });
+  }
+}
+
+export interface WebhookRelay {
+  /** Backend base URL; the CSP only lets the widget connect there */
+  apiUrl: string;
+  apiKey?: string;
+  /** Merchant bearer token, when authenticated */
+  token?: string;
+}
+
+/** Backend the widget talks to, set at build time */
+export const API_URL = process.env.NEXT_PUBLIC_API_URL ?? 'https://api.unified-intelligence.com';
+
+/**
+ * Asks the backend to POST an email or SMS notification to the merchant's
+ * webhook, which does the sending. Rejects when the relay refuses it.
+ */
+export async function relayNotificationWebhook(
+  channel: WebhookChannel,
+  webhook: NotificationWebhook,
+  { alerts, digest }: NotificationDelivery,
+  { apiUrl, apiKey, token }: WebhookRelay,
+  fetchImpl: typeof fetch = fetch
+): Promise<void> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers['X-Api-Key'] = apiKey;
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetchImpl(`${apiUrl.replace(/\/+$/, '')}/v1/notifications/webhooks`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      channel,
+      webhook,
+      digest,
+      alerts: alerts.map(({ id, title, message, severity, category }) => ({ id, title, message, severity, category })),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`The ${channel} webhook relay answered ${response.status}`);
+  }
+}
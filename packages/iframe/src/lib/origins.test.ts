@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { isOriginAllowed } from './origins';
+
+const allowed = ["'self'", 'https://*.pos-domain.com', 'http://localhost:*', 'https://partner.example:8443'];
+
+describe('isOriginAllowed', () => {
+  it('should match wildcard subdomains but not the bare domain', () => {
+    expect(isOriginAllowed('https://shop.pos-domain.com', allowed)).toBe(true);
+    expect(isOriginAllowed('https://eu.shop.pos-domain.com', allowed)).toBe(true);
+    expect(isOriginAllowed('https://pos-domain.com', allowed)).toBe(false);
+    expect(isOriginAllowed('https://evilpos-domain.com', allowed)).toBe(false);
+    expect(isOriginAllowed('http://shop.pos-domain.com', allowed)).toBe(false);
+  });
+
+  it('should match port wildcards and explicit ports', () => {
+    expect(isOriginAllowed('http://localhost:3000', allowed)).toBe(true);
+    expect(isOriginAllowed('http://localhost', allowed)).toBe(true);
+    expect(isOriginAllowed('https://partner.example:8443', allowed)).toBe(true);
+    expect(isOriginAllowed('https://partner.example', allowed)).toBe(false);
+  });
+
+  it("should resolve 'self' against the iframe origin", () => {
+    expect(isOriginAllowed('https://app.example', allowed, 'https://app.example')).toBe(true);
+    expect(isOriginAllowed('https://app.example', allowed)).toBe(false);
+  });
+
+  it('should reject opaque and malformed origins', () => {
+    expect(isOriginAllowed('null', allowed)).toBe(false);
+    expect(isOriginAllowed('', allowed)).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+// Mirrors the frame-ancestors defaults in next.config.js
+const DEFAULT_ALLOWED_ORIGINS = ["'self'", 'https://*.pos-domain.com', 'http://localhost:*', 'https://localhost:*'];
+
+interface OriginPattern {
+  protocol: string;
+  host: string;
+  port: string;
+  wildcardSubdomain: boolean;
+}
+
+function parsePattern(pattern: string): OriginPattern | null {
+  const match = /^(https?):\/\/(\*\.)?([^:/*]+)(?::(\d+|\*))?$/.exec(pattern.trim());
+  if (!match) return null;
+
+  const [, protocol, wildcard, host, port = ''] = match;
+  return { protocol, host: host.toLowerCase(), port, wildcardSubdomain: !!wildcard };
+}
+
+function defaultPort(protocol: string): string {
+  return protocol === 'https' ? '443' : '80';
+}
+
+function matchesPattern(origin: URL, pattern: OriginPattern): boolean {
+  if (origin.protocol !== `${pattern.protocol}:`) return false;
+
+  const host = origin.hostname.toLowerCase();
+  const hostMatches = pattern.wildcardSubdomain
+    ? host.endsWith(`.${pattern.host}`)
+    : host === pattern.host;
+  if (!hostMatches) return false;
+
+  if (pattern.port === '*') return true;
+  const port = origin.port || defaultPort(pattern.protocol);
+  return port === (pattern.port || defaultPort(pattern.protocol));
+}
+
+/**
+ * Reads the allow-list from NEXT_PUBLIC_ALLOWED_PARENT_ORIGINS (space or comma
+ * separated), falling back to the same defaults as the CSP header.
+ */
+export function getAllowedOrigins(): string[] {
+  const configured = process.env.NEXT_PUBLIC_ALLOWED_PARENT_ORIGINS;
+  if (!configured) return DEFAULT_ALLOWED_ORIGINS;
+
+  return configured.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Checks an origin against CSP-style source expressions: exact origins,
+ * `'self'`, `*.` subdomain wildcards and `:*` port wildcards.
+ */
+export function isOriginAllowed(origin: string, allowed: string[], selfOrigin?: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(origin);
+  } catch {
+    return false;
+  }
+
+  return allowed.some((entry) => {
+    if (entry === "'self'") {
+      return !!selfOrigin && origin === selfOrigin;
+    }
+
+    const pattern = parsePattern(entry);
+    return !!pattern && matchesPattern(parsed, pattern);
+  });
+}
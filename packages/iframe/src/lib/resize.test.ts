@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { observeContentSize } from './resize';
+
+describe('observeContentSize', () => {
+  let notify: () => void;
+  const disconnect = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('ResizeObserver', class {
+      constructor(callback: () => void) {
+        notify = callback;
+      }
+      observe() {}
+      disconnect = disconnect;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function elementWithHeight(height: { current: number }) {
+    const element = document.createElement('div');
+    vi.spyOn(element, 'getBoundingClientRect').mockImplementation(
+      () => ({ height: height.current, width: 320 }) as DOMRect
+    );
+    return element;
+  }
+
+  it('should report the settled size once per burst of changes', () => {
+    const height = { current: 100 };
+    const onResize = vi.fn();
+    observeContentSize(elementWithHeight(height), onResize, { debounceMs: 50 });
+
+    notify();
+    height.current = 240.4;
+    notify();
+    vi.advanceTimersByTime(50);
+
+    expect(onResize).toHaveBeenCalledTimes(1);
+    expect(onResize).toHaveBeenCalledWith({ height: 241, width: 320 });
+  });
+
+  it('should skip unchanged sizes and stop when disposed', () => {
+    const height = { current: 100 };
+    const onResize = vi.fn();
+    const stop = observeContentSize(elementWithHeight(height), onResize, { debounceMs: 50 });
+
+    notify();
+    vi.advanceTimersByTime(50);
+    notify();
+    vi.advanceTimersByTime(50);
+    expect(onResize).toHaveBeenCalledTimes(1);
+
+    height.current = 300;
+    notify();
+    stop();
+    vi.advanceTimersByTime(50);
+    expect(onResize).toHaveBeenCalledTimes(1);
+    expect(disconnect).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import type { ResizePayload } from '@company/pos-intelligence-protocol';
+
+const DEFAULT_DEBOUNCE_MS = 100;
+
+export interface ResizeObserverOptions {
+  debounceMs?: number;
+}
+
+/**
+ * Reports the element's rendered size once it settles, skipping updates that
+ * would not change the host iframe. Returns a function that stops observing.
+ */
+export function observeContentSize(
+  element: HTMLElement,
+  onResize: (size: ResizePayload) => void,
+  options: ResizeObserverOptions = {}
+): () => void {
+  if (typeof ResizeObserver === 'undefined') return () => {};
+
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let last: ResizePayload | undefined;
+
+  const report = () => {
+    timer = undefined;
+    const rect = element.getBoundingClientRect();
+    const size = { height: Math.ceil(rect.height), width: Math.ceil(rect.width) };
+    if (last && last.height === size.height && last.width === size.width) return;
+
+    last = size;
+    onResize(size);
+  };
+
+  const observer = new ResizeObserver(() => {
+    clearTimeout(timer);
+    timer = setTimeout(report, debounceMs);
+  });
+  observer.observe(element);
+
+  return () => {
+    clearTimeout(timer);
+    observer.disconnect();
+  };
+}
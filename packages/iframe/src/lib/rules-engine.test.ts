@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import type { AlertRule, OrderEvent, ReviewEvent, RuleCondition } from '@company/pos-intelligence-protocol';
+import { RulesEngine, evaluateCondition, getLookback } from './rules-engine';
+
+const MINUTE = 60000;
+const now = Date.UTC(2024, 5, 1, 9);
+
+const order = (id: number, minutesAgo: number, total = 20): OrderEvent => ({
+  kind: 'order',
+  id: `o${id}`,
+  total,
+  timestamp: now - minutesAgo * MINUTE,
+});
+
+const review = (id: number, minutesAgo: number, rating: number): ReviewEvent => ({
+  kind: 'review',
+  id: `r${id}`,
+  rating,
+  timestamp: now - minutesAgo * MINUTE,
+});
+
+// One order every 30 minutes for the past day, then a burst in the last half hour
+const steadyDay = Array.from({ length: 48 }, (_, index) => order(index, 30 * (index + 1) + 1));
+const burst = Array.from({ length: 4 }, (_, index) => order(100 + index, index * 5));
+
+describe('evaluateCondition', () => {
+  it('should compare a threshold over the window and explain it', () => {
+    const result = evaluateCondition(
+      { type: 'threshold', metric: 'order.revenue', window: 30 * MINUTE, operator: '>=', value: 80 },
+      burst,
+      now
+    );
+
+    expect(result).toEqual({ matched: true, explanation: ['revenue in the last 30 min: 80.00 (rule: >= 80)'] });
+  });
+
+  it('should compare the window against the usual level in the baseline', () => {
+    const result = evaluateCondition(
+      { type: 'compare', metric: 'order.count', window: 30 * MINUTE, baseline: 24 * 60 * MINUTE, operator: '>=', ratio: 2 },
+      [...steadyDay, ...burst],
+      now
+    );
+
+    expect(result.matched).toBe(true);
+    expect(result.explanation[0]).toBe('orders in the last 30 min: 4, 4.0× the usual 1 over the previous day (rule: >= 2×)');
+  });
+
+  it('should not fire a comparison without a baseline', () => {
+    const result = evaluateCondition(
+      { type: 'compare', metric: 'order.count', window: 30 * MINUTE, baseline: 60 * MINUTE, operator: '>=', ratio: 2 },
+      burst,
+      now
+    );
+
+    expect(result).toEqual({ matched: false, explanation: ['No orders in the previous hour to compare with'] });
+  });
+
+  it('should measure the change from the previous window', () => {
+    const result = evaluateCondition(
+      { type: 'rateOfChange', metric: 'review.averageRating', window: 60 * MINUTE, operator: '<=', percent: -20 },
+      [review(1, 90, 5), review(2, 70, 4), review(3, 10, 2)],
+      now
+    );
+
+    expect(result).toEqual({
+      matched: true,
+      explanation: ['average rating fell 56% (4.5 → 2) from the previous hour (rule: <= -20%)'],
+    });
+  });
+
+  it('should combine conditions and keep the reasons that matched', () => {
+    const lowRating = { type: 'threshold', metric: 'review.negativeCount', window: 60 * MINUTE, operator: '>', value: 0 } as const;
+    const busy = { type: 'threshold', metric: 'order.count', window: 30 * MINUTE, operator: '>', value: 10 } as const;
+    const events = [...burst, review(1, 5, 1)];
+
+    expect(evaluateCondition({ type: 'all', conditions: [lowRating, busy] }, events, now).matched).toBe(false);
+    expect(evaluateCondition({ type: 'any', conditions: [lowRating, busy] }, events, now)).toEqual({
+      matched: true,
+      explanation: ['negative reviews in the last hour: 1 (rule: > 0)'],
+    });
+  });
+});
+
+describe('RulesEngine', () => {
+  const surge: AlertRule = {
+    id: 'surge',
+    name: 'Surge',
+    condition: { type: 'compare', metric: 'order.count', window: 30 * MINUTE, baseline: 24 * 60 * MINUTE, operator: '>=', ratio: 2 },
+    alert: { title: 'Order surge', severity: 'critical', category: 'staffing' },
+    cooldown: 10 * MINUTE,
+  };
+
+  it('should raise an alert with the rule and its explanation', () => {
+    const engine = new RulesEngine([surge]);
+
+    const [alert] = engine.evaluate([...steadyDay, ...burst], now);
+
+    expect(alert).toMatchObject({
+      id: `rule-surge-${now}`,
+      title: 'Order surge',
+      severity: 'critical',
+      category: 'staffing',
+      source: 'orders',
+      ruleId: 'surge',
+      createdAt: now,
+    });
+    expect(alert.explanation).toEqual([expect.stringMatching(/^Orders in the last 30 min: 4/)]);
+    expect(alert.message).toBe(alert.explanation?.[0]);
+  });
+
+  it('should rest a rule for its cooldown and skip disabled rules', () => {
+    const engine = new RulesEngine([surge, { ...surge, id: 'off', enabled: false }]);
+    const events = [...steadyDay, ...burst];
+
+    expect(engine.evaluate(events, now)).toHaveLength(1);
+    expect(engine.evaluate(events, now + MINUTE)).toHaveLength(0);
+    expect(engine.evaluate([...events, order(200, -10)], now + 10 * MINUTE)).toHaveLength(1);
+  });
+
+  it('should look back as far as the longest condition', () => {
+    const condition: RuleCondition = {
+      type: 'any',
+      conditions: [
+        surge.condition,
+        { type: 'rateOfChange', metric: 'review.averageRating', window: 48 * 60 * MINUTE, operator: '<', percent: 0 },
+      ],
+    };
+
+    expect(getLookback(condition)).toBe(96 * 60 * MINUTE);
+  });
+});
@@ -0,0 +1,268 @@
+import { isCompoundCondition } from '@company/pos-intelligence-protocol';
+import type {
+  AlertRule,
+  AlertSource,
+  PosEvent,
+  RuleCondition,
+  RuleMetric,
+  RuleOperator,
+} from '@company/pos-intelligence-protocol';
+import type { NewAlert } from './alerts-store';
+
+const MINUTE = 60000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const DEFAULT_COOLDOWN_MS = 5 * MINUTE;
+
+/**
+ * Rules every merchant location starts with until it sets its own.
+ */
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'order-surge',
+    name: 'Order surge',
+    condition: { type: 'compare', metric: 'order.count', window: 30 * MINUTE, baseline: DAY, operator: '>=', ratio: 1.5 },
+    alert: {
+      title: 'Order volume surge',
+      message: 'Orders are well above normal for this time. Consider calling in additional staff.',
+      severity: 'critical',
+      category: 'staffing',
+    },
+  },
+  {
+    id: 'negative-review',
+    name: 'Negative review',
+    condition: { type: 'threshold', metric: 'review.negativeCount', window: HOUR, operator: '>', value: 0 },
+    alert: {
+      title: 'Negative review',
+      message: 'A new low-star review needs a response.',
+      severity: 'warning',
+      category: 'reviews',
+    },
+    cooldown: HOUR,
+  },
+  {
+    id: 'rating-drop',
+    name: 'Rating drop',
+    condition: { type: 'rateOfChange', metric: 'review.averageRating', window: 7 * DAY, operator: '<=', percent: -10 },
+    alert: { title: 'Average rating is slipping', severity: 'warning', category: 'reviews' },
+    cooldown: DAY,
+  },
+];
+
+interface ConditionResult {
+  matched: boolean;
+  /** Why the condition matched, or did not */
+  explanation: string[];
+}
+
+const METRIC_LABELS: Record<RuleMetric, string> = {
+  'order.count': 'orders',
+  'order.revenue': 'revenue',
+  'order.averageValue': 'average order value',
+  'review.count': 'reviews',
+  'review.averageRating': 'average rating',
+  'review.negativeCount': 'negative reviews',
+};
+
+// Averages describe a level rather than an amount, so they are not scaled to the window length
+const AVERAGE_METRICS: RuleMetric[] = ['order.averageValue', 'review.averageRating'];
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * `metric` over events in `(from, to]`, or undefined for an average with
+ * nothing to average.
+ */
+export function computeMetric(metric: RuleMetric, events: readonly PosEvent[], from: number, to: number): number | undefined {
+  const inRange = events.filter((event) => event.timestamp > from && event.timestamp <= to);
+  const orders = inRange.flatMap((event) => (event.kind === 'order' ? [event] : []));
+  const reviews = inRange.flatMap((event) => (event.kind === 'review' ? [event] : []));
+
+  switch (metric) {
+    case 'order.count':
+      return orders.length;
+    case 'order.revenue':
+      return sum(orders.map((order) => order.total));
+    case 'order.averageValue':
+      return orders.length ? sum(orders.map((order) => order.total)) / orders.length : undefined;
+    case 'review.count':
+      return reviews.length;
+    case 'review.averageRating':
+      return reviews.length ? sum(reviews.map((review) => review.rating)) / reviews.length : undefined;
+    case 'review.negativeCount':
+      return reviews.filter((review) => review.rating <= 2).length;
+  }
+}
+
+function compare(actual: number, operator: RuleOperator, expected: number): boolean {
+  switch (operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+    case '=':
+      return actual === expected;
+  }
+}
+
+function formatWindow(ms: number): string {
+  if (ms % DAY === 0) return ms === DAY ? 'day' : `${ms / DAY} days`;
+  if (ms % HOUR === 0) return ms === HOUR ? 'hour' : `${ms / HOUR} hours`;
+  return `${Math.round(ms / MINUTE)} min`;
+}
+
+function formatValue(metric: RuleMetric, value: number): string {
+  if (metric === 'order.revenue' || metric === 'order.averageValue') return value.toFixed(2);
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Evaluates `condition` at `now` and explains the outcome in merchant terms.
+ */
+export function evaluateCondition(condition: RuleCondition, events: readonly PosEvent[], now: number): ConditionResult {
+  if (isCompoundCondition(condition)) {
+    const results = condition.conditions.map((child) => evaluateCondition(child, events, now));
+    const matched = condition.type === 'all'
+      ? results.every((result) => result.matched)
+      : results.some((result) => result.matched);
+    const relevant = condition.type === 'any' && matched ? results.filter((result) => result.matched) : results;
+    return { matched, explanation: relevant.flatMap((result) => result.explanation) };
+  }
+
+  const { metric, window, operator } = condition;
+  const label = METRIC_LABELS[metric];
+  const current = computeMetric(metric, events, now - window, now);
+  if (current === undefined) {
+    return { matched: false, explanation: [`No ${label.replace(/^average /, '')} data in the last ${formatWindow(window)}`] };
+  }
+  const shown = formatValue(metric, current);
+
+  switch (condition.type) {
+    case 'threshold':
+      return {
+        matched: compare(current, operator, condition.value),
+        explanation: [`${label} in the last ${formatWindow(window)}: ${shown} (rule: ${operator} ${condition.value})`],
+      };
+
+    case 'compare': {
+      const past = computeMetric(metric, events, now - window - condition.baseline, now - window);
+      const usual = past === undefined || AVERAGE_METRICS.includes(metric) ? past : (past * window) / condition.baseline;
+      if (!usual) {
+        return { matched: false, explanation: [`No ${label} in the previous ${formatWindow(condition.baseline)} to compare with`] };
+      }
+      const ratio = current / usual;
+      return {
+        matched: compare(ratio, operator, condition.ratio),
+        explanation: [
+          `${label} in the last ${formatWindow(window)}: ${shown}, ${ratio.toFixed(1)}× the usual ` +
+            `${formatValue(metric, usual)} over the previous ${formatWindow(condition.baseline)} (rule: ${operator} ${condition.ratio}×)`,
+        ],
+      };
+    }
+
+    case 'rateOfChange': {
+      const previous = computeMetric(metric, events, now - 2 * window, now - window);
+      if (!previous) {
+        return { matched: false, explanation: [`No ${label} in the ${formatWindow(window)} before to compare with`] };
+      }
+      const percent = ((current - previous) / previous) * 100;
+      return {
+        matched: compare(percent, operator, condition.percent),
+        explanation: [
+          `${label} ${percent < 0 ? 'fell' : 'rose'} ${Math.abs(percent).toFixed(0)}% ` +
+            `(${formatValue(metric, previous)} → ${shown}) from the previous ${formatWindow(window)} ` +
+            `(rule: ${operator} ${condition.percent}%)`,
+        ],
+      };
+    }
+  }
+}
+
+function getMetrics(condition: RuleCondition): RuleMetric[] {
+  return isCompoundCondition(condition)
+    ? condition.conditions.flatMap(getMetrics)
+    : [condition.metric];
+}
+
+/**
+ * How far back `condition` looks. Rules cannot see further back than the
+ * events the iframe keeps.
+ */
+export function getLookback(condition: RuleCondition): number {
+  switch (condition.type) {
+    case 'all':
+    case 'any':
+      return Math.max(...condition.conditions.map(getLookback));
+    case 'threshold':
+      return condition.window;
+    case 'compare':
+      return condition.window + condition.baseline;
+    case 'rateOfChange':
+      return 2 * condition.window;
+  }
+}
+
+/**
+ * Turns POS events into alerts using one merchant location's rules. Each
+ * rule rests for its cooldown after firing; when it fires again, the alerts
+ * store rolls the repeat into the open alert.
+ */
+export class RulesEngine {
+  private rules: AlertRule[] = [];
+  private lastFired = new Map<string, number>();
+
+  constructor(rules: AlertRule[] = DEFAULT_ALERT_RULES) {
+    this.setRules(rules);
+  }
+
+  getRules(): AlertRule[] {
+    return this.rules;
+  }
+
+  setRules(rules: AlertRule[]): void {
+    this.rules = rules;
+    const ids = new Set(rules.map((rule) => rule.id));
+    this.lastFired.forEach((_time, id) => {
+      if (!ids.has(id)) this.lastFired.delete(id);
+    });
+  }
+
+  /** The alerts the rules raise over the location's events at `now` */
+  evaluate(events: readonly PosEvent[], now = Date.now()): NewAlert[] {
+    return this.rules
+      .filter((rule) => rule.enabled !== false && !this.isCoolingDown(rule, now))
+      .flatMap((rule) => {
+        const result = evaluateCondition(rule.condition, events, now);
+        if (!result.matched) return [];
+
+        this.lastFired.set(rule.id, now);
+        return [this.createAlert(rule, result.explanation, now)];
+      });
+  }
+
+  private isCoolingDown(rule: AlertRule, now: number): boolean {
+    const last = this.lastFired.get(rule.id);
+    return last !== undefined && now - last < (rule.cooldown ?? DEFAULT_COOLDOWN_MS);
+  }
+
+  private createAlert(rule: AlertRule, explanation: string[], now: number): NewAlert {
+    const source: AlertSource = getMetrics(rule.condition)[0].startsWith('review.') ? 'reviews' : 'orders';
+    const reasons = explanation.map((line) => line.charAt(0).toUpperCase() + line.slice(1));
+    return {
+      id: `rule-${rule.id}-${now}`,
+      title: rule.alert.title,
+      message: rule.alert.message ?? reasons.join('. '),
+      severity: rule.alert.severity,
+      category: rule.alert.category,
+      source,
+      ruleId: rule.id,
+      explanation: reasons,
+      createdAt: now,
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_ALERT_POLICY, DEFAULT_NOTIFICATION_PREFERENCES } from '@company/pos-intelligence-protocol';
+import type { AlertRule } from '@company/pos-intelligence-protocol';
+import { createLocalSettingsStorage } from './settings-storage';
+
+const rule: AlertRule = {
+  id: 'busy',
+  name: 'Busy hour',
+  condition: { type: 'threshold', metric: 'order.count', window: 15 * 60000, operator: '>', value: 20 },
+  alert: { title: 'Orders are piling up', severity: 'warning', category: 'operations' },
+};
+
+describe('createLocalSettingsStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should keep each location\'s settings across instances', () => {
+    const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES, quietHours: { start: '22:00', end: '07:00' } };
+    createLocalSettingsStorage('m1/l1').save({ rules: [rule] });
+    createLocalSettingsStorage('m1/l1').save({ preferences });
+
+    expect(createLocalSettingsStorage('m1/l1').load()).toEqual({ rules: [rule], policy: undefined, preferences });
+    expect(createLocalSettingsStorage('m1/l2').load()).toEqual({});
+  });
+
+  it('should drop stored values that no longer validate', () => {
+    localStorage.setItem('pos-intelligence-settings:m1/l1', JSON.stringify({
+      rules: [{ id: 'broken' }],
+      policy: { escalateAfter: 60000 },
+    }));
+
+    expect(createLocalSettingsStorage('m1/l1').load()).toEqual({
+      rules: undefined,
+      policy: { ...DEFAULT_ALERT_POLICY, escalateAfter: 60000 },
+      preferences: undefined,
+    });
+  });
+
+  it('should report storage that cannot be used', () => {
+    const onError = vi.fn();
+    localStorage.setItem('pos-intelligence-settings:m1/l1', '{not json');
+
+    expect(createLocalSettingsStorage('m1/l1', onError).load()).toEqual({});
+    expect(onError).toHaveBeenCalledWith(expect.any(SyntaxError));
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  DEFAULT_ALERT_POLICY,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  mergeNotificationPreferences,
+  validateAlertPolicy,
+  validateAlertRules,
+  validateNotificationPreferences,
+} from '@company/pos-intelligence-protocol';
+import type { AlertPolicy, AlertRule, NotificationPreferences } from '@company/pos-intelligence-protocol';
+
+const KEY_PREFIX = 'pos-intelligence-settings:';
+
+/** What a location has configured; anything missing keeps its default */
+export interface LocationSettings {
+  rules?: AlertRule[];
+  policy?: AlertPolicy;
+  preferences?: NotificationPreferences;
+}
+
+/**
+ * Where one location's rules, alert policy and notification preferences
+ * outlive the page, so reloads do not reset them.
+ */
+export interface SettingsStorage {
+  load(): LocationSettings;
+  /** Replaces the given settings and keeps the others */
+  save(changes: LocationSettings): void;
+}
+
+/**
+ * Keeps one merchant location's settings in localStorage under its context
+ * key. Stored values that no longer validate are dropped, and storage that
+ * is blocked (e.g. in some third-party iframes) is reported and skipped.
+ */
+export function createLocalSettingsStorage(
+  context: string,
+  onError: (error: Error) => void = () => {}
+): SettingsStorage {
+  const key = `${KEY_PREFIX}${context}`;
+
+  const read = (): LocationSettings => {
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(key) ?? '{}');
+      return stored && typeof stored === 'object' ? stored : {};
+    } catch (error) {
+      onError(error as Error);
+      return {};
+    }
+  };
+
+  return {
+    load() {
+      const { rules, policy, preferences } = read();
+      return {
+        rules: rules && !validateAlertRules(rules) ? rules : undefined,
+        policy: policy && !validateAlertPolicy(policy) ? { ...DEFAULT_ALERT_POLICY, ...policy } : undefined,
+        preferences: preferences && !validateNotificationPreferences(preferences)
+          ? mergeNotificationPreferences(DEFAULT_NOTIFICATION_PREFERENCES, preferences)
+          : undefined,
+      };
+    },
+    save(changes) {
+      try {
+        window.localStorage.setItem(key, JSON.stringify({ ...read(), ...changes }));
+      } catch (error) {
+        onError(error as Error);
+      }
+    },
+  };
+}
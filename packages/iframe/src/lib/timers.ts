@@ -0,0 +1,16 @@
+// setTimeout fires at once for longer delays (about 24.8 days)
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Runs `callback` at `time`, re-arming in steps setTimeout can wait out.
+ * `track` gets each timer so the latest one can be cleared.
+ */
+export function runAt(
+  time: number,
+  callback: () => void,
+  track: (timer: ReturnType<typeof setTimeout>) => void,
+  now: () => number = Date.now
+): void {
+  const delay = Math.max(0, time - now());
+  track(setTimeout(() => (delay > MAX_TIMEOUT_MS ? runAt(time, callback, track, now) : callback()), Math.min(delay, MAX_TIMEOUT_MS)));
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { filterAlerts, getAlertFingerprint, groupIncidents, validateAlertFilter, validateAlertPolicy } from './alerts';
+import type { Alert } from './alerts';
+
+function alert(id: string, overrides: Partial<Alert> = {}): Alert {
+  return {
+    id,
+    title: id,
+    message: '',
+    severity: 'warning',
+    category: 'operations',
+    source: 'orders',
+    status: 'active',
+    createdAt: Number(id.slice(1)),
+    updatedAt: Number(id.slice(1)),
+    ...overrides,
+  };
+}
+
+describe('alerts', () => {
+  const alerts = [
+    alert('a1', { severity: 'critical' }),
+    alert('a3', { status: 'dismissed' }),
+    alert('a2', { category: 'reviews', source: 'reviews', status: 'acknowledged' }),
+    alert('a4', { status: 'snoozed', severity: 'info' }),
+  ];
+  const ids = (list: Alert[]) => list.map(({ id }) => id);
+
+  it('should list everything but dismissed alerts newest first by default', () => {
+    expect(ids(filterAlerts(alerts))).toEqual(['a4', 'a2', 'a1']);
+  });
+
+  it('should AND fields and match any value within a field', () => {
+    expect(ids(filterAlerts(alerts, { status: ['active', 'dismissed'] }))).toEqual(['a3', 'a1']);
+    expect(ids(filterAlerts(alerts, { severity: ['critical', 'info'], category: 'operations' }))).toEqual(['a4', 'a1']);
+    expect(ids(filterAlerts(alerts, { source: 'reviews' }))).toEqual(['a2']);
+    expect(ids(filterAlerts(alerts, { since: 2, limit: 1 }))).toEqual(['a4']);
+  });
+
+  it('should describe invalid filters', () => {
+    expect(validateAlertFilter(undefined)).toBeNull();
+    expect(validateAlertFilter({ status: ['active', 'unread' as never] })).toBe('Unknown alert status "unread"');
+    expect(validateAlertFilter({ category: 'weather' as never })).toBe('Unknown alert category "weather"');
+    expect(validateAlertFilter({ limit: 0 })).toBe('limit must be a positive integer');
+    expect(validateAlertFilter({ since: Number.NaN })).toBe('since must be a timestamp');
+  });
+});
+
+describe('alert rollups and incidents', () => {
+  it('should order by the latest occurrence and filter by incident', () => {
+    const alerts = [
+      alert('a1', { lastOccurredAt: 9, incidentId: 'i1' }),
+      alert('a2', { incidentId: 'i1' }),
+      alert('a3'),
+    ];
+
+    expect(filterAlerts(alerts).map(({ id }) => id)).toEqual(['a1', 'a3', 'a2']);
+    expect(filterAlerts(alerts, { incidentId: 'i1' }).map(({ id }) => id)).toEqual(['a1', 'a2']);
+  });
+
+  it('should fingerprint alerts by rule, or by source, category and title', () => {
+    expect(getAlertFingerprint(alert('a1', { ruleId: 'order-surge' }))).toBe('rule:order-surge');
+    expect(getAlertFingerprint(alert('a1', { title: 'Rush' }))).toBe('orders:operations:Rush');
+    expect(getAlertFingerprint(alert('a1', { fingerprint: 'custom' }))).toBe('custom');
+  });
+
+  it('should group alerts into incidents with their highest severity', () => {
+    const incidents = groupIncidents([
+      alert('a1', { incidentId: 'i1', title: 'Rush' }),
+      alert('a2', { incidentId: 'i1', severity: 'critical', status: 'acknowledged' }),
+      alert('a5', { incidentId: 'i2', category: 'reviews', severity: 'info' }),
+      alert('a9'),
+    ]);
+
+    expect(incidents).toEqual([
+      {
+        id: 'i2',
+        title: 'a5',
+        category: 'reviews',
+        severity: 'info',
+        alertIds: ['a5'],
+        unreadCount: 1,
+        openedAt: 5,
+        updatedAt: 5,
+      },
+      {
+        id: 'i1',
+        title: 'Rush',
+        category: 'operations',
+        severity: 'critical',
+        alertIds: ['a2', 'a1'],
+        unreadCount: 1,
+        openedAt: 1,
+        updatedAt: 2,
+      },
+    ]);
+  });
+
+  it('should describe invalid policies', () => {
+    expect(validateAlertPolicy({ escalateAfter: null, dedupeWindow: 0 })).toBeNull();
+    expect(validateAlertPolicy(undefined)).toBe('Alert policy must be an object');
+    expect(validateAlertPolicy({ groupWindow: -1 })).toBe('groupWindow must be a non-negative number of milliseconds');
+    expect(validateAlertPolicy({ escalateAfter: 0 })).toBe('escalateAfter must be a positive number of milliseconds, or null');
+  });
+});
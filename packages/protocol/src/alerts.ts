@@ -0,0 +1,263 @@
+import type { AlertSeverity, AlertSummary } from './messages';
+
+export const ALERT_SEVERITIES = ['critical', 'warning', 'info'] as const;
+
+export const ALERT_CATEGORIES = ['operations', 'reviews', 'inventory', 'staffing', 'competitors', 'social'] as const;
+
+export type AlertCategory = (typeof ALERT_CATEGORIES)[number];
+
+/** Feed that raised the alert */
+export const ALERT_SOURCES = ['orders', 'reviews', 'inventory', 'shifts', 'competitors', 'reddit', 'system'] as const;
+
+export type AlertSource = (typeof ALERT_SOURCES)[number];
+
+/**
+ * `active` alerts count as unread. Snoozed ones turn active again at
+ * `snoozedUntil`; dismissed ones are left out of lists unless asked for.
+ */
+export const ALERT_STATUSES = ['active', 'acknowledged', 'snoozed', 'dismissed'] as const;
+
+export type AlertStatus = (typeof ALERT_STATUSES)[number];
+
+export interface Alert extends AlertSummary {
+  category: AlertCategory;
+  source: AlertSource;
+  status: AlertStatus;
+  /** Epoch milliseconds */
+  createdAt: number;
+  updatedAt: number;
+  acknowledgedAt?: number;
+  snoozedUntil?: number;
+  dismissedAt?: number;
+  /** Rule that raised the alert, if any */
+  ruleId?: string;
+  /** Why the rule fired, one line per condition that matched */
+  explanation?: string[];
+  /** Repeats with the same fingerprint roll up into the alert; see {@link getAlertFingerprint} */
+  fingerprint?: string;
+  /** Times the alert has occurred, 1 when absent */
+  count?: number;
+  /** Latest occurrence; `createdAt` is the first */
+  lastOccurredAt?: number;
+  /** Related alerts share an incident; see {@link groupIncidents} */
+  incidentId?: string;
+  escalatedAt?: number;
+  /** Severity before the alert was escalated */
+  escalatedFrom?: AlertSeverity;
+}
+
+/**
+ * Related alerts of one category raised close together, e.g. an order surge
+ * followed by slow tickets. Severity is the highest among its alerts.
+ */
+export interface Incident {
+  id: string;
+  /** Title of the alert that opened the incident */
+  title: string;
+  category: AlertCategory;
+  severity: AlertSeverity;
+  /** Newest first */
+  alertIds: string[];
+  unreadCount: number;
+  openedAt: number;
+  updatedAt: number;
+}
+
+/**
+ * How one location's alerts roll up, group and escalate. Times are
+ * milliseconds.
+ */
+export interface AlertPolicy {
+  /** Repeats of an unread alert within this long of its last occurrence roll up into it */
+  dedupeWindow: number;
+  /** An alert joins an incident of the same category that had an alert within this long */
+  groupWindow: number;
+  /** An active warning becomes critical after this long; null turns escalation off */
+  escalateAfter: number | null;
+}
+
+export const DEFAULT_ALERT_POLICY: AlertPolicy = {
+  dedupeWindow: 60 * 60000,
+  groupWindow: 30 * 60000,
+  escalateAfter: 15 * 60000,
+};
+
+/**
+ * Criteria for `alerts.list`. Fields are ANDed; a list matches any of its
+ * values. Results are ordered by latest occurrence, newest first.
+ */
+export interface AlertFilter {
+  /** Defaults to every status except `dismissed` */
+  status?: AlertStatus | AlertStatus[];
+  severity?: AlertSeverity | AlertSeverity[];
+  category?: AlertCategory | AlertCategory[];
+  source?: AlertSource | AlertSource[];
+  /** Only alerts created at or after this epoch millisecond */
+  since?: number;
+  incidentId?: string;
+  limit?: number;
+}
+
+export interface AlertDismissParams {
+  alertId: string;
+}
+
+/**
+ * Sent by the iframe whenever an alert is raised or changes state.
+ */
+export interface AlertUpdatedPayload {
+  alert: Alert;
+  /** Absent when the alert is new */
+  previousStatus?: AlertStatus;
+  /** Unread alerts of that context after the change */
+  unreadCount: number;
+  /** Merchant context the alert belongs to (see `getMerchantContextKey`); may not be the one on screen */
+  contextKey?: string;
+}
+
+/**
+ * Sent by the iframe when an alert escalates, after its ALERT_UPDATED, so
+ * the host can notify the merchant again.
+ */
+export interface AlertEscalatedPayload {
+  alert: Alert;
+  previousSeverity: AlertSeverity;
+  /** Merchant context the alert belongs to (see `getMerchantContextKey`); may not be the one on screen */
+  contextKey?: string;
+}
+
+const VISIBLE_STATUSES: AlertStatus[] = ['active', 'acknowledged', 'snoozed'];
+
+function toList<T>(value: T | T[] | undefined): T[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+function findUnknown(value: unknown, allowed: readonly string[]): string | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  return values.find((entry) => !allowed.includes(entry));
+}
+
+/**
+ * Returns a description of the first invalid field, or null. Both sides run
+ * it so a bad filter is rejected before it reaches the iframe.
+ */
+export function validateAlertFilter(filter: AlertFilter | undefined): string | null {
+  if (filter === undefined) return null;
+  if (!filter || typeof filter !== 'object') return 'Alert filter must be an object';
+
+  const fields: [keyof AlertFilter, readonly string[]][] = [
+    ['status', ALERT_STATUSES],
+    ['severity', ALERT_SEVERITIES],
+    ['category', ALERT_CATEGORIES],
+    ['source', ALERT_SOURCES],
+  ];
+  for (const [field, allowed] of fields) {
+    if (filter[field] === undefined) continue;
+    const unknown = findUnknown(filter[field], allowed);
+    if (unknown !== undefined) {
+      return `Unknown alert ${field} "${unknown}"`;
+    }
+  }
+  if (filter.since !== undefined && !Number.isFinite(filter.since)) {
+    return 'since must be a timestamp';
+  }
+  if (filter.limit !== undefined && (!Number.isInteger(filter.limit) || filter.limit < 1)) {
+    return 'limit must be a positive integer';
+  }
+  if (filter.incidentId !== undefined && typeof filter.incidentId !== 'string') {
+    return 'incidentId must be a string';
+  }
+  return null;
+}
+
+/**
+ * Returns a description of the first invalid field of a policy change, or
+ * null. Fields left out keep their current value.
+ */
+export function validateAlertPolicy(policy: Partial<AlertPolicy> | undefined): string | null {
+  if (!policy || typeof policy !== 'object') return 'Alert policy must be an object';
+
+  for (const field of ['dedupeWindow', 'groupWindow'] as const) {
+    const value = policy[field];
+    if (value !== undefined && !(Number.isFinite(value) && value >= 0)) {
+      return `${field} must be a non-negative number of milliseconds`;
+    }
+  }
+  const { escalateAfter } = policy;
+  if (escalateAfter !== undefined && escalateAfter !== null && !(Number.isFinite(escalateAfter) && escalateAfter > 0)) {
+    return 'escalateAfter must be a positive number of milliseconds, or null';
+  }
+  return null;
+}
+
+/**
+ * What makes two alerts the same: the rule that raised them, or otherwise
+ * their source, category and title.
+ */
+export function getAlertFingerprint(alert: Pick<Alert, 'fingerprint' | 'ruleId' | 'source' | 'category' | 'title'>): string {
+  return alert.fingerprint ?? (alert.ruleId ? `rule:${alert.ruleId}` : `${alert.source}:${alert.category}:${alert.title}`);
+}
+
+/** When the alert last occurred */
+export function getAlertTime(alert: Pick<Alert, 'createdAt' | 'lastOccurredAt'>): number {
+  return alert.lastOccurredAt ?? alert.createdAt;
+}
+
+const severityRank = (severity: AlertSeverity) => ALERT_SEVERITIES.indexOf(severity);
+
+/**
+ * Collects alerts into their incidents, most recently active first. Pass
+ * alerts that are already filtered, e.g. without dismissed ones.
+ */
+export function groupIncidents(alerts: readonly Alert[]): Incident[] {
+  const incidents = new Map<string, Alert[]>();
+  alerts.forEach((alert) => {
+    if (!alert.incidentId) return;
+    incidents.set(alert.incidentId, [...(incidents.get(alert.incidentId) ?? []), alert]);
+  });
+
+  return [...incidents.entries()]
+    .map(([id, members]) => {
+      const newest = [...members].sort((a, b) => getAlertTime(b) - getAlertTime(a));
+      const first = members.reduce((earliest, alert) => (alert.createdAt < earliest.createdAt ? alert : earliest));
+      return {
+        id,
+        title: first.title,
+        category: first.category,
+        severity: members.reduce<AlertSeverity>(
+          (highest, alert) => (severityRank(alert.severity) < severityRank(highest) ? alert.severity : highest),
+          'info'
+        ),
+        alertIds: newest.map((alert) => alert.id),
+        unreadCount: members.filter(isAlertUnread).length,
+        openedAt: first.createdAt,
+        updatedAt: getAlertTime(newest[0]),
+      };
+    })
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function isAlertUnread(alert: Pick<Alert, 'status'>): boolean {
+  return alert.status === 'active';
+}
+
+/**
+ * Applies `filter` to `alerts`, most recently occurring first.
+ */
+export function filterAlerts(alerts: readonly Alert[], filter: AlertFilter = {}): Alert[] {
+  const statuses = toList(filter.status) ?? VISIBLE_STATUSES;
+  const severities = toList(filter.severity);
+  const categories = toList(filter.category);
+  const sources = toList(filter.source);
+
+  const matches = alerts
+    .filter((alert) => statuses.includes(alert.status))
+    .filter((alert) => !severities || severities.includes(alert.severity))
+    .filter((alert) => !categories || categories.includes(alert.category))
+    .filter((alert) => !sources || sources.includes(alert.source))
+    .filter((alert) => filter.since === undefined || alert.createdAt >= filter.since)
+    .filter((alert) => filter.incidentId === undefined || alert.incidentId === filter.incidentId)
+    .sort((a, b) => getAlertTime(b) - getAlertTime(a));
+  return filter.limit === undefined ? matches : matches.slice(0, filter.limit);
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { validateConfig } from './config';
+
+describe('validateConfig', () => {
+  it('should accept a partial config', () => {
+    expect(validateConfig({ theme: 'auto' })).toBeNull();
+    expect(validateConfig({
+      locale: 'fr-CA',
+      features: { alerts: false },
+      customStyles: { '--primary': '188 16% 28%' },
+    })).toBeNull();
+  });
+
+  it('should describe the first invalid setting', () => {
+    expect(validateConfig({ theme: 'neon' as never })).toBe('Theme must be one of light, dark, auto, got "neon"');
+    expect(validateConfig({ locale: 'not a locale' })).toBe('Invalid locale "not a locale"');
+    expect(validateConfig({ features: { alerts: 'yes' as never } })).toBe(
+      'Feature flags must be booleans, got alerts=yes'
+    );
+    expect(validateConfig({ customStyles: { color: 'red' } })).toBe(
+      'Custom styles must map CSS custom properties (--name) to strings, got "color"'
+    );
+  });
+});
@@ -0,0 +1,57 @@
+import type { FeatureFlags } from './messages';
+
+export type Theme = 'light' | 'dark' | 'auto';
+
+/**
+ * Settings the host can change at runtime. CONFIG messages carry only the
+ * keys that changed; `customStyles` always replaces the previous set.
+ */
+export interface ConfigPayload {
+  theme?: Theme;
+  /** BCP 47 language tag, e.g. `en-US` */
+  locale?: string;
+  features?: FeatureFlags;
+  /** CSS custom properties for the widget root, e.g. `{ '--primary': '188 16% 28%' }` */
+  customStyles?: Record<string, string>;
+}
+
+const THEMES: Theme[] = ['light', 'dark', 'auto'];
+
+function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns a description of the first invalid setting, or null when the
+ * config can be applied.
+ */
+export function validateConfig(config: Partial<ConfigPayload> | undefined): string | null {
+  if (!config || typeof config !== 'object') {
+    return 'Config must be an object';
+  }
+  if (config.theme !== undefined && !THEMES.includes(config.theme)) {
+    return `Theme must be one of ${THEMES.join(', ')}, got "${config.theme}"`;
+  }
+  if (config.locale !== undefined && (typeof config.locale !== 'string' || !isValidLocale(config.locale))) {
+    return `Invalid locale "${config.locale}"`;
+  }
+  if (config.features !== undefined) {
+    const invalid = Object.entries(config.features ?? {}).find(([, enabled]) => typeof enabled !== 'boolean');
+    if (!config.features || invalid) {
+      return `Feature flags must be booleans${invalid ? `, got ${invalid[0]}=${String(invalid[1])}` : ''}`;
+    }
+  }
+  if (config.customStyles !== undefined) {
+    const invalid = Object.entries(config.customStyles ?? {}).find(
+      ([name, value]) => !name.startsWith('--') || typeof value !== 'string'
+    );
+    if (!config.customStyles || invalid) {
+      return `Custom styles must map CSS custom properties (--name) to strings${invalid ? `, got "${invalid[0]}"` : ''}`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getMerchantContextKey, validateMerchantContext } from './context';
+
+describe('getMerchantContextKey', () => {
+  it('should isolate locations of the same merchant', () => {
+    expect(getMerchantContextKey({ merchantId: 'bellas', locationId: 'sf' })).toBe('bellas/sf');
+    expect(getMerchantContextKey({ merchantId: 'bellas', locationId: 'oak' })).toBe('bellas/oak');
+    expect(getMerchantContextKey({ merchantId: 'bellas' })).toBe('bellas/default');
+    expect(getMerchantContextKey()).toBe('default');
+  });
+});
+
+describe('validateMerchantContext', () => {
+  it('should accept a complete context', () => {
+    expect(validateMerchantContext({
+      merchantId: 'bellas',
+      locationId: 'sf',
+      timezone: 'America/Los_Angeles',
+      currency: 'USD',
+    })).toBeNull();
+  });
+
+  it('should describe the first invalid field', () => {
+    expect(validateMerchantContext({ merchantId: ' ' })).toBe('merchantId is required');
+    expect(validateMerchantContext({ merchantId: 'bellas', timezone: 'Mars/Olympus' })).toBe(
+      'Unknown time zone "Mars/Olympus"'
+    );
+    expect(validateMerchantContext({ merchantId: 'bellas', currency: 'usd' })).toBe(
+      'Currency must be an ISO 4217 code, got "usd"'
+    );
+  });
+});
@@ -0,0 +1,45 @@
+export interface MerchantContext {
+  merchantId: string;
+  locationId?: string;
+  locationName?: string;
+  businessName?: string;
+  businessType?: 'restaurant' | 'retail' | 'cannabis' | 'service' | (string & {});
+  /** IANA time zone, e.g. `America/Denver` */
+  timezone?: string;
+  /** ISO 4217 currency code, e.g. `USD` */
+  currency?: string;
+}
+
+/**
+ * Key that isolates per-location state inside the iframe.
+ */
+export function getMerchantContextKey(context?: MerchantContext): string {
+  if (!context) return 'default';
+  return `${context.merchantId}/${context.locationId ?? 'default'}`;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns a description of the first invalid field, or null when the
+ * context can be applied. Both sides run it so errors surface early on the host.
+ */
+export function validateMerchantContext(context: Partial<MerchantContext> | undefined): string | null {
+  if (!context || typeof context.merchantId !== 'string' || context.merchantId.trim() === '') {
+    return 'merchantId is required';
+  }
+  if (context.timezone !== undefined && !isValidTimeZone(context.timezone)) {
+    return `Unknown time zone "${context.timezone}"`;
+  }
+  if (context.currency !== undefined && !/^[A-Z]{3}$/.test(context.currency)) {
+    return `Currency must be an ISO 4217 code, got "${context.currency}"`;
+  }
+  return null;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_EVENTS_PER_INGEST, validatePosEvent, validatePosEvents } from './events';
+import type { PosEvent } from './events';
+
+const order: PosEvent = { kind: 'order', id: 'o1', total: 18.5, itemCount: 2, timestamp: 1000 };
+
+describe('validatePosEvent', () => {
+  it('should accept every kind of event', () => {
+    expect(validatePosEvent(order)).toBeNull();
+    expect(validatePosEvent({ kind: 'review', id: 'r1', rating: 4, text: 'Good', timestamp: 1000 })).toBeNull();
+    expect(validatePosEvent({ kind: 'inventory', id: 'i1', sku: 'OAT-1L', quantity: 3, reorderLevel: 5, timestamp: 1000 })).toBeNull();
+    expect(validatePosEvent({ kind: 'shift', id: 's1', staffId: 'emp-7', start: 1000, end: 2000, timestamp: 1000 })).toBeNull();
+  });
+
+  it('should name the event and the field that is wrong', () => {
+    expect(validatePosEvent(undefined)).toBe('Event must be an object');
+    expect(validatePosEvent({ ...order, kind: 'refund' } as never)).toBe('Unknown event kind "refund"');
+    expect(validatePosEvent({ ...order, id: '' })).toBe('order id is required');
+    expect(validatePosEvent({ ...order, timestamp: new Date(1000) as never })).toBe(
+      'order "o1" timestamp must be epoch milliseconds'
+    );
+    expect(validatePosEvent({ ...order, total: -1 })).toBe('order "o1" total must be a non-negative number');
+    expect(validatePosEvent({ kind: 'review', id: 'r1', rating: 6, timestamp: 1000 })).toBe(
+      'review "r1" rating must be between 1 and 5'
+    );
+    expect(validatePosEvent({ kind: 'shift', id: 's1', staffId: 'emp-7', start: 2000, end: 1000, timestamp: 1000 })).toBe(
+      'shift "s1" end must be a timestamp after start'
+    );
+  });
+});
+
+describe('validatePosEvents', () => {
+  it('should check the batch and each event in it', () => {
+    expect(validatePosEvents([order])).toBeNull();
+    expect(validatePosEvents(undefined)).toBe('events must be an array');
+    expect(validatePosEvents([order, { ...order, id: 'o2', total: NaN }])).toBe('order "o2" total must be a non-negative number');
+    expect(validatePosEvents(Array.from({ length: MAX_EVENTS_PER_INGEST + 1 }, () => order))).toBe(
+      `At most ${MAX_EVENTS_PER_INGEST} events can be sent at once`
+    );
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * A sale the host pushes to the iframe. Mirrors the POS order with its
+ * time as epoch milliseconds so it survives the signed envelope.
+ */
+export interface OrderEvent {
+  kind: 'order';
+  id: string;
+  total: number;
+  itemCount?: number;
+  status?: 'pending' | 'preparing' | 'ready' | 'completed';
+  timestamp: number;
+}
+
+export interface ReviewEvent {
+  kind: 'review';
+  id: string;
+  /** 1–5 stars */
+  rating: number;
+  text?: string;
+  platform?: 'google' | 'yelp' | (string & {});
+  timestamp: number;
+}
+
+/** Stock level of one item when it was counted or changed */
+export interface InventoryEvent {
+  kind: 'inventory';
+  id: string;
+  sku: string;
+  name?: string;
+  quantity: number;
+  /** Quantity at or below which the item should be reordered */
+  reorderLevel?: number;
+  timestamp: number;
+}
+
+/** A staff shift; `end` is absent while it is still being worked */
+export interface ShiftEvent {
+  kind: 'shift';
+  id: string;
+  staffId: string;
+  role?: string;
+  start: number;
+  end?: number;
+  timestamp: number;
+}
+
+export type PosEvent = OrderEvent | ReviewEvent | InventoryEvent | ShiftEvent;
+
+export type PosEventKind = PosEvent['kind'];
+
+export const POS_EVENT_KINDS: readonly PosEventKind[] = ['order', 'review', 'inventory', 'shift'];
+
+/** Most events one `events.ingest` call may carry */
+export const MAX_EVENTS_PER_INGEST = 500;
+
+export interface EventsIngestParams {
+  events: PosEvent[];
+  /**
+   * Key of the merchant context the events were recorded in, from
+   * `getMerchantContextKey`; the iframe's current context when omitted
+   */
+  contextKey?: string;
+}
+
+export interface EventsIngestResult {
+  /** Events the iframe had not seen before; resent ones only replace their earlier copy */
+  accepted: number;
+  /** Alerts the rules raised for these events */
+  alertIds: string[];
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isText = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+
+function validateFields(event: PosEvent): string | null {
+  switch (event.kind) {
+    case 'order':
+      if (!isNumber(event.total) || event.total < 0) return 'total must be a non-negative number';
+      if (!isOptional(event.itemCount, (count) => Number.isInteger(count) && (count as number) >= 0)) {
+        return 'itemCount must be a non-negative integer';
+      }
+      return null;
+    case 'review':
+      if (!isNumber(event.rating) || event.rating < 1 || event.rating > 5) return 'rating must be between 1 and 5';
+      if (!isOptional(event.text, (text) => typeof text === 'string')) return 'text must be a string';
+      return null;
+    case 'inventory':
+      if (!isText(event.sku)) return 'sku is required';
+      if (!isNumber(event.quantity)) return 'quantity must be a number';
+      if (!isOptional(event.reorderLevel, isNumber)) return 'reorderLevel must be a number';
+      return null;
+    case 'shift':
+      if (!isText(event.staffId)) return 'staffId is required';
+      if (!isNumber(event.start)) return 'start must be a timestamp';
+      if (!isOptional(event.end, (end) => isNumber(end) && end >= event.start)) {
+        return 'end must be a timestamp after start';
+      }
+      return null;
+  }
+}
+
+/**
+ * Returns a description of the first invalid event, or null. The SDK checks
+ * each event as it is handed over and the iframe checks every batch again.
+ */
+export function validatePosEvent(event: PosEvent | undefined): string | null {
+  if (!event || typeof event !== 'object') return 'Event must be an object';
+  if (!POS_EVENT_KINDS.includes(event.kind)) return `Unknown event kind "${(event as { kind?: unknown }).kind}"`;
+  if (!isText(event.id)) return `${event.kind} id is required`;
+  if (!isNumber(event.timestamp)) return `${event.kind} "${event.id}" timestamp must be epoch milliseconds`;
+
+  const error = validateFields(event);
+  return error ? `${event.kind} "${event.id}" ${error}` : null;
+}
+
+export function validatePosEvents(events: PosEvent[] | undefined): string | null {
+  if (!Array.isArray(events)) return 'events must be an array';
+  if (events.length > MAX_EVENTS_PER_INGEST) return `At most ${MAX_EVENTS_PER_INGEST} events can be sent at once`;
+
+  for (const event of events) {
+    const error = validatePosEvent(event);
+    if (error) return error;
+  }
+  return null;
+}
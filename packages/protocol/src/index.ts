@@ -0,0 +1,12 @@
+export * from './messages';
+export * from './alerts';
+export * from './events';
+export * from './rules';
+export * from './notifications';
+export * from './context';
+export * from './config';
+export * from './views';
+export * from './intelligence';
+export * from './version';
+export * from './rpc';
+export * from './security';
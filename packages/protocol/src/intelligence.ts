@@ -0,0 +1,38 @@
+import type { AlertSummary } from './messages';
+
+export interface AlertState extends AlertSummary {
+  unread: boolean;
+}
+
+export interface SentimentSummary {
+  /** Average rating on a 0–5 scale */
+  score: number;
+  /** Change since the previous period */
+  change?: number;
+  reviewCount?: number;
+}
+
+export interface Insight {
+  id: string;
+  title: string;
+  detail: string;
+  source?: 'orders' | 'reviews' | 'competitors' | 'reddit';
+}
+
+export interface UrgentAction {
+  id: string;
+  title: string;
+  /** Alert that prompted the action, if any */
+  alertId?: string;
+}
+
+/**
+ * Everything the widget currently shows for the active merchant, returned by
+ * `intelligence.getSnapshot`. Later changes arrive as events.
+ */
+export interface IntelligenceSnapshot {
+  alerts: AlertState[];
+  sentiment: SentimentSummary | null;
+  insights: Insight[];
+  urgentActions: UrgentAction[];
+}
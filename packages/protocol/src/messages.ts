@@ -0,0 +1,183 @@
+export const MessageType = {
+  HANDSHAKE: 'HANDSHAKE',
+  READY: 'READY',
+  ERROR: 'ERROR',
+  CONFIG: 'CONFIG',
+  TOKEN_EXPIRING: 'TOKEN_EXPIRING',
+  TRIGGER_SCENARIO: 'TRIGGER_SCENARIO',
+  ALERT_NEW: 'ALERT_NEW',
+  ALERT_ACKNOWLEDGED: 'ALERT_ACKNOWLEDGED',
+  /** Any change to an alert, including new ones; carries the full alert */
+  ALERT_UPDATED: 'ALERT_UPDATED',
+  /** An unacknowledged alert was raised to a higher severity */
+  ALERT_ESCALATED: 'ALERT_ESCALATED',
+  /** Alerts the host should announce on its own channels, per the merchant's preferences */
+  NOTIFICATION: 'NOTIFICATION',
+  SENTIMENT_UPDATED: 'SENTIMENT_UPDATED',
+  INSIGHTS_UPDATED: 'INSIGHTS_UPDATED',
+  URGENT_ACTIONS_UPDATED: 'URGENT_ACTIONS_UPDATED',
+  VIEW_CHANGED: 'VIEW_CHANGED',
+  RESIZE: 'RESIZE',
+  /** The iframe asks the host to close the floating panel or drawer, e.g. on Escape */
+  DISMISS: 'DISMISS',
+  SECURITY_VIOLATION: 'SECURITY_VIOLATION',
+  /** Host heartbeat; the iframe answers every PING with a PONG */
+  PING: 'PING',
+  PONG: 'PONG',
+  RPC_REQUEST: 'RPC_REQUEST',
+  RPC_RESPONSE: 'RPC_RESPONSE',
+  RPC_CANCEL: 'RPC_CANCEL',
+} as const;
+
+export type MessageType = (typeof MessageType)[keyof typeof MessageType];
+
+/**
+ * Methods callable through the RPC layer, named `<area>.<action>`.
+ */
+export const RpcMethod = {
+  AUTHENTICATE: 'auth.authenticate',
+  SET_MERCHANT_CONTEXT: 'context.set',
+  VIEW_SWITCH: 'view.switch',
+  ALERTS_LIST: 'alerts.list',
+  ALERTS_GET_UNREAD_COUNT: 'alerts.getUnreadCount',
+  ALERTS_ACKNOWLEDGE: 'alerts.acknowledge',
+  ALERTS_SNOOZE: 'alerts.snooze',
+  ALERTS_DISMISS: 'alerts.dismiss',
+  ALERTS_LIST_INCIDENTS: 'alerts.listIncidents',
+  ALERTS_GET_POLICY: 'alerts.getPolicy',
+  ALERTS_SET_POLICY: 'alerts.setPolicy',
+  RULES_GET: 'rules.get',
+  RULES_SET: 'rules.set',
+  EVENTS_INGEST: 'events.ingest',
+  NOTIFICATIONS_GET_PREFERENCES: 'notifications.getPreferences',
+  NOTIFICATIONS_SET_PREFERENCES: 'notifications.setPreferences',
+  INTELLIGENCE_GET_SNAPSHOT: 'intelligence.getSnapshot',
+} as const;
+
+export type RpcMethod = (typeof RpcMethod)[keyof typeof RpcMethod];
+
+export interface Envelope<T = any> {
+  type: string;
+  subtype?: string;
+  action?: string;
+  payload?: T;
+  timestamp: number;
+  id: string;
+  /** Widget instance the message belongs to, from the handshake */
+  channel?: string;
+  sequence?: number;
+  signature?: string;
+}
+
+export interface FeatureFlags {
+  alerts?: boolean;
+  businessSentiment?: boolean;
+  competitorAnalysis?: boolean;
+  redditMonitoring?: boolean;
+}
+
+/**
+ * Optional protocol behaviours. Both sides declare what they support and the
+ * session uses the intersection.
+ */
+export type Capability = 'rpc' | 'events' | 'resize';
+
+export interface ProtocolRange {
+  min: number;
+  max: number;
+}
+
+export interface HandshakePayload {
+  apiKey: string;
+  features: FeatureFlags;
+  protocol: ProtocolRange;
+  capabilities: Capability[];
+  /** ECDH public key used to derive the session signing key */
+  publicKey: JsonWebKey;
+  /** Id the iframe stamps on everything it sends, so hosts with several widgets can tell them apart */
+  channel?: string;
+}
+
+export interface ReadyPayload {
+  protocolVersion: number;
+  capabilities: Capability[];
+  features: FeatureFlags;
+  publicKey: JsonWebKey;
+}
+
+export interface ErrorPayload {
+  code: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface AuthenticateParams {
+  token: string;
+  merchantId?: string;
+}
+
+export interface AuthenticateResult {
+  expiresAt?: number;
+  merchantId?: string;
+}
+
+export interface PongPayload {
+  /** Id of the PING being answered */
+  pingId: string;
+}
+
+export interface AlertSnoozeParams {
+  alertId: string;
+  /** Epoch milliseconds at which the alert counts as unread again */
+  until: number;
+}
+
+export interface TokenExpiringPayload {
+  expiresAt: number;
+}
+
+/**
+ * Content size of the widget in CSS pixels, sent when the `resize`
+ * capability was negotiated.
+ */
+export interface ResizePayload {
+  height: number;
+  width?: number;
+}
+
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+
+export interface AlertSummary {
+  id: string;
+  title: string;
+  message: string;
+  severity: AlertSeverity;
+  /** Merchant context the alert belongs to (see `getMerchantContextKey`); may not be the one on screen */
+  contextKey?: string;
+}
+
+export function createMessageId(): string {
+  return `msg_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function createChannelId(): string {
+  return `ch_${Math.random().toString(36).slice(2, 11)}${Math.random().toString(36).slice(2, 11)}`;
+}
+
+export function createEnvelope<T>(type: string, payload?: T): Envelope<T> {
+  return {
+    type,
+    payload,
+    id: createMessageId(),
+    timestamp: Date.now(),
+  };
+}
+
+export function isEnvelope(data: unknown): data is Envelope {
+  return (
+    !!data &&
+    typeof data === 'object' &&
+    typeof (data as Envelope).type === 'string' &&
+    typeof (data as Envelope).id === 'string'
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  getNotificationChannels,
+  getQuietHoursEnd,
+  isQuietTime,
+  mergeNotificationPreferences,
+  validateNotificationPreferences,
+} from './notifications';
+
+const overnight = { start: '22:00', end: '07:00' };
+
+describe('notification preferences', () => {
+  it('should describe invalid updates', () => {
+    expect(validateNotificationPreferences({ quietHours: overnight, channels: { info: [] } })).toBeNull();
+    expect(validateNotificationPreferences(undefined)).toBe('Notification preferences must be an object');
+    expect(validateNotificationPreferences({ channels: { info: ['pager' as never] } })).toBe(
+      'Unknown notification channel "pager"'
+    );
+    expect(validateNotificationPreferences({ categories: { weather: [] } as never })).toBe(
+      'Unknown categories key "weather"'
+    );
+    expect(validateNotificationPreferences({ quietHours: { start: '24:00', end: '07:00' } })).toBe(
+      'quietHours.start must be a time like "22:00"'
+    );
+    expect(validateNotificationPreferences({ digest: { interval: 0 } })).toBe(
+      'digest.interval must be a positive number of milliseconds, at most 7 days'
+    );
+    expect(validateNotificationPreferences({ digest: { interval: 2 ** 31 } })).toBe(
+      'digest.interval must be a positive number of milliseconds, at most 7 days'
+    );
+    expect(validateNotificationPreferences({ webhooks: { sms: { url: 'http://hooks.example.com', to: '+15550100' } } })).toBe(
+      'webhooks.sms.url must be an https URL'
+    );
+  });
+
+  it('should merge updates and clear overrides set to null', () => {
+    const withOverride = mergeNotificationPreferences(DEFAULT_NOTIFICATION_PREFERENCES, {
+      channels: { info: ['widget'] },
+      categories: { reviews: ['email'] },
+      webhooks: { email: { url: 'https://hooks.example.com/email', to: 'owner@example.com' } },
+    });
+
+    expect(withOverride.channels).toEqual({ ...DEFAULT_NOTIFICATION_PREFERENCES.channels, info: ['widget'] });
+    expect(getNotificationChannels(withOverride, { severity: 'critical', category: 'reviews' })).toEqual(['email']);
+    expect(getNotificationChannels(withOverride, { severity: 'critical', category: 'staffing' })).toEqual([
+      'widget',
+      'toast',
+      'browser',
+    ]);
+
+    const cleared = mergeNotificationPreferences(withOverride, { categories: { reviews: null }, webhooks: { email: null } });
+    expect(cleared.categories).toEqual({});
+    expect(cleared.webhooks).toEqual({});
+  });
+
+  it('should read quiet hours in the merchant time zone', () => {
+    // 01:30 in New York, 05:30 UTC
+    const night = Date.UTC(2024, 5, 1, 5, 30);
+
+    expect(isQuietTime(overnight, night, 'America/New_York')).toBe(true);
+    expect(getQuietHoursEnd(overnight, night, 'America/New_York')).toBe(Date.UTC(2024, 5, 1, 11));
+    expect(isQuietTime(overnight, Date.UTC(2024, 5, 1, 11), 'America/New_York')).toBe(false);
+    expect(isQuietTime({ start: '13:00', end: '14:00' }, Date.UTC(2024, 5, 1, 13, 59), 'UTC')).toBe(true);
+    expect(isQuietTime(null, night)).toBe(false);
+  });
+});
@@ -0,0 +1,272 @@
+import { ALERT_CATEGORIES, ALERT_SEVERITIES } from './alerts';
+import type { Alert, AlertCategory } from './alerts';
+import type { AlertSeverity } from './messages';
+
+/**
+ * Where a notification can go: a banner inside the widget, a toast on the
+ * host page, a browser Notification, or an email or SMS webhook.
+ */
+export const NOTIFICATION_CHANNELS = ['widget', 'toast', 'browser', 'email', 'sms'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/** Channels the host page delivers; the iframe handles the others */
+export const HOST_NOTIFICATION_CHANNELS: readonly NotificationChannel[] = ['toast', 'browser'];
+
+export const WEBHOOK_CHANNELS = ['email', 'sms'] as const;
+
+export type WebhookChannel = (typeof WEBHOOK_CHANNELS)[number];
+
+/**
+ * A daily window, in the merchant's time zone, when notifications wait
+ * instead of going out. Times are `HH:MM`; a window may cross midnight.
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+  /** Critical alerts still go out during quiet hours */
+  allowCritical?: boolean;
+}
+
+export interface DigestSettings {
+  /** Severities batched into one notification instead of one each */
+  severities: AlertSeverity[];
+  /** Milliseconds between digests */
+  interval: number;
+}
+
+/**
+ * HTTPS endpoint that receives a JSON POST for each email or SMS
+ * notification and does the actual sending. The backend relays the POST;
+ * the widget never calls it directly.
+ */
+export interface NotificationWebhook {
+  url: string;
+  /** Email address or phone number handed to the webhook */
+  to: string;
+}
+
+/**
+ * How one location is told about its alerts. The widget banner is never
+ * held back; other channels wait out quiet hours and digests.
+ */
+export interface NotificationPreferences {
+  channels: Record<AlertSeverity, NotificationChannel[]>;
+  /** Channels used for a category instead of its alert's severity */
+  categories: Partial<Record<AlertCategory, NotificationChannel[]>>;
+  quietHours: QuietHours | null;
+  digest: DigestSettings;
+  /** Email and SMS channels are skipped until their webhook is set */
+  webhooks: Partial<Record<WebhookChannel, NotificationWebhook>>;
+}
+
+/**
+ * A change to the preferences. Fields left out keep their value; null clears
+ * a category override or webhook.
+ */
+export interface NotificationPreferencesUpdate {
+  channels?: Partial<Record<AlertSeverity, NotificationChannel[]>>;
+  categories?: Partial<Record<AlertCategory, NotificationChannel[] | null>>;
+  quietHours?: QuietHours | null;
+  digest?: Partial<DigestSettings>;
+  webhooks?: Partial<Record<WebhookChannel, NotificationWebhook | null>>;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {
+    critical: ['widget', 'toast', 'browser'],
+    warning: ['widget', 'toast'],
+    info: ['widget', 'toast'],
+  },
+  categories: {},
+  quietHours: null,
+  digest: { severities: ['info'], interval: 60 * 60000 },
+  webhooks: {},
+};
+
+/**
+ * Sent by the iframe for alerts the host should announce. Digests carry
+ * every alert that was held back.
+ */
+export interface NotificationPayload {
+  alerts: Alert[];
+  /** Host channels to use */
+  channels: NotificationChannel[];
+  digest: boolean;
+  /** Merchant context the alerts belong to (see `getMerchantContextKey`); may not be the one on screen */
+  contextKey?: string;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 24 * 60 * 60000;
+
+/** Longest digest interval; timers cannot wait longer than 2^31-1 ms */
+export const MAX_DIGEST_INTERVAL = 7 * DAY_MS;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function validateChannelMap(
+  field: string,
+  value: unknown,
+  keys: readonly string[],
+  allowNull: boolean
+): string | null {
+  if (!isObject(value)) return `${field} must be an object`;
+
+  for (const [key, channels] of Object.entries(value)) {
+    if (!keys.includes(key)) return `Unknown ${field} key "${key}"`;
+    if (channels === null && allowNull) continue;
+    if (!Array.isArray(channels)) return `${field}.${key} must be a list of channels`;
+    const unknown = channels.find((channel) => !(NOTIFICATION_CHANNELS as readonly unknown[]).includes(channel));
+    if (unknown !== undefined) return `Unknown notification channel "${unknown}"`;
+  }
+  return null;
+}
+
+function validateQuietHours(quietHours: unknown): string | null {
+  if (quietHours === null) return null;
+  if (!isObject(quietHours)) return 'quietHours must be an object or null';
+
+  for (const field of ['start', 'end'] as const) {
+    const time = quietHours[field];
+    if (typeof time !== 'string' || !TIME_PATTERN.test(time)) {
+      return `quietHours.${field} must be a time like "22:00"`;
+    }
+  }
+  if (quietHours.allowCritical !== undefined && typeof quietHours.allowCritical !== 'boolean') {
+    return 'quietHours.allowCritical must be a boolean';
+  }
+  return null;
+}
+
+function validateWebhooks(webhooks: unknown): string | null {
+  if (!isObject(webhooks)) return 'webhooks must be an object';
+
+  for (const [channel, webhook] of Object.entries(webhooks)) {
+    if (!(WEBHOOK_CHANNELS as readonly string[]).includes(channel)) return `Unknown webhook channel "${channel}"`;
+    if (webhook === null) continue;
+    if (!isObject(webhook)) return `webhooks.${channel} must be an object or null`;
+
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(String(webhook.url)).protocol;
+    } catch {
+      protocol = undefined;
+    }
+    if (protocol !== 'https:') {
+      return `webhooks.${channel}.url must be an https URL`;
+    }
+    if (typeof webhook.to !== 'string' || webhook.to.trim() === '') {
+      return `webhooks.${channel}.to is required`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Returns a description of the first invalid field of a preferences update,
+ * or null. Both sides run it.
+ */
+export function validateNotificationPreferences(update: NotificationPreferencesUpdate | undefined): string | null {
+  if (!isObject(update)) return 'Notification preferences must be an object';
+
+  if (update.channels !== undefined) {
+    const error = validateChannelMap('channels', update.channels, ALERT_SEVERITIES, false);
+    if (error) return error;
+  }
+  if (update.categories !== undefined) {
+    const error = validateChannelMap('categories', update.categories, ALERT_CATEGORIES, true);
+    if (error) return error;
+  }
+  if (update.quietHours !== undefined) {
+    const error = validateQuietHours(update.quietHours);
+    if (error) return error;
+  }
+  if (update.digest !== undefined) {
+    if (!isObject(update.digest)) return 'digest must be an object';
+    const { severities, interval } = update.digest;
+    if (severities !== undefined) {
+      if (!Array.isArray(severities)) return 'digest.severities must be a list of severities';
+      const unknown = severities.find((severity) => !(ALERT_SEVERITIES as readonly unknown[]).includes(severity));
+      if (unknown !== undefined) return `Unknown alert severity "${unknown}"`;
+    }
+    if (interval !== undefined && !(typeof interval === 'number' && interval > 0 && interval <= MAX_DIGEST_INTERVAL)) {
+      return 'digest.interval must be a positive number of milliseconds, at most 7 days';
+    }
+  }
+  if (update.webhooks !== undefined) {
+    const error = validateWebhooks(update.webhooks);
+    if (error) return error;
+  }
+  return null;
+}
+
+function mergeNullable<K extends string, V>(current: Partial<Record<K, V>>, changes: Partial<Record<K, V | null>>) {
+  const merged: Partial<Record<K, V>> = { ...current };
+  (Object.keys(changes) as K[]).forEach((key) => {
+    const value = changes[key];
+    if (value === null) {
+      delete merged[key];
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+  return merged;
+}
+
+/** Applies a validated update to `current` */
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  update: NotificationPreferencesUpdate
+): NotificationPreferences {
+  return {
+    channels: { ...current.channels, ...update.channels },
+    categories: mergeNullable(current.categories, update.categories ?? {}),
+    quietHours: update.quietHours === undefined ? current.quietHours : update.quietHours,
+    digest: { ...current.digest, ...update.digest },
+    webhooks: mergeNullable(current.webhooks, update.webhooks ?? {}),
+  };
+}
+
+/** Channels an alert goes to: its category's override, else its severity's */
+export function getNotificationChannels(
+  preferences: NotificationPreferences,
+  alert: Pick<Alert, 'severity' | 'category'>
+): NotificationChannel[] {
+  return preferences.categories[alert.category] ?? preferences.channels[alert.severity];
+}
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// Milliseconds since local midnight in `timeZone`; the runtime's zone when absent
+function getTimeOfDay(time: number, timeZone?: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(time);
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value ?? 0);
+  return ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + (time % 1000);
+}
+
+/** Whether `time` falls inside the quiet hours, read in `timeZone` */
+export function isQuietTime(quietHours: QuietHours | null, time: number, timeZone?: string): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+
+  const now = getTimeOfDay(time, timeZone);
+  const start = toMinutes(quietHours.start) * 60000;
+  const end = toMinutes(quietHours.end) * 60000;
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * When the quiet hours around `time` end, in epoch milliseconds. Ignores a
+ * daylight saving shift inside the window.
+ */
+export function getQuietHoursEnd(quietHours: QuietHours, time: number, timeZone?: string): number {
+  const end = toMinutes(quietHours.end) * 60000;
+  return time + ((end - getTimeOfDay(time, timeZone) + DAY_MS) % DAY_MS);
+}
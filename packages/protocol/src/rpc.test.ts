@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RpcEndpoint, RpcError } from './rpc';
+import type { RpcEnvelope } from './rpc';
+
+// Wires two endpoints together the way window.postMessage would: asynchronously
+function createPair() {
+  let host: RpcEndpoint;
+  let iframe: RpcEndpoint;
+  const deliver = (target: () => RpcEndpoint) => (message: RpcEnvelope) => {
+    queueMicrotask(() => target().handleMessage(message));
+  };
+
+  host = new RpcEndpoint(deliver(() => iframe), 50);
+  iframe = new RpcEndpoint(deliver(() => host), 50);
+
+  return { host, iframe };
+}
+
+describe('RpcEndpoint', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve calls with the remote result', async () => {
+    const { host, iframe } = createPair();
+    iframe.register('alerts.getUnreadCount', () => 3);
+
+    await expect(host.call('alerts.getUnreadCount')).resolves.toBe(3);
+  });
+
+  it('should work in both directions', async () => {
+    const { host, iframe } = createPair();
+    host.register('host.getLocation', (params) => ({ id: params.id, name: 'Main St' }));
+
+    await expect(iframe.call('host.getLocation', { id: 'loc_1' })).resolves.toEqual({
+      id: 'loc_1',
+      name: 'Main St',
+    });
+  });
+
+  it('should propagate remote errors as structured RpcErrors', async () => {
+    const { host, iframe } = createPair();
+    iframe.register('alerts.acknowledge', () => {
+      throw new RpcError('NOT_FOUND', 'Alert not found', { alertId: 'x' });
+    });
+
+    const error = await host.call('alerts.acknowledge', { alertId: 'x' }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(RpcError);
+    expect(error).toMatchObject({ code: 'NOT_FOUND', message: 'Alert not found', data: { alertId: 'x' } });
+  });
+
+  it('should reject unknown methods', async () => {
+    const { host } = createPair();
+
+    await expect(host.call('nope')).rejects.toMatchObject({ code: 'METHOD_NOT_FOUND' });
+  });
+
+  it('should time out when no reply arrives', async () => {
+    vi.useFakeTimers();
+    const endpoint = new RpcEndpoint(() => {});
+
+    const result = endpoint.call('slow', undefined, { timeout: 1000 });
+    vi.advanceTimersByTime(1000);
+
+    await expect(result).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('should cancel a call and abort the remote handler', async () => {
+    const { host, iframe } = createPair();
+    let remoteSignal: AbortSignal | undefined;
+    iframe.register('slow', (_params, { signal }) => {
+      remoteSignal = signal;
+      return new Promise(() => {});
+    });
+
+    const controller = new AbortController();
+    const result = host.call('slow', undefined, { signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    await expect(result).rejects.toMatchObject({ code: 'CANCELLED' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(remoteSignal?.aborted).toBe(true);
+  });
+
+  it('should reject pending calls on cancelAll', async () => {
+    const endpoint = new RpcEndpoint(() => {});
+
+    const result = endpoint.call('pending');
+    endpoint.cancelAll('DESTROYED', 'gone');
+
+    await expect(result).rejects.toMatchObject({ code: 'DESTROYED' });
+  });
+});
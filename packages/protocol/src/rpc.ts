@@ -0,0 +1,212 @@
+import { MessageType, createMessageId } from './messages';
+
+const { RPC_REQUEST, RPC_RESPONSE, RPC_CANCEL } = MessageType;
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export interface RpcErrorShape {
+  code: string;
+  message: string;
+  data?: unknown;
+}
+
+export interface RpcEnvelope {
+  type: string;
+  id: string;
+  payload?: any;
+}
+
+export interface RpcCallOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+}
+
+export interface RpcHandlerContext {
+  signal: AbortSignal;
+}
+
+export type RpcHandler = (params: any, context: RpcHandlerContext) => unknown;
+
+export class RpcError extends Error {
+  readonly code: string;
+  readonly data?: unknown;
+
+  constructor(code: string, message: string, data?: unknown) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.data = data;
+  }
+
+  toJSON(): RpcErrorShape {
+    return { code: this.code, message: this.message, data: this.data };
+  }
+}
+
+interface PendingCall {
+  resolve: (value: any) => void;
+  reject: (error: RpcError) => void;
+  timer: ReturnType<typeof setTimeout>;
+  cleanup: () => void;
+}
+
+function toErrorShape(error: unknown): RpcErrorShape {
+  if (error instanceof RpcError) {
+    return error.toJSON();
+  }
+  if (error instanceof Error) {
+    return { code: 'HANDLER_ERROR', message: error.message };
+  }
+  return { code: 'HANDLER_ERROR', message: String(error) };
+}
+
+/**
+ * Promise-based request/response over a fire-and-forget transport such as
+ * postMessage. Replies are matched to calls by the request message id.
+ */
+export class RpcEndpoint {
+  private pending = new Map<string, PendingCall>();
+  private handlers = new Map<string, RpcHandler>();
+  private inflight = new Map<string, AbortController>();
+
+  constructor(
+    private send: (message: RpcEnvelope) => void,
+    private defaultTimeout: number = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  call<T = unknown>(method: string, params?: unknown, options: RpcCallOptions = {}): Promise<T> {
+    const { signal, timeout = this.defaultTimeout } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new RpcError('CANCELLED', `Call to "${method}" was cancelled`));
+    }
+
+    const id = createMessageId();
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id);
+        this.send({ type: RPC_CANCEL, id: createMessageId(), payload: { requestId: id } });
+        reject(new RpcError('CANCELLED', `Call to "${method}" was cancelled`));
+      };
+
+      const timer = setTimeout(() => {
+        this.settle(id);
+        reject(new RpcError('TIMEOUT', `Call to "${method}" timed out after ${timeout}ms`));
+      }, timeout);
+
+      signal?.addEventListener('abort', onAbort);
+
+      this.pending.set(id, {
+        resolve,
+        reject,
+        timer,
+        cleanup: () => signal?.removeEventListener('abort', onAbort),
+      });
+
+      this.send({ type: RPC_REQUEST, id, payload: { method, params } });
+    });
+  }
+
+  /**
+   * Registers a handler for calls made by the other side. Returns a function
+   * that unregisters it.
+   */
+  register(method: string, handler: RpcHandler): () => void {
+    this.handlers.set(method, handler);
+    return () => {
+      if (this.handlers.get(method) === handler) {
+        this.handlers.delete(method);
+      }
+    };
+  }
+
+  /**
+   * Routes an incoming message. Returns true when the message belonged to the
+   * RPC layer and needs no further handling.
+   */
+  handleMessage(message: RpcEnvelope): boolean {
+    switch (message.type) {
+      case RPC_REQUEST:
+        void this.handleRequest(message);
+        return true;
+      case RPC_RESPONSE:
+        this.handleResponse(message);
+        return true;
+      case RPC_CANCEL:
+        this.inflight.get(message.payload?.requestId)?.abort();
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Rejects every outstanding call and aborts handlers still running.
+   */
+  cancelAll(code = 'CANCELLED', message = 'All pending calls were cancelled'): void {
+    Array.from(this.pending.entries()).forEach(([id, call]) => {
+      this.settle(id);
+      call.reject(new RpcError(code, message));
+    });
+    this.inflight.forEach((controller) => controller.abort());
+    this.inflight.clear();
+  }
+
+  private async handleRequest(message: RpcEnvelope): Promise<void> {
+    const { method, params } = message.payload ?? {};
+    const handler = this.handlers.get(method);
+
+    const respond = (payload: { result?: unknown; error?: RpcErrorShape }) => {
+      this.send({
+        type: RPC_RESPONSE,
+        id: createMessageId(),
+        payload: { requestId: message.id, ...payload },
+      });
+    };
+
+    if (!handler) {
+      respond({ error: { code: 'METHOD_NOT_FOUND', message: `Unknown method "${method}"` } });
+      return;
+    }
+
+    const controller = new AbortController();
+    this.inflight.set(message.id, controller);
+
+    try {
+      const result = await handler(params, { signal: controller.signal });
+      if (!controller.signal.aborted) {
+        respond({ result });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        respond({ error: toErrorShape(error) });
+      }
+    } finally {
+      this.inflight.delete(message.id);
+    }
+  }
+
+  private handleResponse(message: RpcEnvelope): void {
+    const { requestId, result, error } = message.payload ?? {};
+    const call = this.pending.get(requestId);
+    if (!call) return;
+
+    this.settle(requestId);
+
+    if (error) {
+      call.reject(new RpcError(error.code, error.message, error.data));
+    } else {
+      call.resolve(result);
+    }
+  }
+
+  private settle(id: string): void {
+    const call = this.pending.get(id);
+    if (!call) return;
+
+    clearTimeout(call.timer);
+    call.cleanup();
+    this.pending.delete(id);
+  }
+}
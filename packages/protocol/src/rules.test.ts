@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { validateAlertRules } from './rules';
+import type { AlertRule } from './rules';
+
+const rule: AlertRule = {
+  id: 'order-surge',
+  name: 'Order surge',
+  condition: { type: 'compare', metric: 'order.count', window: 1800000, baseline: 86400000, operator: '>=', ratio: 1.5 },
+  alert: { title: 'Order surge', severity: 'warning', category: 'operations' },
+};
+
+describe('validateAlertRules', () => {
+  it('should accept nested compound conditions', () => {
+    expect(validateAlertRules([
+      {
+        ...rule,
+        condition: {
+          type: 'all',
+          conditions: [
+            rule.condition,
+            { type: 'any', conditions: [{ type: 'threshold', metric: 'review.negativeCount', window: 3600000, operator: '>', value: 0 }] },
+          ],
+        },
+      },
+    ])).toBeNull();
+  });
+
+  it('should describe the first invalid field with its path', () => {
+    expect(validateAlertRules(undefined)).toBe('rules must be an array');
+    expect(validateAlertRules([rule, rule])).toBe('Duplicate rule id "order-surge"');
+    expect(validateAlertRules([{ ...rule, condition: { type: 'all', conditions: [] } }]))
+      .toBe('rules[0].condition.conditions must list at least one condition');
+    expect(validateAlertRules([{ ...rule, condition: { ...rule.condition, metric: 'order.tips' as never } }]))
+      .toBe('rules[0].condition.metric "order.tips" is not a rule metric');
+    expect(validateAlertRules([{ ...rule, condition: { ...rule.condition, baseline: 0 } as never }]))
+      .toBe('rules[0].condition.baseline must be a positive number of milliseconds');
+    expect(validateAlertRules([{ ...rule, alert: { ...rule.alert, severity: 'urgent' as never } }]))
+      .toBe('rules[0].alert.severity "urgent" is not an alert severity');
+  });
+});
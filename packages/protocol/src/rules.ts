@@ -0,0 +1,166 @@
+import { ALERT_CATEGORIES, ALERT_SEVERITIES } from './alerts';
+import type { AlertCategory } from './alerts';
+import type { AlertSeverity } from './messages';
+
+/**
+ * Figures a rule can watch. Counts and sums scale with the window length;
+ * averages do not.
+ */
+export const RULE_METRICS = [
+  'order.count',
+  'order.revenue',
+  'order.averageValue',
+  'review.count',
+  'review.averageRating',
+  // Reviews of two stars or fewer
+  'review.negativeCount',
+] as const;
+
+export type RuleMetric = (typeof RULE_METRICS)[number];
+
+export const RULE_OPERATORS = ['>', '>=', '<', '<=', '='] as const;
+
+export type RuleOperator = (typeof RULE_OPERATORS)[number];
+
+/** `metric` over the last `window` milliseconds against a fixed value */
+export interface ThresholdCondition {
+  type: 'threshold';
+  metric: RuleMetric;
+  window: number;
+  operator: RuleOperator;
+  value: number;
+}
+
+/**
+ * `metric` over the last `window` against its usual level in the
+ * `baseline` milliseconds before that, e.g. this hour against the past week.
+ * Fires when current ÷ usual compares true with `ratio`.
+ */
+export interface CompareCondition {
+  type: 'compare';
+  metric: RuleMetric;
+  window: number;
+  baseline: number;
+  operator: RuleOperator;
+  ratio: number;
+}
+
+/**
+ * Percentage change of `metric` from the previous `window` to the latest
+ * one, e.g. `{ operator: '<=', percent: -20 }` for a 20% drop.
+ */
+export interface RateOfChangeCondition {
+  type: 'rateOfChange';
+  metric: RuleMetric;
+  window: number;
+  operator: RuleOperator;
+  percent: number;
+}
+
+export interface CompoundCondition {
+  type: 'all' | 'any';
+  conditions: RuleCondition[];
+}
+
+export type RuleCondition = ThresholdCondition | CompareCondition | RateOfChangeCondition | CompoundCondition;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  /** Defaults to true */
+  enabled?: boolean;
+  condition: RuleCondition;
+  alert: {
+    title: string;
+    /** Shown above the explanation of why the rule fired */
+    message?: string;
+    severity: AlertSeverity;
+    category: AlertCategory;
+  };
+  /** Milliseconds before the rule may fire again (default 5 minutes); repeats roll up into the unread alert */
+  cooldown?: number;
+}
+
+export interface RulesSetParams {
+  rules: AlertRule[];
+}
+
+export function isCompoundCondition(condition: RuleCondition): condition is CompoundCondition {
+  return condition.type === 'all' || condition.type === 'any';
+}
+
+const isPositive = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+function validateCondition(condition: RuleCondition | undefined, path: string): string | null {
+  if (!condition || typeof condition !== 'object') return `${path} is required`;
+
+  if (isCompoundCondition(condition)) {
+    if (!Array.isArray(condition.conditions) || condition.conditions.length === 0) {
+      return `${path}.conditions must list at least one condition`;
+    }
+    for (const [index, child] of condition.conditions.entries()) {
+      const error = validateCondition(child, `${path}.conditions[${index}]`);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  if (condition.type !== 'threshold' && condition.type !== 'compare' && condition.type !== 'rateOfChange') {
+    return `${path}.type "${(condition as { type?: string }).type}" is not a condition type`;
+  }
+  if (!RULE_METRICS.includes(condition.metric)) {
+    return `${path}.metric "${condition.metric}" is not a rule metric`;
+  }
+  if (!RULE_OPERATORS.includes(condition.operator)) {
+    return `${path}.operator "${condition.operator}" is not supported`;
+  }
+  if (!isPositive(condition.window)) {
+    return `${path}.window must be a positive number of milliseconds`;
+  }
+
+  const [field, value] =
+    condition.type === 'threshold' ? ['value', condition.value]
+    : condition.type === 'compare' ? ['ratio', condition.ratio]
+    : ['percent', condition.percent];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return `${path}.${field} must be a number`;
+  }
+  if (condition.type === 'compare' && !isPositive(condition.baseline)) {
+    return `${path}.baseline must be a positive number of milliseconds`;
+  }
+  return null;
+}
+
+/**
+ * Returns a description of the first invalid rule, or null. Both sides run
+ * it so a bad rule set is rejected before it reaches the iframe.
+ */
+export function validateAlertRules(rules: AlertRule[] | undefined): string | null {
+  if (!Array.isArray(rules)) return 'rules must be an array';
+
+  const ids = new Set<string>();
+  for (const [index, rule] of rules.entries()) {
+    const path = `rules[${index}]`;
+    if (!rule || typeof rule.id !== 'string' || rule.id.trim() === '') return `${path}.id is required`;
+    if (ids.has(rule.id)) return `Duplicate rule id "${rule.id}"`;
+    ids.add(rule.id);
+
+    if (typeof rule.name !== 'string' || rule.name.trim() === '') return `${path}.name is required`;
+    if (!rule.alert || typeof rule.alert.title !== 'string' || rule.alert.title.trim() === '') {
+      return `${path}.alert.title is required`;
+    }
+    if (!ALERT_SEVERITIES.includes(rule.alert.severity)) {
+      return `${path}.alert.severity "${rule.alert.severity}" is not an alert severity`;
+    }
+    if (!ALERT_CATEGORIES.includes(rule.alert.category)) {
+      return `${path}.alert.category "${rule.alert.category}" is not an alert category`;
+    }
+    if (rule.cooldown !== undefined && !(Number.isFinite(rule.cooldown) && rule.cooldown >= 0)) {
+      return `${path}.cooldown must be a non-negative number of milliseconds`;
+    }
+
+    const error = validateCondition(rule.condition, `${path}.condition`);
+    if (error) return error;
+  }
+  return null;
+}
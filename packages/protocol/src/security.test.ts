@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { createEnvelope } from './messages';
+import { ReplayGuard, SecureChannel } from './security';
+
+async function createSession() {
+  const host = new SecureChannel();
+  const iframe = new SecureChannel();
+  const hostKey = await host.createPublicKey();
+  const iframeKey = await iframe.createPublicKey();
+  await host.establish(iframeKey);
+  await iframe.establish(hostKey);
+  return { host, iframe };
+}
+
+describe('SecureChannel', () => {
+  it('should accept envelopes signed by the other side of the session', async () => {
+    const { host, iframe } = await createSession();
+
+    const sealed = await host.seal(createEnvelope('CONFIG', { theme: 'dark' }));
+
+    expect(sealed.sequence).toBe(0);
+    await expect(iframe.open(sealed)).resolves.toEqual({ ok: true });
+  });
+
+  it('should reject tampered, unsigned and foreign envelopes', async () => {
+    const { host, iframe } = await createSession();
+    const other = await createSession();
+
+    const sealed = await host.seal(createEnvelope('CONFIG', { theme: 'dark' }));
+    const foreign = await other.host.seal(createEnvelope('CONFIG', { theme: 'dark' }));
+
+    await expect(iframe.open({ ...sealed, payload: { theme: 'light' } })).resolves.toEqual({
+      ok: false,
+      reason: 'BAD_SIGNATURE',
+    });
+    await expect(iframe.open({ ...sealed, signature: undefined })).resolves.toEqual({
+      ok: false,
+      reason: 'UNSIGNED',
+    });
+    await expect(iframe.open(foreign)).resolves.toEqual({ ok: false, reason: 'BAD_SIGNATURE' });
+  });
+
+  it('should sign the channel id', async () => {
+    const { host, iframe } = await createSession();
+
+    const sealed = await host.seal({ ...createEnvelope('ALERT_NEW'), channel: 'ch_a' });
+
+    await expect(iframe.open({ ...sealed, channel: 'ch_b' })).resolves.toEqual({ ok: false, reason: 'BAD_SIGNATURE' });
+  });
+
+  it('should report NO_SESSION before the key exchange', async () => {
+    const channel = new SecureChannel();
+
+    await expect(channel.open(createEnvelope('CONFIG'))).resolves.toEqual({ ok: false, reason: 'NO_SESSION' });
+    await expect(channel.seal(createEnvelope('CONFIG'))).rejects.toThrow('No secure session established');
+  });
+});
+
+describe('ReplayGuard', () => {
+  it('should only accept increasing sequence numbers', () => {
+    const guard = new ReplayGuard();
+    const now = Date.now();
+
+    expect(guard.check({ type: 'X', id: '1', timestamp: now, sequence: 0 }, now)).toEqual({ ok: true });
+    expect(guard.check({ type: 'X', id: '2', timestamp: now, sequence: 0 }, now)).toEqual({
+      ok: false,
+      reason: 'REPLAYED_SEQUENCE',
+    });
+    expect(guard.check({ type: 'X', id: '3', timestamp: now, sequence: 5 }, now)).toEqual({ ok: true });
+  });
+
+  it('should reject timestamps outside the allowed skew', () => {
+    const guard = new ReplayGuard(1000);
+    const now = Date.now();
+
+    expect(guard.check({ type: 'X', id: '1', timestamp: now - 5000, sequence: 0 }, now)).toEqual({
+      ok: false,
+      reason: 'STALE_TIMESTAMP',
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import type { Envelope } from './messages';
+
+const KEY_AGREEMENT = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const SIGNING_KEY = { name: 'HMAC', hash: 'SHA-256', length: 256 } as const;
+const DEFAULT_MAX_SKEW_MS = 30000;
+
+export type SecurityViolationReason =
+  | 'UNSIGNED'
+  | 'BAD_SIGNATURE'
+  | 'REPLAYED_SEQUENCE'
+  | 'STALE_TIMESTAMP'
+  | 'NO_SESSION'
+  | 'UNTRUSTED_ORIGIN'
+  | 'UNTRUSTED_SOURCE'
+  | 'CHANNEL_MISMATCH';
+
+export interface SecurityViolation {
+  reason: SecurityViolationReason;
+  type?: string;
+  id?: string;
+  origin?: string;
+}
+
+export type SecurityCheck = { ok: true } | { ok: false; reason: SecurityViolationReason };
+
+export function isSecureContextAvailable(): boolean {
+  return typeof globalThis.crypto !== 'undefined' && typeof globalThis.crypto.subtle !== 'undefined';
+}
+
+// Signs everything the receiver acts on. Payload key order survives structured cloning.
+function canonicalize(envelope: Envelope): string {
+  return JSON.stringify([
+    envelope.type,
+    envelope.id,
+    envelope.timestamp,
+    envelope.sequence,
+    envelope.channel ?? null,
+    envelope.payload ?? null,
+  ]);
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Rejects envelopes whose sequence does not increase or whose timestamp is
+ * outside the allowed clock skew.
+ */
+export class ReplayGuard {
+  private lastSequence = -1;
+
+  constructor(private maxSkewMs: number = DEFAULT_MAX_SKEW_MS) {}
+
+  check(envelope: Envelope, now: number = Date.now()): SecurityCheck {
+    if (typeof envelope.sequence !== 'number' || envelope.sequence <= this.lastSequence) {
+      return { ok: false, reason: 'REPLAYED_SEQUENCE' };
+    }
+    if (typeof envelope.timestamp !== 'number' || Math.abs(now - envelope.timestamp) > this.maxSkewMs) {
+      return { ok: false, reason: 'STALE_TIMESTAMP' };
+    }
+
+    this.lastSequence = envelope.sequence;
+    return { ok: true };
+  }
+
+  reset(): void {
+    this.lastSequence = -1;
+  }
+}
+
+/**
+ * One side of a signed postMessage session. Each side publishes an ECDH
+ * public key in the handshake, both derive the same HMAC key, and every
+ * envelope after that carries a signature and a strictly increasing sequence.
+ */
+export class SecureChannel {
+  private keyPair?: CryptoKeyPair;
+  private sessionKey?: CryptoKey;
+  private sequence = 0;
+  private guard: ReplayGuard;
+  // Signing and verifying are async; chaining keeps envelopes in send/receive order
+  private outbox: Promise<unknown> = Promise.resolve();
+  private inbox: Promise<unknown> = Promise.resolve();
+
+  constructor(options: { maxSkewMs?: number } = {}) {
+    this.guard = new ReplayGuard(options.maxSkewMs);
+  }
+
+  /**
+   * Starts a new session and returns the public key to send to the other side.
+   */
+  async createPublicKey(): Promise<JsonWebKey> {
+    this.reset();
+    this.keyPair = await crypto.subtle.generateKey(KEY_AGREEMENT, false, ['deriveKey']);
+    return crypto.subtle.exportKey('jwk', this.keyPair.publicKey);
+  }
+
+  async establish(remotePublicKey: JsonWebKey): Promise<void> {
+    if (!this.keyPair) {
+      throw new Error('createPublicKey() must be called before establish()');
+    }
+
+    const remoteKey = await crypto.subtle.importKey('jwk', remotePublicKey, KEY_AGREEMENT, false, []);
+    this.sessionKey = await crypto.subtle.deriveKey(
+      { name: 'ECDH', public: remoteKey },
+      this.keyPair.privateKey,
+      SIGNING_KEY,
+      false,
+      ['sign', 'verify']
+    );
+  }
+
+  isEstablished(): boolean {
+    return !!this.sessionKey;
+  }
+
+  /**
+   * Stamps the next sequence number and signs the envelope.
+   */
+  seal<T extends Envelope>(envelope: T): Promise<T> {
+    const key = this.sessionKey;
+    if (!key) {
+      return Promise.reject(new Error('No secure session established'));
+    }
+
+    const stamped = { ...envelope, sequence: this.sequence++, signature: undefined };
+    const sealed = this.outbox.then(async () => {
+      const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(canonicalize(stamped)));
+      return { ...stamped, signature: toBase64(signature) };
+    });
+    this.outbox = sealed.catch(() => undefined);
+    return sealed;
+  }
+
+  /**
+   * Verifies the signature, sequence and timestamp of an incoming envelope.
+   */
+  open(envelope: Envelope): Promise<SecurityCheck> {
+    const key = this.sessionKey;
+    const checked = this.inbox.then(async (): Promise<SecurityCheck> => {
+      if (!key) return { ok: false, reason: 'NO_SESSION' };
+      if (typeof envelope.signature !== 'string') return { ok: false, reason: 'UNSIGNED' };
+
+      let valid = false;
+      try {
+        valid = await crypto.subtle.verify(
+          'HMAC',
+          key,
+          fromBase64(envelope.signature),
+          new TextEncoder().encode(canonicalize(envelope))
+        );
+      } catch {
+        valid = false;
+      }
+      if (!valid) return { ok: false, reason: 'BAD_SIGNATURE' };
+
+      return this.guard.check(envelope);
+    });
+    this.inbox = checked.catch(() => undefined);
+    return checked;
+  }
+
+  reset(): void {
+    this.keyPair = undefined;
+    this.sessionKey = undefined;
+    this.sequence = 0;
+    this.guard.reset();
+    this.outbox = Promise.resolve();
+    this.inbox = Promise.resolve();
+  }
+}
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ProtocolMismatchError,
+  isProtocolRange,
+  negotiateCapabilities,
+  negotiateVersion,
+} from './version';
+
+describe('negotiateVersion', () => {
+  it('should pick the highest version both sides support', () => {
+    expect(negotiateVersion({ min: 1, max: 3 }, { min: 2, max: 4 })).toBe(3);
+    expect(negotiateVersion({ min: 1, max: 1 }, { min: 1, max: 2 })).toBe(1);
+  });
+
+  it('should throw a ProtocolMismatchError when ranges do not overlap', () => {
+    expect(() => negotiateVersion({ min: 1, max: 1 }, { min: 2, max: 3 })).toThrow(ProtocolMismatchError);
+    expect(() => negotiateVersion({ min: 1, max: 1 }, { min: 2, max: 3 })).toThrow(
+      'Protocol mismatch: this side supports v1, the other side supports v2-3'
+    );
+  });
+});
+
+describe('isProtocolRange', () => {
+  it('should only accept ordered integer ranges', () => {
+    expect(isProtocolRange({ min: 1, max: 2 })).toBe(true);
+    expect(isProtocolRange({ min: 2, max: 1 })).toBe(false);
+    expect(isProtocolRange({ min: '1', max: 2 })).toBe(false);
+    expect(isProtocolRange(undefined)).toBe(false);
+  });
+});
+
+describe('negotiateCapabilities', () => {
+  it('should keep only capabilities both sides declared', () => {
+    expect(negotiateCapabilities(['rpc', 'events', 'resize'], ['events', 'rpc'])).toEqual(['rpc', 'events']);
+  });
+});
@@ -0,0 +1,53 @@
+import type { Capability, ProtocolRange } from './messages';
+
+/**
+ * Bump when the envelope or a message payload changes incompatibly, and widen
+ * SUPPORTED_PROTOCOL for as long as the previous version is still served.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export const SUPPORTED_PROTOCOL: ProtocolRange = { min: 1, max: PROTOCOL_VERSION };
+
+export const SUPPORTED_CAPABILITIES: Capability[] = ['rpc', 'events', 'resize'];
+
+export class ProtocolMismatchError extends Error {
+  readonly code = 'PROTOCOL_MISMATCH';
+
+  constructor(readonly local: ProtocolRange, readonly remote: ProtocolRange) {
+    super(
+      `Protocol mismatch: this side supports v${formatRange(local)}, ` +
+        `the other side supports v${formatRange(remote)}`
+    );
+    this.name = 'ProtocolMismatchError';
+  }
+}
+
+function formatRange(range: ProtocolRange): string {
+  return range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+}
+
+export function isProtocolRange(value: unknown): value is ProtocolRange {
+  const range = value as ProtocolRange;
+  return (
+    !!range &&
+    Number.isInteger(range.min) &&
+    Number.isInteger(range.max) &&
+    range.min <= range.max
+  );
+}
+
+/**
+ * Picks the highest version both ranges support. Throws
+ * `ProtocolMismatchError` when the ranges do not overlap.
+ */
+export function negotiateVersion(local: ProtocolRange, remote: ProtocolRange): number {
+  const version = Math.min(local.max, remote.max);
+  if (version < Math.max(local.min, remote.min)) {
+    throw new ProtocolMismatchError(local, remote);
+  }
+  return version;
+}
+
+export function negotiateCapabilities(local: Capability[], remote: Capability[]): Capability[] {
+  return local.filter((capability) => remote.includes(capability));
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { formatViewPath, normalizeViewName, parseViewPath } from './views';
+
+describe('views', () => {
+  it('should accept the legacy singular competitor name', () => {
+    expect(normalizeViewName('competitor')).toBe('competitors');
+    expect(normalizeViewName('competitors')).toBe('competitors');
+    expect(normalizeViewName('billing')).toBeNull();
+  });
+
+  it('should parse deep links into a view and item param', () => {
+    expect(parseViewPath('alerts/a%2F1')).toEqual({ view: 'alerts', params: { alertId: 'a/1' } });
+    expect(parseViewPath('/reddit/t3_abc')).toEqual({ view: 'reddit', params: { threadId: 't3_abc' } });
+    expect(parseViewPath('sentiment', { reviewId: 'r9' })).toEqual({ view: 'sentiment', params: { reviewId: 'r9' } });
+    expect(parseViewPath('dashboard')).toEqual({ view: 'dashboard' });
+  });
+
+  it('should reject unknown views and unsupported item links', () => {
+    expect(parseViewPath('billing')).toBeNull();
+    expect(parseViewPath('settings/1')).toBeNull();
+    expect(parseViewPath('dashboard/1')).toBeNull();
+    expect(parseViewPath('alerts/1/extra')).toBeNull();
+  });
+
+  it('should format routes back into paths', () => {
+    expect(formatViewPath({ view: 'alerts', params: { alertId: 'a/1' } })).toBe('alerts/a%2F1');
+    expect(formatViewPath({ view: 'competitors' })).toBe('competitors');
+  });
+});
@@ -0,0 +1,73 @@
+import type { FeatureFlags } from './messages';
+
+export type ViewName = 'dashboard' | 'alerts' | 'sentiment' | 'competitors' | 'reddit' | 'settings';
+
+export const VIEWS: ViewName[] = ['dashboard', 'alerts', 'sentiment', 'competitors', 'reddit', 'settings'];
+
+// Earlier configs used the singular name; the tab has always been `competitors`
+const VIEW_ALIASES: Record<string, ViewName> = { competitor: 'competitors' };
+
+/**
+ * Views that can open on a single item, and the param that names it.
+ * `alerts/:alertId`, `sentiment/:reviewId`, `reddit/:threadId`.
+ */
+export const VIEW_ITEM_PARAMS: Partial<Record<ViewName, string>> = {
+  alerts: 'alertId',
+  sentiment: 'reviewId',
+  reddit: 'threadId',
+};
+
+/** Feature flag that has to be on for a view to show */
+export const VIEW_FEATURES: Partial<Record<ViewName, keyof FeatureFlags>> = {
+  alerts: 'alerts',
+  sentiment: 'businessSentiment',
+  competitors: 'competitorAnalysis',
+  reddit: 'redditMonitoring',
+};
+
+/** A view a single-feature panel can be locked to */
+export type PanelView = Exclude<ViewName, 'dashboard' | 'settings'>;
+
+/** A view name or a deep link to one item, e.g. `alerts/a-123` */
+export type ViewPath = ViewName | `${'alerts' | 'sentiment' | 'reddit'}/${string}`;
+
+export type ViewParams = Record<string, string>;
+
+export interface ViewRoute {
+  view: ViewName;
+  params?: ViewParams;
+}
+
+export interface ViewChangedPayload extends ViewRoute {
+  previousView?: ViewName;
+}
+
+export function normalizeViewName(name: string): ViewName | null {
+  const view = VIEW_ALIASES[name] ?? name;
+  return (VIEWS as string[]).includes(view) ? (view as ViewName) : null;
+}
+
+/**
+ * Resolves a view name or deep link such as `alerts/a-123`, merging in any
+ * explicit params. Returns null for unknown views or extra path segments.
+ */
+export function parseViewPath(path: string, params: ViewParams = {}): ViewRoute | null {
+  const [name, id, ...rest] = path.replace(/^\/+/, '').split('/');
+  const view = normalizeViewName(name);
+  if (!view || rest.length > 0) return null;
+
+  const itemParam = VIEW_ITEM_PARAMS[view];
+  if (id !== undefined && (!itemParam || id === '')) return null;
+
+  const merged = { ...params };
+  if (id !== undefined && itemParam) {
+    merged[itemParam] = decodeURIComponent(id);
+  }
+  return Object.keys(merged).length > 0 ? { view, params: merged } : { view };
+}
+
+export function formatViewPath({ view, params }: ViewRoute): string {
+  const itemParam = VIEW_ITEM_PARAMS[view];
+  const id = itemParam ? params?.[itemParam] : undefined;
+  return id ? `${view}/${encodeURIComponent(id)}` : view;
+}
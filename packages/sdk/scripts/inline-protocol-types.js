@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+
+// The protocol package is private, so the published declarations can't
+// import it. The build copies its declarations into dist/protocol; this
+// points every import of it in the SDK's declarations there instead.
+
+const fs = require('fs');
+const path = require('path');
+
+const DIST = path.resolve(__dirname, '../dist');
+const PROTOCOL = path.join(DIST, 'protocol');
+const SPECIFIER = /(['"])@company\/pos-intelligence-protocol(?:\/src\/([\w-]+))?\1/g;
+
+function declarationFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return file === PROTOCOL ? [] : declarationFiles(file);
+    return entry.name.endsWith('.d.ts') ? [file] : [];
+  });
+}
+
+if (!fs.existsSync(path.join(PROTOCOL, 'index.d.ts'))) {
+  console.error('dist/protocol/index.d.ts is missing; emit the protocol declarations first');
+  process.exit(1);
+}
+
+declarationFiles(DIST).forEach((file) => {
+  const source = fs.readFileSync(file, 'utf8');
+  const inlined = source.replace(SPECIFIER, (_match, quote, module = 'index') => {
+    const target = path.relative(path.dirname(file), path.join(PROTOCOL, module)).split(path.sep).join('/');
+    return `${quote}${target.startsWith('.') ? target : `./${target}`}${quote}`;
+  });
+  if (inlined !== source) fs.writeFileSync(file, inlined);
+});
@@ -0,0 +1,114 @@
+import { RpcMethod, validateAlertFilter, validateAlertPolicy, validateAlertRules } from '@company/pos-intelligence-protocol';
+import type {
+  Alert,
+  AlertDismissParams,
+  AlertFilter,
+  AlertPolicy,
+  AlertRule,
+  AlertSnoozeParams,
+  Incident,
+  RulesSetParams,
+} from '@company/pos-intelligence-protocol';
+import { UnifiedSDKError } from './errors';
+
+export interface AlertsTransport {
+  /** Waits for the iframe, then calls it */
+  request<T>(method: string, params?: unknown): Promise<T>;
+  /** Delivers an alert action now, or queues it while the iframe is away */
+  command(method: string, params: { alertId: string }): Promise<void>;
+}
+
+/**
+ * `sdk.alerts`: reads and changes the alerts the iframe holds. Changes made
+ * here or in the widget arrive as `alert:updated` events.
+ */
+export class AlertsAPI {
+  constructor(private transport: AlertsTransport) {}
+
+  /**
+   * Alerts matching `filter`, newest first. Dismissed alerts are left out
+   * unless the filter asks for them by status.
+   */
+  async getAlerts(filter?: AlertFilter): Promise<Alert[]> {
+    const error = validateAlertFilter(filter);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_FILTER', error);
+    }
+    return this.transport.request<Alert[]>(RpcMethod.ALERTS_LIST, filter);
+  }
+
+  async getUnreadCount(): Promise<number> {
+    return this.transport.request<number>(RpcMethod.ALERTS_GET_UNREAD_COUNT);
+  }
+
+  /**
+   * Marks an alert as read. While the widget is connecting or offline the
+   * acknowledgement is queued (and kept in IndexedDB with `queue.persist`)
+   * and the promise resolves once it is queued.
+   */
+  async acknowledge(alertId: string): Promise<void> {
+    await this.transport.command(RpcMethod.ALERTS_ACKNOWLEDGE, { alertId });
+  }
+
+  /**
+   * Hides an alert from the unread count until `until`, when it turns
+   * active again. Queued like `acknowledge()` while offline.
+   */
+  async snooze(alertId: string, until: Date | number): Promise<void> {
+    const time = until instanceof Date ? until.getTime() : until;
+    if (!Number.isFinite(time) || time <= Date.now()) {
+      throw new UnifiedSDKError('INVALID_ALERT', 'Snooze time must be in the future');
+    }
+    const params: AlertSnoozeParams = { alertId, until: time };
+    await this.transport.command(RpcMethod.ALERTS_SNOOZE, params);
+  }
+
+  /**
+   * Removes an alert from lists and the unread count. Queued like
+   * `acknowledge()` while offline.
+   */
+  async dismiss(alertId: string): Promise<void> {
+    const params: AlertDismissParams = { alertId };
+    await this.transport.command(RpcMethod.ALERTS_DISMISS, params);
+  }
+
+  /** Groups of related alerts that are not dismissed, most recently active first */
+  async getIncidents(): Promise<Incident[]> {
+    return this.transport.request<Incident[]>(RpcMethod.ALERTS_LIST_INCIDENTS);
+  }
+
+  /** How this location's alerts roll up, group into incidents and escalate */
+  async getPolicy(): Promise<AlertPolicy> {
+    return this.transport.request<AlertPolicy>(RpcMethod.ALERTS_GET_POLICY);
+  }
+
+  /**
+   * Changes the given policy fields and resolves with the whole policy.
+   * Alerts already raised follow the new escalation time.
+   */
+  async setPolicy(changes: Partial<AlertPolicy>): Promise<AlertPolicy> {
+    const error = validateAlertPolicy(changes);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_POLICY', error);
+    }
+    return this.transport.request<AlertPolicy>(RpcMethod.ALERTS_SET_POLICY, changes);
+  }
+
+  /** The rules that turn this location's POS events into alerts */
+  async getRules(): Promise<AlertRule[]> {
+    return this.transport.request<AlertRule[]>(RpcMethod.RULES_GET);
+  }
+
+  /**
+   * Replaces this location's alert rules. The rule set is checked here first
+   * and rejected whole with an `INVALID_RULE` error naming the bad field.
+   */
+  async setRules(rules: AlertRule[]): Promise<AlertRule[]> {
+    const error = validateAlertRules(rules);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_RULE', error);
+    }
+    const params: RulesSetParams = { rules };
+    return this.transport.request<AlertRule[]>(RpcMethod.RULES_SET, params);
+  }
+}
@@ -0,0 +1,175 @@
+import { MAX_EVENTS_PER_INGEST, VIEW_FEATURES, parseViewPath } from '@company/pos-intelligence-protocol';
+import type { ConfigPayload } from '@company/pos-intelligence-protocol';
+import type { RuntimeConfig, UnifiedConfig } from './types';
+
+/**
+ * The part of the host config the iframe applies, as sent after READY.
+ */
+export function getRuntimeConfig(config: UnifiedConfig): ConfigPayload {
+  const { theme, locale, features, customStyles } = config;
+  const runtime: ConfigPayload = { features };
+  if (theme !== undefined) runtime.theme = theme;
+  if (locale !== undefined) runtime.locale = locale;
+  if (customStyles !== undefined) runtime.customStyles = customStyles;
+  return runtime;
+}
+
+/**
+ * Keeps only the settings that differ from the current config. Feature
+ * flags are compared one by one; custom styles are sent as a whole set.
+ */
+export function diffConfig(current: UnifiedConfig, changes: RuntimeConfig): ConfigPayload {
+  const diff: ConfigPayload = {};
+
+  if (changes.theme !== undefined && changes.theme !== current.theme) {
+    diff.theme = changes.theme;
+  }
+  if (changes.locale !== undefined && changes.locale !== current.locale) {
+    diff.locale = changes.locale;
+  }
+
+  if (changes.features) {
+    const features = Object.fromEntries(
+      Object.entries(changes.features).filter(
+        ([name, enabled]) => current.features[name as keyof typeof current.features] !== enabled
+      )
+    );
+    if (Object.keys(features).length > 0) {
+      diff.features = features;
+    }
+  }
+
+  if (changes.customStyles && !shallowEqual(changes.customStyles, current.customStyles ?? {})) {
+    diff.customStyles = changes.customStyles;
+  }
+
+  return diff;
+}
+
+function shallowEqual(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+}
+
+const POSITIONS = ['embedded', 'floating', 'sidebar'];
+const SIDEBAR_SIDES = ['left', 'right'];
+
+/**
+ * Returns a description of an unknown position or sidebar side, or null.
+ */
+export function validateLayout({ position, sidebarSide }: UnifiedConfig): string | null {
+  if (position !== undefined && !POSITIONS.includes(position)) {
+    return `Position must be one of ${POSITIONS.join(', ')}, got "${position}"`;
+  }
+  if (sidebarSide !== undefined && !SIDEBAR_SIDES.includes(sidebarSide)) {
+    return `Sidebar side must be left or right, got "${sidebarSide}"`;
+  }
+  return null;
+}
+
+/**
+ * Returns a description of invalid auto-resize bounds, or null.
+ */
+export function validateSizeBounds({ minHeight, maxHeight }: UnifiedConfig): string | null {
+  for (const [name, value] of Object.entries({ minHeight, maxHeight })) {
+    if (value !== undefined && (!Number.isFinite(value) || value < 0)) {
+      return `${name} must be a non-negative number of pixels`;
+    }
+  }
+  if (minHeight !== undefined && maxHeight !== undefined && minHeight > maxHeight) {
+    return 'minHeight must not exceed maxHeight';
+  }
+  return null;
+}
+
+/**
+ * Returns a description of invalid connection timings or fallback URL, or null.
+ */
+export function validateConnection({
+  readyTimeout,
+  heartbeatInterval,
+  maxReconnectAttempts,
+  fallbackUrl,
+}: UnifiedConfig): string | null {
+  if (readyTimeout !== undefined && (!Number.isFinite(readyTimeout) || readyTimeout <= 0)) {
+    return 'readyTimeout must be a positive number of milliseconds';
+  }
+  if (heartbeatInterval !== undefined && (!Number.isFinite(heartbeatInterval) || heartbeatInterval < 0)) {
+    return 'heartbeatInterval must be a non-negative number of milliseconds';
+  }
+  if (maxReconnectAttempts !== undefined && (!Number.isInteger(maxReconnectAttempts) || maxReconnectAttempts < 0)) {
+    return 'maxReconnectAttempts must be a non-negative integer';
+  }
+  if (fallbackUrl !== undefined && !/^https?:\/\//.test(fallbackUrl)) {
+    return `fallbackUrl must be an http(s) URL, got "${fallbackUrl}"`;
+  }
+  return null;
+}
+
+const DROP_POLICIES = ['oldest', 'newest'];
+
+/**
+ * Returns a description of invalid outbound queue settings, or null.
+ */
+export function validateQueue({ queue }: UnifiedConfig): string | null {
+  if (queue === undefined) return null;
+
+  if (queue.maxSize !== undefined && (!Number.isInteger(queue.maxSize) || queue.maxSize < 1)) {
+    return 'queue.maxSize must be a positive integer';
+  }
+  if (queue.dropPolicy !== undefined && !DROP_POLICIES.includes(queue.dropPolicy)) {
+    return `queue.dropPolicy must be one of ${DROP_POLICIES.join(', ')}, got "${queue.dropPolicy}"`;
+  }
+  return null;
+}
+
+export function validateIngest({ ingest }: UnifiedConfig): string | null {
+  if (ingest === undefined) return null;
+
+  const { maxBatchSize, flushInterval } = ingest;
+  if (maxBatchSize !== undefined && (!Number.isInteger(maxBatchSize) || maxBatchSize < 1 || maxBatchSize > MAX_EVENTS_PER_INGEST)) {
+    return `ingest.maxBatchSize must be an integer from 1 to ${MAX_EVENTS_PER_INGEST}`;
+  }
+  if (flushInterval !== undefined && (!Number.isFinite(flushInterval) || flushInterval < 0)) {
+    return 'ingest.flushInterval must be a non-negative number of milliseconds';
+  }
+  return null;
+}
+
+export function clampHeight(height: number, { minHeight = 0, maxHeight = Infinity }: UnifiedConfig): number {
+  return Math.min(Math.max(height, minHeight), maxHeight);
+}
+
+/**
+ * Returns a description of a default view the iframe cannot open, or null.
+ */
+export function validateDefaultView({ defaultView }: UnifiedConfig): string | null {
+  if (defaultView !== undefined && !parseViewPath(defaultView)) {
+    return `Unknown default view "${defaultView}"`;
+  }
+  return null;
+}
+
+const PANEL_VIEWS = ['alerts', 'sentiment', 'competitors', 'reddit'];
+
+/**
+ * Returns a description of a single-feature panel that could not show
+ * anything, or null. The panel's feature must be on and any default view
+ * must point into the panel.
+ */
+export function validatePanel({ panel, features, defaultView }: UnifiedConfig): string | null {
+  if (panel === undefined) return null;
+
+  if (!PANEL_VIEWS.includes(panel)) {
+    return `Panel must be one of ${PANEL_VIEWS.join(', ')}, got "${panel}"`;
+  }
+  const feature = VIEW_FEATURES[panel];
+  if (feature && !features[feature]) {
+    return `The ${panel} panel needs the ${feature} feature`;
+  }
+  const route = defaultView === undefined ? null : parseViewPath(defaultView);
+  if (route && route.view !== panel) {
+    return `Default view "${defaultView}" is outside the ${panel} panel`;
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ConnectionMonitor, getReconnectDelay } from './connection';
+import type { ConnectionMonitorOptions } from './connection';
+
+describe('ConnectionMonitor', () => {
+  let monitor: ConnectionMonitor;
+  let options: ConnectionMonitorOptions;
+
+  const states = () => vi.mocked(options.onChange).mock.calls.map(([change]) => change.state);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    options = {
+      readyTimeout: 5000,
+      heartbeatInterval: 1000,
+      maxReconnectAttempts: 2,
+      ping: vi.fn(),
+      reload: vi.fn(),
+      onChange: vi.fn(),
+      onReadyTimeout: vi.fn(),
+      onGiveUp: vi.fn(),
+    };
+    monitor = new ConnectionMonitor(options);
+  });
+
+  afterEach(() => {
+    monitor.stop();
+    vi.useRealTimers();
+  });
+
+  it('should ping while ready and degrade when pongs stop arriving', () => {
+    monitor.connecting();
+    monitor.ready();
+
+    vi.advanceTimersByTime(1000);
+    expect(options.ping).toHaveBeenCalledTimes(1);
+    monitor.pong();
+
+    vi.advanceTimersByTime(2000);
+    expect(monitor.getState()).toBe('degraded');
+    monitor.pong();
+    expect(monitor.getState()).toBe('ready');
+
+    vi.advanceTimersByTime(4000);
+    expect(monitor.getState()).toBe('disconnected');
+    expect(states()).toEqual(['ready', 'degraded', 'ready', 'degraded', 'disconnected']);
+  });
+
+  it('should reload with exponential backoff and give up after the last attempt', () => {
+    monitor.connecting();
+    vi.advanceTimersByTime(5000);
+    expect(options.onReadyTimeout).toHaveBeenCalledTimes(1);
+    expect(monitor.getState()).toBe('disconnected');
+
+    vi.advanceTimersByTime(getReconnectDelay(0));
+    expect(options.reload).toHaveBeenCalledTimes(1);
+    expect(monitor.getState()).toBe('connecting');
+
+    vi.advanceTimersByTime(5000 + getReconnectDelay(1));
+    expect(options.reload).toHaveBeenCalledTimes(2);
+
+    vi.advanceTimersByTime(5000);
+    expect(options.onGiveUp).toHaveBeenCalledWith(2);
+    vi.advanceTimersByTime(60000);
+    expect(options.reload).toHaveBeenCalledTimes(2);
+    expect(getReconnectDelay(10)).toBe(30000);
+  });
+
+  it('should reset the attempts after a successful reload', () => {
+    monitor.connecting();
+    vi.advanceTimersByTime(5000 + getReconnectDelay(0));
+    monitor.ready();
+    expect(monitor.getState()).toBe('ready');
+
+    monitor.fail();
+    vi.advanceTimersByTime(getReconnectDelay(0));
+    expect(options.reload).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(options.onChange).mock.calls.at(-1)?.[0]).toMatchObject({ state: 'connecting', attempt: 1 });
+  });
+
+  it('should stay down without retrying when asked not to', () => {
+    monitor.connecting();
+    monitor.fail(false);
+    vi.advanceTimersByTime(60000);
+
+    expect(monitor.getState()).toBe('disconnected');
+    expect(options.reload).not.toHaveBeenCalled();
+    expect(options.onReadyTimeout).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,146 @@
+export type ConnectionState = 'connecting' | 'ready' | 'degraded' | 'disconnected';
+
+export interface ConnectionChange {
+  state: ConnectionState;
+  previousState: ConnectionState;
+  /** Reloads attempted since the last successful handshake */
+  attempt: number;
+}
+
+export interface ConnectionMonitorOptions {
+  readyTimeout: number;
+  /** 0 turns heartbeats off */
+  heartbeatInterval: number;
+  /** 0 turns automatic reloads off */
+  maxReconnectAttempts: number;
+  ping(): void;
+  reload(): void;
+  onChange(change: ConnectionChange): void;
+  /** READY did not arrive within `readyTimeout` */
+  onReadyTimeout(): void;
+  /** Every reload failed; the monitor stays disconnected */
+  onGiveUp(attempts: number): void;
+}
+
+// Heartbeats that may go unanswered before the iframe counts as gone
+const MAX_MISSED_HEARTBEATS = 3;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS);
+}
+
+/**
+ * Tracks whether the iframe is alive: waits for READY, pings it while
+ * connected and reloads it with exponential backoff once it stops answering.
+ */
+export class ConnectionMonitor {
+  private state: ConnectionState = 'connecting';
+  private attempts = 0;
+  private missedHeartbeats = 0;
+  private awaitingPong = false;
+  private readyTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(private options: ConnectionMonitorOptions) {}
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /** A handshake is underway; fails the connection if READY does not follow in time */
+  connecting(): void {
+    this.stopHeartbeat();
+    this.setState('connecting');
+    if (this.readyTimer !== undefined) return;
+
+    this.readyTimer = setTimeout(() => {
+      this.readyTimer = undefined;
+      this.options.onReadyTimeout();
+      this.fail();
+    }, this.options.readyTimeout);
+  }
+
+  ready(): void {
+    this.clearReadyTimer();
+    this.attempts = 0;
+    this.setState('ready');
+    this.startHeartbeat();
+  }
+
+  pong(): void {
+    this.awaitingPong = false;
+    this.missedHeartbeats = 0;
+    if (this.state === 'degraded') this.setState('ready');
+  }
+
+  /**
+   * Marks the iframe as gone and schedules a reload, unless `retry` is off
+   * (e.g. a protocol mismatch a reload cannot fix) or the attempts are used up.
+   */
+  fail(retry = true): void {
+    this.clearReadyTimer();
+    this.stopHeartbeat();
+    this.setState('disconnected');
+    if (!retry || this.reconnectTimer !== undefined) return;
+
+    if (this.attempts >= this.options.maxReconnectAttempts) {
+      this.options.onGiveUp(this.attempts);
+      return;
+    }
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.attempts++;
+      this.connecting();
+      this.options.reload();
+    }, getReconnectDelay(this.attempts));
+  }
+
+  stop(): void {
+    this.clearReadyTimer();
+    this.stopHeartbeat();
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+  }
+
+  private startHeartbeat(): void {
+    if (this.options.heartbeatInterval <= 0) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.missedHeartbeats++;
+        if (this.missedHeartbeats >= MAX_MISSED_HEARTBEATS) {
+          this.fail();
+          return;
+        }
+        this.setState('degraded');
+      }
+
+      this.awaitingPong = true;
+      this.options.ping();
+    }, this.options.heartbeatInterval);
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = undefined;
+    this.awaitingPong = false;
+    this.missedHeartbeats = 0;
+  }
+
+  private clearReadyTimer(): void {
+    clearTimeout(this.readyTimer);
+    this.readyTimer = undefined;
+  }
+
+  private setState(state: ConnectionState): void {
+    if (state === this.state) return;
+
+    const previousState = this.state;
+    this.state = state;
+    this.options.onChange({ state, previousState, attempt: this.attempts });
+  }
+}
@@ -0,0 +1,26 @@
+import { PosIntelligenceElement } from './pos-intelligence';
+
+export { PosIntelligenceElement, toDomEventName } from './pos-intelligence';
+
+export const DEFAULT_TAG_NAME = 'pos-intelligence';
+
+/**
+ * Registers the element under `tagName`. Safe to call more than once, e.g.
+ * when several bundles on the page include the SDK.
+ */
+export function defineIntelligenceElement(tagName = DEFAULT_TAG_NAME): void {
+  if (typeof customElements === 'undefined' || customElements.get(tagName)) return;
+
+  // Each tag needs its own constructor; the same class cannot be defined twice
+  const ElementClass = tagName === DEFAULT_TAG_NAME ? PosIntelligenceElement : class extends PosIntelligenceElement {};
+  customElements.define(tagName, ElementClass);
+}
+
+// Importing the entry point is enough to use <pos-intelligence> in markup
+defineIntelligenceElement();
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'pos-intelligence': PosIntelligenceElement;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import './index';
+import { toDomEventName } from './index';
+import { connectIframe, settle } from '../test/fake-iframe';
+
+describe('<pos-intelligence>', () => {
+  let host: HTMLElement;
+
+  beforeEach(() => {
+    host = document.createElement('div');
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => {
+    host.remove();
+  });
+
+  async function mount(markup: string) {
+    host.innerHTML = markup;
+    await settle();
+    return host.querySelector('pos-intelligence')!;
+  }
+
+  it('should mount the widget from its attributes', async () => {
+    const element = await mount(
+      '<pos-intelligence api-key="pk_test_123" features="alerts, businessSentiment" default-view="alerts"></pos-intelligence>'
+    );
+    const onReady = vi.fn();
+    element.addEventListener('ready', onReady);
+
+    expect(element.querySelector('iframe')?.src).toContain('view=alerts');
+    const iframe = await connectIframe(element);
+
+    expect(iframe.handshake.payload.features).toEqual({
+      alerts: true,
+      businessSentiment: true,
+      competitorAnalysis: false,
+      redditMonitoring: false,
+    });
+    expect(onReady).toHaveBeenCalledWith(expect.objectContaining({ detail: expect.objectContaining({ protocolVersion: 1 }) }));
+    expect(element.sdk).toBeDefined();
+  });
+
+  it('should apply runtime attributes in place and remount for the rest', async () => {
+    const element = await mount('<pos-intelligence api-key="pk_test_123" features="alerts"></pos-intelligence>');
+    const iframe = await connectIframe(element);
+    const frame = element.querySelector('iframe');
+
+    element.setAttribute('theme', 'dark');
+    element.setAttribute('features', 'alerts redditMonitoring');
+    await settle();
+
+    const configs = iframe.sent().filter((message) => message.type === 'CONFIG').map((message) => message.payload);
+    expect(configs.slice(1)).toEqual([{ theme: 'dark' }, { features: { redditMonitoring: true } }]);
+    expect(element.querySelector('iframe')).toBe(frame);
+
+    element.setAttribute('position', 'floating');
+    await settle();
+    expect(element.querySelector('iframe')).not.toBe(frame);
+    expect(element.querySelectorAll('iframe')).toHaveLength(1);
+  });
+
+  it('should re-dispatch SDK events as DOM events', async () => {
+    const element = await mount('<pos-intelligence api-key="pk_test_123" features="alerts"></pos-intelligence>');
+    const iframe = await connectIframe(element);
+    const onAlert = vi.fn();
+    host.addEventListener('alert-new', onAlert);
+
+    const alert = { id: 'a1', title: 'Rush', message: 'Busy', severity: 'critical' };
+    await iframe.send('ALERT_NEW', alert);
+    await vi.waitFor(() => expect(onAlert).toHaveBeenCalledTimes(1));
+    expect((onAlert.mock.calls[0][0] as CustomEvent).detail).toEqual(alert);
+  });
+
+  it('should report invalid config as an error event', async () => {
+    const onError = vi.fn();
+    host.addEventListener('error', onError);
+
+    await mount('<pos-intelligence api-key="sk_secret" features="alerts"></pos-intelligence>');
+
+    expect((onError.mock.calls[0][0] as CustomEvent).detail).toMatchObject({ code: 'INVALID_API_KEY' });
+  });
+
+  it('should tear the widget down when removed', async () => {
+    const element = await mount('<pos-intelligence api-key="pk_test_123" features="alerts"></pos-intelligence>');
+    const sdk = element.sdk!;
+
+    element.remove();
+    expect(sdk.isDestroyed()).toBe(true);
+    expect(element.querySelector('iframe')).toBeNull();
+  });
+
+  it('should name DOM events after SDK events', () => {
+    expect(toDomEventName('alert:new')).toBe('alert-new');
+    expect(toDomEventName('urgentActions:updated')).toBe('urgent-actions-updated');
+    expect(toDomEventName('ready')).toBe('ready');
+  });
+});
@@ -0,0 +1,207 @@
+import { UnifiedPOSIntelligence } from '../index';
+import type { FeatureFlags, RuntimeConfig, UnifiedConfig, UnifiedEventName } from '../types';
+
+// Attributes that updateConfig() applies in place; the rest remount the widget
+const RUNTIME_ATTRIBUTES = ['theme', 'locale', 'features'];
+const MOUNT_ATTRIBUTES = [
+  'api-key',
+  'position',
+  'sidebar-side',
+  'default-view',
+  'panel',
+  'instance-id',
+  'auto-resize',
+  'min-height',
+  'max-height',
+];
+
+const FORWARDED_EVENTS: UnifiedEventName[] = [
+  'ready',
+  'error',
+  'alert:new',
+  'alert:acknowledged',
+  'alert:updated',
+  'alert:escalated',
+  'notification',
+  'sentiment:updated',
+  'insights:updated',
+  'urgentActions:updated',
+  'context:changed',
+  'view:changed',
+  'resize',
+  'dashboard:toggled',
+  'auth:expiring',
+  'security',
+  'connection:changed',
+];
+
+const FEATURE_NAMES: (keyof FeatureFlags)[] = ['alerts', 'businessSentiment', 'competitorAnalysis', 'redditMonitoring'];
+
+let containerCount = 0;
+
+// Custom elements only exist in the browser; keep the module importable during SSR
+const BaseElement = (typeof HTMLElement === 'undefined' ? class {} : HTMLElement) as typeof HTMLElement;
+
+/**
+ * `features="alerts businessSentiment"`: feature names separated by spaces
+ * or commas. Omitted features are off, so removing one turns it off live.
+ */
+function parseFeatures(value: string | null): FeatureFlags {
+  const names = (value ?? '').split(/[\s,]+/);
+  return Object.fromEntries(FEATURE_NAMES.map((name) => [name, names.includes(name)]));
+}
+
+function parseNumber(value: string | null): number | undefined {
+  return value === null || value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Event name for an SDK event, e.g. `alert:new` becomes `alert-new`, so
+ * frameworks can bind it like any other DOM event.
+ */
+export function toDomEventName(event: UnifiedEventName): string {
+  return event.replace(/[:A-Z]/g, (match) => (match === ':' ? '-' : `-${match.toLowerCase()}`));
+}
+
+/**
+ * `<pos-intelligence api-key="pk_..." features="alerts" theme="dark">`
+ *
+ * Wraps one SDK instance for frameworks without a dedicated binding. SDK
+ * events are re-dispatched as bubbling `CustomEvent`s carrying the payload
+ * in `detail`; init and config errors arrive as `error` events.
+ */
+export class PosIntelligenceElement extends BaseElement {
+  static get observedAttributes(): string[] {
+    return [...RUNTIME_ATTRIBUTES, ...MOUNT_ATTRIBUTES];
+  }
+
+  /** Supplies a fresh merchant token; set as a property since functions can't be attributes */
+  getAuthToken?: UnifiedConfig['getAuthToken'];
+
+  private instance?: UnifiedPOSIntelligence;
+  private container?: HTMLDivElement;
+  private mountScheduled = false;
+
+  /**
+   * The underlying SDK instance while the element is connected, for calls
+   * such as `setMerchantContext()` or `switchView()`.
+   */
+  get sdk(): UnifiedPOSIntelligence | undefined {
+    return this.instance;
+  }
+
+  connectedCallback(): void {
+    this.scheduleMount();
+  }
+
+  disconnectedCallback(): void {
+    this.unmount();
+  }
+
+  attributeChangedCallback(name: string, oldValue: string | null, newValue: string | null): void {
+    if (oldValue === newValue || !this.isConnected) return;
+
+    if (this.instance && RUNTIME_ATTRIBUTES.includes(name)) {
+      this.applyRuntimeConfig();
+    } else {
+      this.scheduleMount();
+    }
+  }
+
+  getConfig(): Omit<UnifiedConfig, 'containerId'> {
+    const config: Omit<UnifiedConfig, 'containerId'> = {
+      apiKey: this.getAttribute('api-key') ?? '',
+      features: parseFeatures(this.getAttribute('features')),
+    };
+
+    const theme = this.getAttribute('theme');
+    const locale = this.getAttribute('locale');
+    const position = this.getAttribute('position');
+    const sidebarSide = this.getAttribute('sidebar-side');
+    const defaultView = this.getAttribute('default-view');
+    const panel = this.getAttribute('panel');
+    const instanceId = this.getAttribute('instance-id');
+    const autoResize = this.getAttribute('auto-resize');
+    const minHeight = parseNumber(this.getAttribute('min-height'));
+    const maxHeight = parseNumber(this.getAttribute('max-height'));
+
+    if (theme !== null) config.theme = theme as UnifiedConfig['theme'];
+    if (locale !== null) config.locale = locale;
+    if (position !== null) config.position = position as UnifiedConfig['position'];
+    if (sidebarSide !== null) config.sidebarSide = sidebarSide as UnifiedConfig['sidebarSide'];
+    if (defaultView !== null) config.defaultView = defaultView as UnifiedConfig['defaultView'];
+    if (panel !== null) config.panel = panel as UnifiedConfig['panel'];
+    if (instanceId !== null) config.instanceId = instanceId;
+    if (autoResize !== null) config.autoResize = autoResize !== 'false';
+    if (minHeight !== undefined) config.minHeight = minHeight;
+    if (maxHeight !== undefined) config.maxHeight = maxHeight;
+    if (this.getAuthToken) config.getAuthToken = () => this.getAuthToken!();
+
+    return config;
+  }
+
+  // Attributes set right after creation (e.g. by a framework) arrive one by one; mount once
+  private scheduleMount(): void {
+    if (this.mountScheduled) return;
+
+    this.mountScheduled = true;
+    queueMicrotask(() => {
+      this.mountScheduled = false;
+      if (this.isConnected) this.mount();
+    });
+  }
+
+  private mount(): void {
+    this.unmount();
+
+    const config = this.getConfig();
+    // Nothing to show until the host provides a key
+    if (!config.apiKey) return;
+
+    // The SDK looks its container up by id, so it lives in the light DOM
+    const container = document.createElement('div');
+    container.id = `pos-intelligence-${++containerCount}`;
+    container.style.height = '100%';
+    this.appendChild(container);
+    this.container = container;
+
+    const instance = new UnifiedPOSIntelligence();
+    this.instance = instance;
+    FORWARDED_EVENTS.forEach((event) => {
+      instance.on(event, (detail) => this.emit(toDomEventName(event), detail));
+    });
+
+    instance.init({ ...config, containerId: container.id }).catch((error) => {
+      if (instance === this.instance) this.emitError(error);
+    });
+  }
+
+  private unmount(): void {
+    this.instance?.destroy();
+    this.instance = undefined;
+    this.container?.remove();
+    this.container = undefined;
+  }
+
+  private applyRuntimeConfig(): void {
+    const { theme, locale, features } = this.getConfig();
+    const changes: RuntimeConfig = { features };
+    if (theme !== undefined) changes.theme = theme;
+    if (locale !== undefined) changes.locale = locale;
+
+    try {
+      this.instance?.updateConfig(changes);
+    } catch (error) {
+      this.emitError(error);
+    }
+  }
+
+  private emitError(error: unknown): void {
+    const { code = 'UNKNOWN', message = String(error) } = error as { code?: string; message?: string };
+    this.emit('error', { code, message });
+  }
+
+  private emit(type: string, detail: unknown): void {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }));
+  }
+}
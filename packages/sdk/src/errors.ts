@@ -0,0 +1,29 @@
+export type SDKErrorCode =
+  | 'CONTAINER_NOT_FOUND'
+  | 'INVALID_API_KEY'
+  | 'INVALID_TOKEN'
+  | 'INVALID_CONTEXT'
+  | 'INVALID_CONFIG'
+  | 'INVALID_VIEW'
+  | 'INVALID_ALERT'
+  | 'INVALID_FILTER'
+  | 'INVALID_RULE'
+  | 'INVALID_POLICY'
+  | 'INVALID_PREFERENCES'
+  | 'INVALID_EVENT'
+  | 'QUEUE_FULL'
+  | 'NOT_INITIALIZED'
+  | 'DESTROYED'
+  | 'CANCELLED'
+  | 'HANDSHAKE_FAILED'
+  | 'LOAD_TIMEOUT';
+
+export class UnifiedSDKError extends Error {
+  readonly code: SDKErrorCode;
+
+  constructor(code: SDKErrorCode, message: string) {
+    super(message);
+    this.name = 'UnifiedSDKError';
+    this.code = code;
+  }
+}
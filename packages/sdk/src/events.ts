@@ -0,0 +1,60 @@
+type Listener<T> = (payload: T) => void;
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<Listener<any>>>();
+
+  /**
+   * Subscribes to an event. Returns a function that removes the handler.
+   */
+  on<K extends keyof Events>(event: K, handler: Listener<Events[K]>): () => void {
+    let handlers = this.listeners.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.listeners.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  off<K extends keyof Events>(event: K, handler: Listener<Events[K]>): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) return;
+
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  once<K extends keyof Events>(event: K, handler: Listener<Events[K]>): () => void {
+    const wrapper: Listener<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      handler(payload);
+    };
+
+    return this.on(event, wrapper);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.listeners.get(event);
+    if (!handlers) return;
+
+    // Copy so handlers that unsubscribe while running don't skip their neighbours
+    Array.from(handlers).forEach((handler) => {
+      try {
+        handler(payload);
+      } catch (error) {
+        console.error(`Error in "${String(event)}" handler:`, error);
+      }
+    });
+  }
+
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  removeAllListeners(): void {
+    this.listeners.clear();
+  }
+}
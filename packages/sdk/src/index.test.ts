@@ -1,5 +1,27 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { UnifiedPOSIntelligence } from './index';
+import { createEnvelope } from '@company/pos-intelligence-protocol';
+import { PROTOCOL_VERSION, UnifiedPOSIntelligence, UnifiedSDKError, getInstance, getInstances } from './index';
+import type { QueuedMessage } from './queue';
+import { IFRAME_ORIGIN, connectIframe, dispatchFromIframe, initWidget, settle } from './test/fake-iframe';
+
+// Durable commands by store owner, standing in for IndexedDB
+const storedCommands = vi.hoisted(() => new Map<string, Map<string, QueuedMessage>>());
+
+vi.mock('./queue/indexeddb', () => ({
+  isIndexedDBAvailable: () => true,
+  createIndexedDBStore: (owner: string) => {
+    const records = () => storedCommands.get(owner) ?? storedCommands.set(owner, new Map()).get(owner)!;
+    return {
+      load: async () => [...records().values()],
+      put: async (message: QueuedMessage) => {
+        records().set(message.id, message);
+      },
+      delete: async (id: string) => {
+        storedCommands.forEach((stored) => stored.delete(id));
+      },
+    };
+  },
+}));
 
 describe('UnifiedPOSIntelligence', () => {
   let container: HTMLElement;
@@ -31,7 +53,7 @@ describe('UnifiedPOSIntelligence', () => {
         }
       };
 
-      await sdk.init(config);
+      await initWidget(sdk, config);
 
       // Verify iframe is created
       const iframe = container.querySelector('iframe');
@@ -40,6 +62,7 @@ describe('UnifiedPOSIntelligence', () => {
       
       // Verify iframe has proper sandbox attributes
       expect(iframe?.getAttribute('sandbox')).toBe('allow-scripts allow-same-origin allow-forms');
+      sdk.destroy();
     });
 
     it('should throw error if container is not found', async () => {
@@ -75,7 +98,7 @@ describe('UnifiedPOSIntelligence', () => {
     it('should establish handshake with iframe', async () => {
       const sdk = new UnifiedPOSIntelligence();
       
-      await sdk.init({
+      const initialized = sdk.init({
         containerId: 'test-container',
         apiKey: 'pk_test_123',
         features: { alerts: true }
@@ -97,13 +120,1427 @@ describe('UnifiedPOSIntelligence', () => {
       iframe.dispatchEvent(loadEvent);
 
       // Verify handshake message is sent
-      expect(postMessageSpy).toHaveBeenCalledWith(
+      await vi.waitFor(() => expect(postMessageSpy).toHaveBeenCalledWith(
         expect.objectContaining({
           type: 'HANDSHAKE',
-          apiKey: 'pk_test_123'
+          payload: expect.objectContaining({
+            apiKey: 'pk_test_123',
+            features: { alerts: true },
+            protocol: { min: 1, max: PROTOCOL_VERSION },
+            publicKey: expect.objectContaining({ kty: 'EC' })
+          })
         }),
         expect.any(String)
+      ));
+      sdk.destroy();
+      await expect(initialized).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+
+    it('should record the negotiated protocol version on a signed READY', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onReady = vi.fn();
+      sdk.on('ready', onReady);
+      await initWidget(sdk, {
+        containerId: 'test-container',
+        apiKey: 'pk_test_123',
+        features: { alerts: true }
+      });
+
+      expect(onReady).toHaveBeenCalledWith(expect.objectContaining({ protocolVersion: PROTOCOL_VERSION }));
+      expect(sdk.getProtocolVersion()).toBe(PROTOCOL_VERSION);
+      sdk.destroy();
+    });
+
+    it('should raise a protocol mismatch error for unsupported READY versions', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onReady = vi.fn();
+      const onError = vi.fn();
+      sdk.on('ready', onReady);
+      sdk.on('error', onError);
+      const failed = expect(sdk.init({
+        containerId: 'test-container',
+        apiKey: 'pk_test_123',
+        features: { alerts: true }
+      })).rejects.toMatchObject({ code: 'HANDSHAKE_FAILED' });
+      await connectIframe(container, { protocolVersion: 99 });
+
+      await failed;
+      expect(sdk.getConnectionState()).toBe('disconnected');
+      expect(onReady).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }));
+      expect(sdk.getProtocolVersion()).toBeUndefined();
+      sdk.destroy();
+    });
+  });
+
+  describe('lifecycle', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should remove the iframe and message listener on destroy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const removeListenerSpy = vi.spyOn(window, 'removeEventListener');
+
+      await initWidget(sdk, config);
+      sdk.destroy();
+
+      expect(container.querySelector('iframe')).toBeNull();
+      expect(removeListenerSpy).toHaveBeenCalledWith('message', expect.any(Function));
+      expect(sdk.isDestroyed()).toBe(true);
+
+      removeListenerSpy.mockRestore();
+    });
+
+    it('should reject calls made after destroy with a typed error', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+      sdk.destroy();
+
+      await expect(sdk.init(config)).rejects.toBeInstanceOf(UnifiedSDKError);
+      await expect(sdk.refresh()).rejects.toMatchObject({ code: 'DESTROYED' });
+      expect(() => sdk.triggerScenario('morning-rush')).toThrow(UnifiedSDKError);
+    });
+
+    it('should reject calls still waiting on the iframe when destroyed', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init(config);
+      const calls = [
+        sdk.getSnapshot(),
+        sdk.alerts.getAlerts(),
+        sdk.switchView('alerts'),
+        sdk.authenticate('merchant-token'),
+        sdk.setMerchantContext({ merchantId: 'm1' }),
+        sdk.refresh(),
+      ];
+
+      sdk.destroy();
+
+      const results = await Promise.allSettled(calls);
+      expect(results.map((result) => result.status === 'rejected' && result.reason.code)).toEqual(
+        calls.map(() => 'DESTROYED')
       );
+      await expect(initialized).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+
+    it('should replace the previous iframe when init is called again', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+
+      const cancelled = expect(sdk.init(config)).rejects.toMatchObject({ code: 'CANCELLED' });
+      await initWidget(sdk, config);
+
+      await cancelled;
+      expect(container.querySelectorAll('iframe')).toHaveLength(1);
+      sdk.destroy();
+    });
+
+    it('should resolve refresh once the reloaded iframe completes a new handshake', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+      const onRefreshed = vi.fn();
+
+      const refreshed = sdk.refresh().then(onRefreshed);
+      expect(sdk.getProtocolVersion()).toBeUndefined();
+      const switched = sdk.switchView('alerts');
+      const iframe = await connectIframe(container);
+      await refreshed;
+
+      expect(onRefreshed).toHaveBeenCalled();
+      expect(sdk.getProtocolVersion()).toBeDefined();
+      // Sealed for the new session, so the reloaded iframe accepts it
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toMatchObject({ method: 'view.switch', params: { view: 'alerts' } });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: {} });
+      await switched;
+      sdk.destroy();
+    });
+
+    it('should move the iframe to another container and reconnect it there', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+      const other = document.createElement('div');
+      other.id = 'other-container';
+      document.body.appendChild(other);
+
+      sdk.moveTo('other-container');
+      expect(container.querySelector('iframe')).toBeNull();
+      expect(sdk.getQueueSize()).toBe(0);
+      sdk.triggerScenario('morning-rush');
+      expect(sdk.getQueueSize()).toBe(1);
+
+      const iframe = await connectIframe(other);
+      await vi.waitFor(() => expect(iframe.sent().map(({ type }) => type)).toEqual(['CONFIG', 'TRIGGER_SCENARIO']));
+      expect(() => sdk.moveTo('missing')).toThrow(expect.objectContaining({ code: 'CONTAINER_NOT_FOUND' }));
+      sdk.destroy();
+      other.remove();
+    });
+
+    it('should reject refresh before init', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+
+      await expect(sdk.refresh()).rejects.toMatchObject({ code: 'NOT_INITIALIZED' });
+    });
+  });
+
+  describe('events', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should emit typed events for iframe messages', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onAlert = vi.fn();
+      const onView = vi.fn();
+      sdk.on('alert:new', onAlert);
+      sdk.on('view:changed', onView);
+
+      const alert = { id: 'a1', title: 'Rush', message: 'Busy', severity: 'critical' };
+      await iframe.send('ALERT_NEW', alert);
+      await iframe.send('VIEW_CHANGED', { view: 'alerts', previousView: 'dashboard' });
+
+      await vi.waitFor(() => expect(onView).toHaveBeenCalledWith({ view: 'alerts', previousView: 'dashboard' }));
+      expect(onAlert).toHaveBeenCalledWith(alert);
+      sdk.destroy();
+    });
+
+    it('should ignore messages from other origins', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onAlert = vi.fn();
+      sdk.on('alert:new', onAlert);
+      const sealed = await iframe.channel.seal({
+        type: 'ALERT_NEW', id: 'x', timestamp: Date.now(), payload: { id: 'a1' }
+      });
+      dispatchFromIframe(sealed, 'https://evil.example');
+      await settle();
+
+      expect(onAlert).not.toHaveBeenCalled();
+      sdk.destroy();
+    });
+
+    it('should support off and once', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onAck = vi.fn();
+      const onceAck = vi.fn();
+      sdk.on('alert:acknowledged', onAck);
+      sdk.once('alert:acknowledged', onceAck);
+
+      await iframe.send('ALERT_ACKNOWLEDGED', { alertId: 'a1' });
+      await vi.waitFor(() => expect(onAck).toHaveBeenCalledTimes(1));
+      sdk.off('alert:acknowledged', onAck);
+      await iframe.send('ALERT_ACKNOWLEDGED', { alertId: 'a2' });
+      await settle();
+
+      expect(onAck).toHaveBeenCalledTimes(1);
+      expect(onceAck).toHaveBeenCalledTimes(1);
+      sdk.destroy();
+    });
+
+    it('should resolve call() with the matching iframe reply', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const result = sdk.call('alerts.getUnreadCount');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const request = iframe.requests()[0];
+      expect(request).toMatchObject({ type: 'RPC_REQUEST', payload: { method: 'alerts.getUnreadCount' } });
+      await expect(iframe.channel.open(request)).resolves.toEqual({ ok: true });
+
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: 2 });
+
+      await expect(result).resolves.toBe(2);
+      sdk.destroy();
+    });
+
+    it('should drop all handlers on destroy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onResize = vi.fn();
+      sdk.on('resize', onResize);
+      sdk.destroy();
+      await iframe.send('RESIZE', { height: 500 });
+      await settle();
+
+      expect(onResize).not.toHaveBeenCalled();
+      expect(() => sdk.on('resize', onResize)).toThrow(UnifiedSDKError);
+    });
+  });
+
+  describe('message security', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should sign outgoing envelopes with increasing sequence numbers', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      sdk.triggerScenario('morning-rush');
+      sdk.triggerScenario('negative-review');
+      const scenarios = () => iframe.sent().filter((message) => message.type === 'TRIGGER_SCENARIO');
+      await vi.waitFor(() => expect(scenarios()).toHaveLength(2));
+
+      const [first, second] = scenarios();
+      expect(first.signature).toEqual(expect.any(String));
+      expect(second.sequence).toBeGreaterThan(first.sequence as number);
+      await expect(iframe.channel.open(first)).resolves.toEqual({ ok: true });
+      await expect(iframe.channel.open(second)).resolves.toEqual({ ok: true });
+      sdk.destroy();
+    });
+
+    it('should drop unsigned messages and emit a security event', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      const onAlert = vi.fn();
+      const onSecurity = vi.fn();
+      sdk.on('alert:new', onAlert);
+      sdk.on('security', onSecurity);
+      dispatchFromIframe({ type: 'ALERT_NEW', id: 'forged', timestamp: Date.now(), payload: {} });
+
+      await vi.waitFor(() => expect(onSecurity).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'UNSIGNED', id: 'forged', source: 'sdk' })
+      ));
+      expect(onAlert).not.toHaveBeenCalled();
+      sdk.destroy();
+    });
+
+    it('should reject replayed and tampered envelopes', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onAlert = vi.fn();
+      const onSecurity = vi.fn();
+      sdk.on('alert:new', onAlert);
+      sdk.on('security', onSecurity);
+
+      const sealed = await iframe.send('ALERT_NEW', { id: 'a1', title: 'Rush', message: '', severity: 'info' });
+      await vi.waitFor(() => expect(onAlert).toHaveBeenCalledTimes(1));
+
+      dispatchFromIframe(sealed, IFRAME_ORIGIN);
+      const tampered = await iframe.channel.seal({
+        type: 'ALERT_NEW', id: 't1', timestamp: Date.now(), payload: { id: 'a2' }
+      });
+      dispatchFromIframe({ ...tampered, payload: { id: 'evil' } });
+
+      await vi.waitFor(() => expect(onSecurity).toHaveBeenCalledTimes(2));
+      expect(onSecurity.mock.calls.map(([violation]) => violation.reason)).toEqual([
+        'REPLAYED_SEQUENCE',
+        'BAD_SIGNATURE'
+      ]);
+      expect(onAlert).toHaveBeenCalledTimes(1);
+      sdk.destroy();
+    });
+
+    it('should reject messages sent before the session is established', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init(config);
+
+      const onSecurity = vi.fn();
+      sdk.on('security', onSecurity);
+      dispatchFromIframe({ type: 'ALERT_NEW', id: 'early', timestamp: Date.now(), payload: {} });
+
+      await vi.waitFor(() => expect(onSecurity).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'NO_SESSION' })
+      ));
+      sdk.destroy();
+      await expect(initialized).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+  });
+
+  describe('authentication', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should send the token to the iframe over RPC', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const authenticated = sdk.authenticate('merchant-token');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const request = iframe.requests()[0];
+      expect(request.payload).toEqual({ method: 'auth.authenticate', params: { token: 'merchant-token' } });
+
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: {} });
+      await expect(authenticated).resolves.toBeUndefined();
+      sdk.destroy();
+    });
+
+    it('should reject empty tokens', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      await expect(sdk.authenticate('')).rejects.toMatchObject({ code: 'INVALID_TOKEN' });
+      sdk.destroy();
+    });
+
+    it('should ask the token provider for a new token when the iframe reports expiry', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const getAuthToken = vi.fn().mockResolvedValue('fresh-token');
+      const iframe = await initWidget(sdk, { ...config, getAuthToken });
+
+      const onExpiring = vi.fn();
+      sdk.on('auth:expiring', onExpiring);
+      await iframe.send('TOKEN_EXPIRING', { expiresAt: 123 });
+
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(onExpiring).toHaveBeenCalledWith({ expiresAt: 123 });
+      expect(getAuthToken).toHaveBeenCalled();
+      expect(iframe.requests()[0].payload).toEqual({
+        method: 'auth.authenticate',
+        params: { token: 'fresh-token' }
+      });
+      sdk.destroy();
+    });
+  });
+
+  describe('merchant context', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+    const downtown = {
+      merchantId: 'bellas-bistro',
+      locationId: 'downtown',
+      businessType: 'restaurant',
+      timezone: 'America/New_York',
+      currency: 'USD'
+    };
+
+    it('should send the context to the iframe over RPC', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const switched = sdk.setMerchantContext(downtown);
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const request = iframe.requests()[0];
+      expect(request.payload).toEqual({ method: 'context.set', params: downtown });
+
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: downtown });
+      await expect(switched).resolves.toBeUndefined();
+      expect(sdk.getMerchantContext()).toEqual(downtown);
+      sdk.destroy();
+    });
+
+    it('should reject invalid contexts before sending them', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      await expect(sdk.setMerchantContext({ ...downtown, timezone: 'Mars/Olympus' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONTEXT' });
+      await expect(sdk.setMerchantContext({ ...downtown, currency: 'dollars' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONTEXT' });
+      expect(sdk.getMerchantContext()).toBeUndefined();
+      sdk.destroy();
+    });
+
+    it('should restore the context before the token after the iframe reloads', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      let iframe = await initWidget(sdk, config);
+
+      const switched = sdk.setMerchantContext(downtown);
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: downtown });
+      await switched;
+
+      const authenticated = sdk.authenticate('merchant-token');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[1].id, result: {} });
+      await authenticated;
+
+      const refreshed = sdk.refresh();
+      iframe = await connectIframe(container);
+      await refreshed;
+
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      expect(iframe.requests().map((message) => (message.payload as { method: string }).method))
+        .toEqual(['context.set', 'auth.authenticate']);
+      sdk.destroy();
+    });
+
+    it('should not replay the previous merchant token after switching merchants', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      let iframe = await initWidget(sdk, config);
+
+      const authenticated = sdk.authenticate('merchant-token');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: {} });
+      await authenticated;
+
+      for (const context of [downtown, { merchantId: 'green-leaf' }]) {
+        const switched = sdk.setMerchantContext(context);
+        const count = iframe.requests().length + 1;
+        await vi.waitFor(() => expect(iframe.requests()).toHaveLength(count));
+        await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[count - 1].id, result: context });
+        await switched;
+      }
+
+      const refreshed = sdk.refresh();
+      iframe = await connectIframe(container);
+      await refreshed;
+      await settle();
+
+      expect(iframe.requests().map((message) => (message.payload as { method: string }).method))
+        .toEqual(['context.set']);
+      sdk.destroy();
+    });
+  });
+
+  describe('runtime config', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true, businessSentiment: true },
+      theme: 'light' as const
+    };
+    const configs = (iframe: { sent: () => { type: string; payload?: unknown }[] }) =>
+      iframe.sent().filter((message) => message.type === 'CONFIG').map((message) => message.payload);
+
+    it('should send the full runtime config after READY', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, locale: 'en-US', customStyles: { '--primary': '0 0% 0%' } });
+
+      expect(configs(iframe)).toEqual([{
+        theme: 'light',
+        locale: 'en-US',
+        features: { alerts: true, businessSentiment: true },
+        customStyles: { '--primary': '0 0% 0%' }
+      }]);
+      sdk.destroy();
+    });
+
+    it('should send only the settings that changed', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      sdk.setTheme('auto');
+      sdk.setFeatures({ alerts: true, businessSentiment: false });
+      sdk.updateConfig({ theme: 'auto', locale: 'fr-CA' });
+      sdk.setTheme('auto');
+
+      await vi.waitFor(() => expect(configs(iframe)).toHaveLength(4));
+      expect(configs(iframe).slice(1)).toEqual([
+        { theme: 'auto' },
+        { features: { businessSentiment: false } },
+        { locale: 'fr-CA' }
+      ]);
+      sdk.destroy();
+    });
+
+    it('should reject invalid settings without sending them', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      expect(() => sdk.setTheme('neon' as never)).toThrowError(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+      expect(() => sdk.updateConfig({ customStyles: { color: 'red' } }))
+        .toThrowError(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+      await expect(sdk.init({ ...config, locale: '??' })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
+    });
+
+    it('should keep runtime changes across an iframe reload', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      let iframe = await initWidget(sdk, config);
+
+      sdk.updateConfig({ theme: 'dark', features: { alerts: false } });
+
+      const refreshed = sdk.refresh();
+      iframe = await connectIframe(container);
+      await refreshed;
+
+      expect(iframe.handshake.payload.features).toEqual({ alerts: false, businessSentiment: true });
+      expect(configs(iframe)).toEqual([{ theme: 'dark', features: { alerts: false, businessSentiment: true } }]);
+      sdk.destroy();
+    });
+  });
+
+  describe('auto-resize', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should size the iframe to the reported content height within bounds', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, minHeight: 200, maxHeight: 600 });
+      expect(iframe.handshake.payload.capabilities).toContain('resize');
+
+      const onResize = vi.fn();
+      sdk.on('resize', onResize);
+
+      await iframe.send('RESIZE', { height: 420, width: 800 });
+      await vi.waitFor(() => expect(iframe.iframe.style.height).toBe('420px'));
+      expect(onResize).toHaveBeenCalledWith({ height: 420, width: 800 });
+
+      await iframe.send('RESIZE', { height: 2000 });
+      await vi.waitFor(() => expect(iframe.iframe.style.height).toBe('600px'));
+      await iframe.send('RESIZE', { height: 50 });
+      await vi.waitFor(() => expect(iframe.iframe.style.height).toBe('200px'));
+      sdk.destroy();
+    });
+
+    it('should leave fixed-height layouts alone when opted out', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, autoResize: false });
+
+      expect(iframe.handshake.payload.capabilities).not.toContain('resize');
+      await iframe.send('RESIZE', { height: 420 });
+      await settle();
+
+      expect(iframe.iframe.style.height).toBe('100%');
+      sdk.destroy();
+    });
+
+    it('should reject inverted bounds', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+
+      await expect(sdk.init({ ...config, minHeight: 500, maxHeight: 300 }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
+    });
+  });
+
+  describe('dashboard positions', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should show and hide the embedded widget', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+      const onToggle = vi.fn();
+      sdk.on('dashboard:toggled', onToggle);
+
+      expect(sdk.isDashboardOpen()).toBe(true);
+      sdk.hideDashboard();
+      expect(container.querySelector('iframe')?.style.display).toBe('none');
+      sdk.showDashboard();
+      expect(onToggle.mock.calls).toEqual([[{ open: false }], [{ open: true }]]);
+      sdk.destroy();
+    });
+
+    it('should keep the floating badge in step with the unread count', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, position: 'floating' });
+
+      expect(iframe.handshake.payload.capabilities).not.toContain('resize');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toEqual({ method: 'alerts.getUnreadCount' });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: 4 });
+
+      const badge = container.querySelector('button[aria-haspopup] span') as HTMLElement;
+      await vi.waitFor(() => expect(badge.textContent).toBe('4'));
+
+      await iframe.send('ALERT_UPDATED', { alert: { id: 'a1', status: 'active' }, unreadCount: 5, contextKey: 'default' });
+      await vi.waitFor(() => expect(badge.textContent).toBe('5'));
+      await iframe.send('ALERT_UPDATED', { alert: { id: 'b1', status: 'active' }, unreadCount: 9, contextKey: 'm2/default' });
+      await settle();
+      expect(badge.textContent).toBe('5');
+      expect(iframe.requests()).toHaveLength(1);
+      sdk.destroy();
+    });
+
+    it('should close the sidebar when the iframe asks to be dismissed', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, position: 'sidebar', sidebarSide: 'left' });
+
+      sdk.showDashboard();
+      expect(sdk.isDashboardOpen()).toBe(true);
+
+      await iframe.send('DISMISS');
+      await vi.waitFor(() => expect(sdk.isDashboardOpen()).toBe(false));
+      sdk.destroy();
+      expect(container.children).toHaveLength(0);
+    });
+
+    it('should reject unknown positions', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+
+      await expect(sdk.init({ ...config, position: 'popup' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      expect(() => sdk.showDashboard()).toThrowError(expect.objectContaining({ code: 'NOT_INITIALIZED' }));
+      sdk.destroy();
+    });
+  });
+
+  describe('views', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true, competitorAnalysis: true }
+    };
+
+    it('should open the iframe on the default view', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, { ...config, defaultView: 'alerts/a-1' });
+
+      const src = new URL(container.querySelector('iframe')!.src);
+      expect(src.searchParams.get('view')).toBe('alerts/a-1');
+      expect(sdk.getCurrentView()).toBe('alerts');
+      sdk.destroy();
+    });
+
+    it('should accept the legacy competitor view name', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, { ...config, defaultView: 'competitor' });
+
+      expect(container.querySelector('iframe')?.src).toContain('view=competitors');
+      await expect(sdk.init({ ...config, defaultView: 'billing' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
+    });
+
+    it('should switch views over RPC and open the floating panel', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, position: 'floating' });
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+
+      const switched = sdk.switchView('alerts', { alertId: 'a-2' });
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      const request = iframe.requests()[1];
+      expect(request.payload).toEqual({
+        method: 'view.switch',
+        params: { view: 'alerts', params: { alertId: 'a-2' } },
+      });
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: request.payload.params });
+      await switched;
+
+      expect(sdk.isDashboardOpen()).toBe(true);
+      expect(sdk.getCurrentView()).toBe('alerts');
+      await expect(sdk.switchView('billing' as never)).rejects.toMatchObject({ code: 'INVALID_VIEW' });
+      sdk.destroy();
+    });
+
+    it('should emit view changes and reopen the last view after a reload', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+      const onViewChanged = vi.fn();
+      sdk.on('view:changed', onViewChanged);
+
+      await iframe.send('VIEW_CHANGED', { view: 'reddit', params: { threadId: 't-9' }, previousView: 'dashboard' });
+      await vi.waitFor(() => expect(onViewChanged).toHaveBeenCalledWith({
+        view: 'reddit',
+        params: { threadId: 't-9' },
+        previousView: 'dashboard',
+      }));
+
+      const refreshed = sdk.refresh();
+      const element = container.querySelector('iframe')!;
+      expect(new URL(element.src).searchParams.get('view')).toBe('reddit/t-9');
+      await connectIframe(container);
+      await refreshed;
+      sdk.destroy();
+    });
+  });
+
+  describe('connection health', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should resolve init only after a verified READY', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onConnection = vi.fn();
+      sdk.on('connection:changed', onConnection);
+
+      let initialized = false;
+      const init = sdk.init(config).then(() => { initialized = true; });
+      await settle();
+      expect(initialized).toBe(false);
+      expect(sdk.getConnectionState()).toBe('connecting');
+
+      await connectIframe(container);
+      await init;
+      expect(sdk.getConnectionState()).toBe('ready');
+      expect(onConnection).toHaveBeenCalledWith({ state: 'ready', previousState: 'connecting', attempt: 0 });
+      sdk.destroy();
+    });
+
+    it('should reject init when READY does not arrive in time', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onError = vi.fn();
+      sdk.on('error', onError);
+
+      await expect(sdk.init({ ...config, readyTimeout: 30, maxReconnectAttempts: 0 }))
+        .rejects.toMatchObject({ code: 'LOAD_TIMEOUT' });
+      expect(sdk.getConnectionState()).toBe('disconnected');
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'CONNECTION_LOST' }));
+      sdk.destroy();
+    });
+
+    it('should ping the iframe and degrade, then disconnect, when pongs stop', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, heartbeatInterval: 100 });
+      const onConnection = vi.fn();
+      sdk.on('connection:changed', onConnection);
+      const pings = () => iframe.sent().filter((message) => message.type === 'PING');
+
+      await vi.waitFor(() => expect(pings()).toHaveLength(1), { interval: 5 });
+      await iframe.send('PONG', { pingId: pings()[0].id });
+      await vi.waitFor(() => expect(pings()).toHaveLength(2), { interval: 5 });
+      expect(sdk.getConnectionState()).toBe('ready');
+
+      await vi.waitFor(() => expect(sdk.getConnectionState()).toBe('disconnected'), { timeout: 1000 });
+      expect(onConnection.mock.calls.map(([change]) => change.state)).toEqual(['degraded', 'disconnected']);
+      sdk.destroy();
+    });
+
+    it('should reject invalid connection settings', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+
+      await expect(sdk.init({ ...config, readyTimeout: 0 })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(sdk.init({ ...config, maxReconnectAttempts: 1.5 }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+    });
+  });
+
+  describe('fallback', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true },
+      readyTimeout: 50,
+      maxReconnectAttempts: 0
+    };
+
+    const fallback = () => container.querySelector('[data-unified-fallback]');
+
+    it('should stand in for an iframe that never loads', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onError = vi.fn();
+      sdk.on('error', onError);
+
+      await expect(sdk.init(config)).rejects.toMatchObject({ code: 'LOAD_TIMEOUT' });
+
+      const iframe = container.querySelector('iframe')!;
+      expect(iframe.hidden).toBe(true);
+      expect(onError.mock.calls.filter(([error]) => error.code === 'IFRAME_LOAD_FAILED')).toHaveLength(1);
+      expect(fallback()?.textContent).toContain('Alerts are unavailable');
+      const link = fallback()?.querySelector('a');
+      expect(link?.getAttribute('href')).toBe(iframe.getAttribute('src'));
+      expect(link?.target).toBe('_blank');
+      sdk.destroy();
+      expect(fallback()).toBeNull();
+    });
+
+    it('should report a frame that loads but never answers as blocked, and recover on READY', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, position: 'floating', readyTimeout: 500 });
+      const onError = vi.fn();
+      sdk.on('error', onError);
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: 4 });
+      await settle();
+
+      const refreshed = expect(sdk.refresh()).rejects.toMatchObject({ code: 'LOAD_TIMEOUT' });
+      iframe.iframe.dispatchEvent(new Event('load'));
+      await refreshed;
+
+      await vi.waitFor(() => expect(fallback()).not.toBeNull(), { timeout: 2000 });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'IFRAME_BLOCKED' }));
+      expect(fallback()?.textContent).toContain('4 unread alerts');
+
+      await connectIframe(container);
+      expect(fallback()).toBeNull();
+      expect(iframe.iframe.hidden).toBe(false);
+      sdk.destroy();
+    });
+
+    it('should only report the error when the fallback is turned off', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onError = vi.fn();
+      sdk.on('error', onError);
+
+      await expect(sdk.init({ ...config, fallback: false })).rejects.toMatchObject({ code: 'LOAD_TIMEOUT' });
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'IFRAME_LOAD_FAILED' }));
+      expect(fallback()).toBeNull();
+      expect(container.querySelector('iframe')?.hidden).toBe(false);
+      sdk.destroy();
+    });
+
+    it('should link to a custom fallback URL', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      sdk.on('error', () => undefined);
+
+      await expect(sdk.init({ ...config, fallbackUrl: 'javascript:alert(1)' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(sdk.init({ ...config, fallbackUrl: 'https://pos.example.com/intelligence' }))
+        .rejects.toMatchObject({ code: 'LOAD_TIMEOUT' });
+      expect(fallback()?.querySelector('a')?.getAttribute('href')).toBe('https://pos.example.com/intelligence');
+      sdk.destroy();
+    });
+  });
+
+  describe('alerts API', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    const alert = {
+      id: 'a1',
+      title: 'Rush',
+      message: 'Busy',
+      severity: 'critical',
+      category: 'operations',
+      source: 'orders',
+      status: 'active',
+      createdAt: 1,
+      updatedAt: 1
+    };
+
+    it('should list alerts with a filter once the iframe is ready', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init(config);
+      const listed = sdk.alerts.getAlerts({ severity: 'critical', limit: 5 });
+
+      const iframe = await connectIframe(container);
+      await initialized;
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const [request] = iframe.requests();
+      expect(request.payload).toEqual({ method: 'alerts.list', params: { severity: 'critical', limit: 5 } });
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: [alert] });
+
+      await expect(listed).resolves.toEqual([alert]);
+      sdk.destroy();
+    });
+
+    it('should reject invalid filters without calling the iframe', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      await expect(sdk.alerts.getAlerts({ status: 'unread' as never })).rejects.toMatchObject({
+        code: 'INVALID_FILTER',
+        message: 'Unknown alert status "unread"'
+      });
+      expect(iframe.requests()).toHaveLength(0);
+      sdk.destroy();
+    });
+
+    it('should read the unread count and dismiss alerts', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const count = sdk.alerts.getUnreadCount();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: 2 });
+      await expect(count).resolves.toBe(2);
+
+      const dismissed = sdk.alerts.dismiss('a1');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      expect(iframe.requests()[1].payload).toEqual({ method: 'alerts.dismiss', params: { alertId: 'a1' } });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[1].id, result: { alertId: 'a1' } });
+      await dismissed;
+      sdk.destroy();
+    });
+
+    it('should emit alert changes pushed by the iframe', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onUpdated = vi.fn();
+      sdk.on('alert:updated', onUpdated);
+      const iframe = await initWidget(sdk, config);
+
+      const payload = { alert: { ...alert, status: 'snoozed', snoozedUntil: 5 }, previousStatus: 'active', unreadCount: 0 };
+      await iframe.send('ALERT_UPDATED', payload);
+
+      await vi.waitFor(() => expect(onUpdated).toHaveBeenCalledWith(payload));
+      sdk.destroy();
+    });
+
+    it('should list incidents and change the alert policy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+      const policy = { dedupeWindow: 3600000, groupWindow: 1800000, escalateAfter: 600000 };
+
+      const incidents = sdk.alerts.getIncidents();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toEqual({ method: 'alerts.listIncidents' });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: [] });
+      await expect(incidents).resolves.toEqual([]);
+
+      const updated = sdk.alerts.setPolicy({ escalateAfter: 600000 });
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      expect(iframe.requests()[1].payload).toEqual({ method: 'alerts.setPolicy', params: { escalateAfter: 600000 } });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[1].id, result: policy });
+      await expect(updated).resolves.toEqual(policy);
+
+      await expect(sdk.alerts.setPolicy({ escalateAfter: -1 })).rejects.toMatchObject({ code: 'INVALID_POLICY' });
+      expect(iframe.requests()).toHaveLength(2);
+      sdk.destroy();
+    });
+
+    it('should emit escalations pushed by the iframe', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onEscalated = vi.fn();
+      sdk.on('alert:escalated', onEscalated);
+      const iframe = await initWidget(sdk, config);
+
+      const payload = { alert: { ...alert, severity: 'critical', escalatedFrom: 'warning' }, previousSeverity: 'warning' };
+      await iframe.send('ALERT_ESCALATED', payload);
+
+      await vi.waitFor(() => expect(onEscalated).toHaveBeenCalledWith(payload));
+      sdk.destroy();
+    });
+
+    const rule = {
+      id: 'slow-lunch',
+      name: 'Slow lunch',
+      condition: { type: 'threshold', metric: 'order.count', window: 3600000, operator: '<', value: 5 },
+      alert: { title: 'Lunch is slow', severity: 'info', category: 'operations' }
+    } as const;
+
+    it('should read and replace the alert rules', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const saved = sdk.alerts.setRules([rule]);
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toEqual({ method: 'rules.set', params: { rules: [rule] } });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: [rule] });
+      await expect(saved).resolves.toEqual([rule]);
+
+      const read = sdk.alerts.getRules();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      expect(iframe.requests()[1].payload).toEqual({ method: 'rules.get' });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[1].id, result: [rule] });
+      await expect(read).resolves.toEqual([rule]);
+      sdk.destroy();
+    });
+
+    it('should reject invalid rules without calling the iframe', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const invalid = { ...rule, condition: { ...rule.condition, window: 0 } };
+      await expect(sdk.alerts.setRules([invalid])).rejects.toMatchObject({
+        code: 'INVALID_RULE',
+        message: 'rules[0].condition.window must be a positive number of milliseconds'
+      });
+      expect(iframe.requests()).toHaveLength(0);
+      sdk.destroy();
+    });
+  });
+
+  describe('outbound queue', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    const methods = (iframe: Awaited<ReturnType<typeof connectIframe>>) =>
+      iframe.requests().map((message) => (message.payload as { method: string }).method);
+
+    it('should hold commands sent before READY and deliver them in order', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init(config);
+      sdk.triggerScenario('morning-rush');
+      sdk.triggerScenario('negative-review');
+      expect(sdk.getQueueSize()).toBe(2);
+
+      const iframe = await connectIframe(container);
+      await initialized;
+      await vi.waitFor(() => expect(iframe.sent()).toHaveLength(3));
+
+      expect(iframe.sent().map(({ type, payload }) => [type, payload?.scenario])).toEqual([
+        ['CONFIG', undefined],
+        ['TRIGGER_SCENARIO', 'morning-rush'],
+        ['TRIGGER_SCENARIO', 'negative-review'],
+      ]);
+      expect(sdk.getQueueSize()).toBe(0);
+      sdk.destroy();
+    });
+
+    it('should keep stored commands per widget and context until the iframe carries them out', async () => {
+      storedCommands.clear();
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init({ ...config, queue: { persist: true } });
+      const acknowledged = sdk.acknowledgeAlert('a1');
+      await acknowledged;
+      await vi.waitFor(() => expect([...storedCommands.get('test-container|default')!.keys()]).toHaveLength(1));
+
+      const iframe = await connectIframe(container);
+      await initialized;
+      await vi.waitFor(() => expect(methods(iframe)).toEqual(['alerts.acknowledge']));
+      expect(storedCommands.get('test-container|default')!.size).toBe(1);
+
+      const [request] = iframe.requests();
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: { alertId: 'a1' } });
+      await vi.waitFor(() => expect(storedCommands.get('test-container|default')!.size).toBe(0));
+      sdk.destroy();
+    });
+
+    it('should queue alert actions while reconnecting and replay them', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      const refreshed = sdk.refresh();
+      const reconnected = connectIframe(container);
+      await Promise.all([sdk.acknowledgeAlert('a1'), sdk.snoozeAlert('a2', Date.now() + 60_000)]);
+      expect(sdk.getQueueSize()).toBe(2);
+
+      const iframe = await reconnected;
+      await refreshed;
+      await vi.waitFor(() => expect(methods(iframe)).toEqual(['alerts.acknowledge', 'alerts.snooze']));
+      expect(iframe.requests()[0].payload.params).toEqual({ alertId: 'a1' });
+      sdk.destroy();
+    });
+
+    it('should send alert actions straight away when connected', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const acknowledged = sdk.acknowledgeAlert('a1');
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const [request] = iframe.requests();
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, error: { code: 'NOT_FOUND', message: 'Gone' } });
+
+      await expect(acknowledged).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(sdk.acknowledgeAlert('')).rejects.toMatchObject({ code: 'INVALID_ALERT' });
+      await expect(sdk.snoozeAlert('a1', Date.now() - 1)).rejects.toMatchObject({ code: 'INVALID_ALERT' });
+      sdk.destroy();
+    });
+
+    it('should apply the size cap and drop policy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const onDropped = vi.fn();
+      sdk.on('queue:dropped', onDropped);
+      const initialized = sdk.init({ ...config, queue: { maxSize: 1 } });
+
+      sdk.triggerScenario('morning-rush');
+      sdk.triggerScenario('negative-review');
+      expect(onDropped).toHaveBeenCalledWith(expect.objectContaining({ type: 'TRIGGER_SCENARIO' }));
+
+      const iframe = await connectIframe(container);
+      await initialized;
+      await vi.waitFor(() => expect(iframe.sent()).toHaveLength(2));
+      expect(iframe.sent()[1].payload).toEqual({ scenario: 'negative-review' });
+
+      await expect(sdk.init({ ...config, queue: { dropPolicy: 'last' as never } }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
+    });
+
+    it('should refuse alert actions when full under the newest policy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const initialized = sdk.init({ ...config, queue: { maxSize: 1, dropPolicy: 'newest' } });
+
+      await sdk.acknowledgeAlert('a1');
+      await expect(sdk.acknowledgeAlert('a2')).rejects.toMatchObject({ code: 'QUEUE_FULL' });
+      sdk.destroy();
+      await expect(initialized).rejects.toMatchObject({ code: 'CANCELLED' });
+    });
+  });
+
+  describe('ingest API', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    it('should batch events and send them together', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, ingest: { flushInterval: 20 } });
+
+      const sent = Promise.all([
+        sdk.ingest.order({ id: 'o1', total: 18.5, timestamp: new Date(1000) }),
+        sdk.ingest.review({ id: 'r1', rating: 2, text: 'Cold food', timestamp: 2000 }),
+        sdk.ingest.inventory({ id: 'i1', sku: 'OAT-1L', quantity: 2, reorderLevel: 6, timestamp: 3000 }),
+        sdk.ingest.shift({ id: 's1', staffId: 'emp-7', start: new Date(4000), timestamp: 4000 }),
+      ]);
+      expect(iframe.requests()).toHaveLength(0);
+
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      const [request] = iframe.requests();
+      expect(request.payload).toEqual({
+        method: 'events.ingest',
+        params: {
+          events: [
+            { kind: 'order', id: 'o1', total: 18.5, timestamp: 1000 },
+            { kind: 'review', id: 'r1', rating: 2, text: 'Cold food', timestamp: 2000 },
+            { kind: 'inventory', id: 'i1', sku: 'OAT-1L', quantity: 2, reorderLevel: 6, timestamp: 3000 },
+            { kind: 'shift', id: 's1', staffId: 'emp-7', start: 4000, timestamp: 4000 },
+          ],
+          contextKey: 'default'
+        }
+      });
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: { accepted: 4, alertIds: [] } });
+      await sent;
+      sdk.destroy();
+    });
+
+    it('should send a batch as soon as it is full', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, ingest: { maxBatchSize: 2, flushInterval: 60_000 } });
+
+      const sent = Promise.all([
+        sdk.ingest.order({ id: 'o1', total: 10 }),
+        sdk.ingest.order({ id: 'o2', total: 12 }),
+        sdk.ingest.order({ id: 'o3', total: 14 }),
+      ]);
+
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect((iframe.requests()[0].payload.params as { events: unknown[] }).events).toHaveLength(2);
+
+      const flushed = sdk.ingest.flush();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      expect(iframe.requests()[1].payload.params).toEqual({
+        events: [expect.objectContaining({ id: 'o3' })],
+        contextKey: 'default'
+      });
+      for (const request of iframe.requests()) {
+        await iframe.send('RPC_RESPONSE', { requestId: request.id, result: { accepted: 1, alertIds: [] } });
+      }
+      await Promise.all([sent, flushed]);
+      sdk.destroy();
+    });
+
+    it('should send waiting events under their own context before switching', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, { ...config, ingest: { flushInterval: 60_000 } });
+
+      const sent = sdk.ingest.order({ id: 'o1', total: 10 });
+      const switched = sdk.setMerchantContext({ merchantId: 'm1', locationId: 'l2' });
+
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+      const [ingest, context] = iframe.requests();
+      expect(ingest.payload).toMatchObject({ method: 'events.ingest', params: { contextKey: 'default' } });
+      expect(context.payload).toMatchObject({ method: 'context.set', params: { merchantId: 'm1', locationId: 'l2' } });
+      await iframe.send('RPC_RESPONSE', { requestId: ingest.id, result: { accepted: 1, alertIds: [] } });
+      await iframe.send('RPC_RESPONSE', { requestId: context.id, result: { merchantId: 'm1', locationId: 'l2' } });
+      await Promise.all([sent, switched]);
+
+      const later = sdk.ingest.order({ id: 'o2', total: 12 });
+      void sdk.ingest.flush();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(3));
+      expect(iframe.requests()[2].payload.params).toMatchObject({ contextKey: 'm1/l2' });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[2].id, result: { accepted: 1, alertIds: [] } });
+      await later;
+      sdk.destroy();
+    });
+
+    it('should reject invalid events without sending them', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      await expect(sdk.ingest.review({ id: 'r1', rating: 0 })).rejects.toMatchObject({
+        code: 'INVALID_EVENT',
+        message: 'review "r1" rating must be between 1 and 5'
+      });
+      await expect(sdk.ingest.shift({ id: 's1', staffId: '', start: 0 })).rejects.toMatchObject({ code: 'INVALID_EVENT' });
+      await sdk.ingest.flush();
+      expect(iframe.requests()).toHaveLength(0);
+
+      await expect(sdk.init({ ...config, ingest: { maxBatchSize: 1000 } })).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
+    });
+
+    it('should queue batches while reconnecting and cancel pending ones on destroy', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, config);
+
+      const refreshed = sdk.refresh();
+      const reconnected = connectIframe(container);
+      const queued = sdk.ingest.order({ id: 'o1', total: 10 });
+      await sdk.ingest.flush();
+      await queued;
+      expect(sdk.getQueueSize()).toBe(1);
+
+      const iframe = await reconnected;
+      await refreshed;
+      await vi.waitFor(() => expect(iframe.requests().map((message) => message.payload.method)).toEqual(['events.ingest']));
+
+      const pending = sdk.ingest.order({ id: 'o2', total: 10 });
+      sdk.destroy();
+      await expect(pending).rejects.toMatchObject({ code: 'DESTROYED' });
+    });
+  });
+
+  describe('notifications API', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+    const alert = { id: 'a1', title: 'Fryer down', message: 'Call service', severity: 'critical' };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should read and change the preferences', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+      const update = { quietHours: { start: '22:00', end: '07:00' }, channels: { info: [] } };
+
+      const updated = sdk.notifications.setPreferences(update);
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toEqual({ method: 'notifications.setPreferences', params: update });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: { quietHours: update.quietHours } });
+      await expect(updated).resolves.toEqual({ quietHours: update.quietHours });
+
+      await expect(sdk.notifications.setPreferences({ channels: { info: ['pager' as never] } })).rejects.toMatchObject({
+        code: 'INVALID_PREFERENCES',
+      });
+      expect(iframe.requests()).toHaveLength(1);
+      sdk.destroy();
+    });
+
+    it('should emit notifications and show browser ones when allowed', async () => {
+      const shown: { title: string; options: NotificationOptions; onclick?: () => void }[] = [];
+      vi.stubGlobal('Notification', Object.assign(
+        function (this: (typeof shown)[number], title: string, options: NotificationOptions) {
+          Object.assign(this, { title, options, close: vi.fn() });
+          shown.push(this);
+        },
+        { permission: 'granted' }
+      ));
+      // happy-dom has no window.focus
+      vi.stubGlobal('focus', vi.fn());
+      const sdk = new UnifiedPOSIntelligence();
+      const onNotification = vi.fn();
+      sdk.on('notification', onNotification);
+      const iframe = await initWidget(sdk, config);
+
+      await iframe.send('NOTIFICATION', { alerts: [alert], channels: ['toast'], digest: false });
+      await iframe.send('NOTIFICATION', { alerts: [alert], channels: ['browser'], digest: false });
+
+      await vi.waitFor(() => expect(onNotification).toHaveBeenCalledTimes(2));
+      expect(shown.map(({ title, options }) => [title, options.body])).toEqual([['Fryer down', 'Call service']]);
+
+      shown[0].onclick?.();
+      await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+      expect(iframe.requests()[0].payload).toEqual({
+        method: 'view.switch',
+        params: { view: 'alerts', params: { alertId: 'a1' } },
+      });
+      await iframe.send('RPC_RESPONSE', { requestId: iframe.requests()[0].id, result: { view: 'alerts' } });
+      sdk.destroy();
+    });
+  });
+
+  describe('multiple instances', () => {
+    const config = {
+      containerId: 'test-container',
+      apiKey: 'pk_test_123',
+      features: { alerts: true }
+    };
+
+    let second: HTMLElement;
+
+    beforeEach(() => {
+      second = document.createElement('div');
+      second.id = 'second-container';
+      document.body.appendChild(second);
+    });
+
+    afterEach(() => {
+      second.remove();
+    });
+
+    it('should only act on messages from its own iframe', async () => {
+      const first = new UnifiedPOSIntelligence();
+      const other = new UnifiedPOSIntelligence();
+      const firstIframe = await initWidget(first, config);
+      const otherIframe = await initWidget(other, { ...config, containerId: 'second-container' });
+
+      expect(firstIframe.handshake.payload.channel).not.toBe(otherIframe.handshake.payload.channel);
+
+      const onFirstAlert = vi.fn();
+      const onOtherAlert = vi.fn();
+      first.on('alert:new', onFirstAlert);
+      other.on('alert:new', onOtherAlert);
+
+      await otherIframe.send('ALERT_NEW', { id: 'a1', title: 'Rush', message: '', severity: 'info' });
+      await vi.waitFor(() => expect(onOtherAlert).toHaveBeenCalledTimes(1));
+      await settle();
+      expect(onFirstAlert).not.toHaveBeenCalled();
+
+      first.destroy();
+      other.destroy();
+    });
+
+    it('should reject envelopes stamped for another channel', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      const iframe = await initWidget(sdk, config);
+
+      const onAlert = vi.fn();
+      const onSecurity = vi.fn();
+      sdk.on('alert:new', onAlert);
+      sdk.on('security', onSecurity);
+
+      const sealed = await iframe.channel.seal({
+        ...createEnvelope('ALERT_NEW', { id: 'a1' }),
+        channel: 'ch_other',
+      });
+      dispatchFromIframe(sealed, IFRAME_ORIGIN, iframe.iframe.contentWindow);
+
+      await vi.waitFor(() => expect(onSecurity).toHaveBeenCalledWith(
+        expect.objectContaining({ reason: 'CHANNEL_MISMATCH', id: sealed.id })
+      ));
+      expect(onAlert).not.toHaveBeenCalled();
+      sdk.destroy();
+    });
+
+    it('should register initialized instances by id', async () => {
+      const first = new UnifiedPOSIntelligence();
+      const other = new UnifiedPOSIntelligence();
+      await initWidget(first, { ...config, instanceId: 'alerts-panel' });
+
+      expect(first.getInstanceId()).toBe('alerts-panel');
+      expect(getInstance('alerts-panel')).toBe(first);
+      expect(getInstances()).toContain(first);
+
+      await expect(other.init({ ...config, containerId: 'second-container', instanceId: 'alerts-panel' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+
+      first.destroy();
+      expect(getInstance('alerts-panel')).toBeUndefined();
+      expect(getInstances()).not.toContain(first);
+
+      await initWidget(other, { ...config, containerId: 'second-container', instanceId: 'alerts-panel' });
+      expect(getInstance('alerts-panel')).toBe(other);
+      other.destroy();
+    });
+
+    it('should mount a single-feature panel', async () => {
+      const sdk = new UnifiedPOSIntelligence();
+      await initWidget(sdk, { ...config, panel: 'alerts', defaultView: 'alerts/a-1' });
+
+      const src = new URL(container.querySelector('iframe')!.src);
+      expect(src.searchParams.get('panel')).toBe('alerts');
+      expect(src.searchParams.get('view')).toBe('alerts/a-1');
+
+      await expect(sdk.init({ ...config, panel: 'sentiment' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(sdk.init({ ...config, panel: 'alerts', defaultView: 'reddit' }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(sdk.init({ ...config, panel: 'dashboard' as never }))
+        .rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      sdk.destroy();
     });
   });
-});
\ No newline at end of file
+});
@@ -1,24 +1,241 @@
-interface UnifiedConfig {
-  containerId: string;
-  apiKey: string;
-  features: {
-    alerts?: boolean;
-    businessSentiment?: boolean;
-    competitorAnalysis?: boolean;
-    redditMonitoring?: boolean;
-  };
-  theme?: 'light' | 'dark' | 'auto';
-  position?: 'embedded' | 'floating' | 'sidebar';
-  locale?: string;
-  customStyles?: Record<string, string>;
-  defaultView?: 'alerts' | 'sentiment' | 'competitor' | 'reddit' | 'dashboard';
-}
+import { AlertsAPI } from './alerts';
+import {
+  clampHeight,
+  diffConfig,
+  getRuntimeConfig,
+  validateConnection,
+  validateDefaultView,
+  validateIngest,
+  validateLayout,
+  validatePanel,
+  validateQueue,
+  validateSizeBounds,
+} from './config';
+import { ConnectionMonitor } from './connection';
+import type { ConnectionState } from './connection';
+import { UnifiedSDKError } from './errors';
+import { TypedEventEmitter } from './events';
+import { IngestAPI } from './ingest';
+import { NotificationsAPI, showBrowserNotification } from './notifications';
+import { createLayout } from './layout';
+import type { WidgetLayout } from './layout';
+import { WidgetFallback } from './layout/fallback';
+import { OutboundQueue } from './queue';
+import { createIndexedDBStore, isIndexedDBAvailable } from './queue/indexeddb';
+import { createInstanceId, registerInstance, unregisterInstance } from './registry';
+import {
+  MessageType,
+  RpcEndpoint,
+  RpcError,
+  RpcMethod,
+  SUPPORTED_CAPABILITIES,
+  SUPPORTED_PROTOCOL,
+  SecureChannel,
+  createChannelId,
+  createEnvelope,
+  createMessageId,
+  formatViewPath,
+  getMerchantContextKey,
+  isEnvelope,
+  isSecureContextAvailable,
+  parseViewPath,
+  validateConfig,
+  validateMerchantContext,
+} from '@company/pos-intelligence-protocol';
+import type {
+  AlertUpdatedPayload,
+  AuthenticateResult,
+  Envelope,
+  ErrorPayload,
+  HandshakePayload,
+  IntelligenceSnapshot,
+  MerchantContext,
+  NotificationPayload,
+  ReadyPayload,
+  ResizePayload,
+  RpcCallOptions,
+  RpcEnvelope,
+  RpcHandler,
+  SecurityViolation,
+  ViewChangedPayload,
+  ViewRoute,
+} from '@company/pos-intelligence-protocol';
+import type {
+  FeatureFlags,
+  RuntimeConfig,
+  Theme,
+  UnifiedConfig,
+  UnifiedEventHandler,
+  UnifiedEventMap,
+  UnifiedEventName,
+  ViewName,
+  ViewParams,
+  ViewPath,
+} from './types';
+
+export { AlertsAPI } from './alerts';
+export { IngestAPI } from './ingest';
+export type { InventoryInput, OrderInput, ReviewInput, ShiftInput } from './ingest';
+export { NotificationsAPI } from './notifications';
+export { UnifiedSDKError } from './errors';
+export type { SDKErrorCode } from './errors';
+export { TypedEventEmitter } from './events';
+export { getInstance, getInstances } from './registry';
+export { PROTOCOL_VERSION, RpcError, getMerchantContextKey } from '@company/pos-intelligence-protocol';
+export type {
+  Capability,
+  MerchantContext,
+  RpcCallOptions,
+  RpcErrorShape,
+  RpcHandler,
+  RpcHandlerContext,
+  SecurityViolation,
+  SecurityViolationReason,
+} from '@company/pos-intelligence-protocol';
+export type {
+  Alert,
+  AlertCategory,
+  AlertEscalatedPayload,
+  AlertFilter,
+  AlertPolicy,
+  AlertRule,
+  AlertSeverity,
+  AlertSource,
+  AlertState,
+  AlertStatus,
+  AlertSummary,
+  AlertUpdatedPayload,
+  ConnectionChange,
+  ConnectionState,
+  DropPolicy,
+  EventsIngestParams,
+  EventsIngestResult,
+  FeatureFlags,
+  Incident,
+  IngestConfig,
+  Insight,
+  IntelligenceSnapshot,
+  InventoryEvent,
+  NotificationChannel,
+  NotificationPayload,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  OrderEvent,
+  PosEvent,
+  PosEventKind,
+  QueueConfig,
+  QuietHours,
+  ResizePayload,
+  ReviewEvent,
+  RuleCondition,
+  RuleMetric,
+  RuleOperator,
+  RuntimeConfig,
+  SentimentSummary,
+  ShiftEvent,
+  Theme,
+  UnifiedConfig,
+  UnifiedEventHandler,
+  UnifiedEventMap,
+  UnifiedEventName,
+  UrgentAction,
+  ViewChangedPayload,
+  ViewName,
+  ViewParams,
+  ViewPath,
+} from './types';
+
+const IFRAME_PATH = '/unified-intelligence';
+const READY_TIMEOUT_MS = 10000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const QUEUE_MAX_SIZE = 100;
+const INGEST_BATCH_SIZE = 50;
+const INGEST_FLUSH_MS = 1000;
+
+// Iframe message types that are re-emitted to the host as SDK events
+const MESSAGE_EVENTS: Record<string, UnifiedEventName> = {
+  [MessageType.ALERT_NEW]: 'alert:new',
+  [MessageType.ALERT_ACKNOWLEDGED]: 'alert:acknowledged',
+  [MessageType.ALERT_UPDATED]: 'alert:updated',
+  [MessageType.ALERT_ESCALATED]: 'alert:escalated',
+  [MessageType.NOTIFICATION]: 'notification',
+  [MessageType.SENTIMENT_UPDATED]: 'sentiment:updated',
+  [MessageType.INSIGHTS_UPDATED]: 'insights:updated',
+  [MessageType.URGENT_ACTIONS_UPDATED]: 'urgentActions:updated',
+  [MessageType.VIEW_CHANGED]: 'view:changed',
+  [MessageType.RESIZE]: 'resize',
+  [MessageType.TOKEN_EXPIRING]: 'auth:expiring',
+};
 
 export class UnifiedPOSIntelligence {
   private config?: UnifiedConfig;
   private iframe?: HTMLIFrameElement;
   private container?: HTMLElement;
   private iframeUrl = this.getIframeUrl();
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  // Calls waiting on one of those timers; teardown() rejects them instead of leaving them hanging
+  private waiters = new Set<(error: UnifiedSDKError) => void>();
+  private destroyed = false;
+  private events = new TypedEventEmitter<UnifiedEventMap>();
+  private rpc = new RpcEndpoint((message) => this.post(message));
+  private session?: ReadyPayload;
+  private channel = new SecureChannel();
+  private inbound: Promise<void> = Promise.resolve();
+  // Last token the iframe accepted; replayed after the iframe reloads
+  private authToken?: string;
+  private merchantContext?: MerchantContext;
+  private layout?: WidgetLayout;
+  // View the iframe is showing, so a reload reopens it instead of the dashboard
+  private route?: ViewRoute;
+  // Tags this mount's messages, so widgets sharing the page never act on each other's traffic
+  private channelId = createChannelId();
+  private readonly defaultInstanceId = createInstanceId();
+  private instanceId?: string;
+  private monitor?: ConnectionMonitor;
+  // Whether the current iframe document fired load; tells a blocked frame from one that never loaded
+  private iframeLoaded = false;
+  private loadFailed = false;
+  private fallback?: WidgetFallback;
+  // Last count the iframe reported, shown by the fallback
+  private unreadCount?: number;
+  // Settles the promise returned by init() once the handshake succeeds or fails
+  private pendingInit?: { resolve: () => void; reject: (error: UnifiedSDKError) => void };
+  /** Alerts held by the iframe; see {@link AlertsAPI} */
+  public readonly alerts = new AlertsAPI({
+    request: async (method, params) => {
+      this.assertNotDestroyed();
+      await this.waitForReady();
+      return this.rpc.call(method, params);
+    },
+    command: (method, params) => this.sendAlertAction(method, params),
+  });
+
+  /** The merchant's notification preferences; see {@link NotificationsAPI} */
+  public readonly notifications = new NotificationsAPI({
+    request: async (method, params) => {
+      this.assertNotDestroyed();
+      await this.waitForReady();
+      return this.rpc.call(method, params);
+    },
+  });
+
+  /** Feeds POS events to the iframe; see {@link IngestAPI} */
+  public readonly ingest = new IngestAPI({
+    // Batches carry the context they were recorded in, however late they arrive
+    send: (events) => this.sendCommand(RpcMethod.EVENTS_INGEST, {
+      events,
+      contextKey: getMerchantContextKey(this.merchantContext),
+    }),
+  });
+
+  // Messages sent before READY or while reconnecting, delivered in order once connected
+  private outbox = new OutboundQueue({
+    maxSize: QUEUE_MAX_SIZE,
+    dropPolicy: 'oldest',
+    onDrop: ({ id, type }) => this.events.emit('queue:dropped', { id, type }),
+    onStoreError: (error) => this.reportError({ code: 'QUEUE_STORAGE_FAILED', message: error.message }),
+  });
 
   private getIframeUrl(): string {
     // Try different ways to get the iframe URL
@@ -39,81 +256,957 @@ export class UnifiedPOSIntelligence {
   }
 
   async init(config: UnifiedConfig): Promise<void> {
+    this.assertNotDestroyed();
+
     // Validate container exists
     const container = document.getElementById(config.containerId);
     if (!container) {
-      throw new Error('Container element not found');
+      throw new UnifiedSDKError('CONTAINER_NOT_FOUND', 'Container element not found');
     }
 
     // Validate API key format (must start with pk_)
     if (!config.apiKey.startsWith('pk_')) {
-      throw new Error('Invalid API key format');
+      throw new UnifiedSDKError('INVALID_API_KEY', 'Invalid API key format');
     }
 
+    const configError =
+      validateConfig(getRuntimeConfig(config)) ??
+      validateSizeBounds(config) ??
+      validateLayout(config) ??
+      validateDefaultView(config) ??
+      validatePanel(config) ??
+      validateConnection(config) ??
+      validateQueue(config) ??
+      validateIngest(config);
+    if (configError) {
+      throw new UnifiedSDKError('INVALID_CONFIG', configError);
+    }
+
+    const instanceId = config.instanceId ?? this.defaultInstanceId;
+    if (!registerInstance(instanceId, this)) {
+      throw new UnifiedSDKError('INVALID_CONFIG', `Another widget is already registered as "${instanceId}"`);
+    }
+    if (this.instanceId !== undefined && this.instanceId !== instanceId) {
+      unregisterInstance(this.instanceId, this);
+    }
+    this.instanceId = instanceId;
+
+    // Calling init() again remounts: drop the previous iframe and listeners first
+    this.teardown();
+    this.channelId = createChannelId();
+
     this.config = config;
     this.container = container;
+    this.monitor = this.createMonitor(config);
+    this.configureQueue(config);
+    this.ingest.configure({
+      maxBatchSize: config.ingest?.maxBatchSize ?? INGEST_BATCH_SIZE,
+      flushInterval: config.ingest?.flushInterval ?? INGEST_FLUSH_MS,
+    });
+    this.route = config.defaultView === undefined ? undefined : parseViewPath(config.defaultView) ?? undefined;
 
     // Create and configure iframe
     this.iframe = document.createElement('iframe');
-    this.iframe.src = `${this.iframeUrl}/unified-intelligence`;
+    this.iframe.src = this.getIframeSrc();
     this.iframe.setAttribute('sandbox', 'allow-scripts allow-same-origin allow-forms');
     this.iframe.style.width = '100%';
-    this.iframe.style.height = '100%';
+    this.iframe.style.height = this.isAutoResizing() && config.minHeight !== undefined
+      ? `${config.minHeight}px`
+      : '100%';
     this.iframe.style.border = 'none';
 
-    // Add iframe to container
-    container.appendChild(this.iframe);
+    // Embedded goes straight into the container; floating and sidebar add their own chrome
+    this.layout = this.createLayout(config, container);
+    this.layout.mount(this.iframe);
 
     // Set up postMessage communication
-    this.iframe.addEventListener('load', () => {
-      this.sendHandshake();
-    });
+    this.iframe.addEventListener('load', this.handleLoad);
 
     // Listen for messages from iframe
-    window.addEventListener('message', this.handleMessage.bind(this));
+    window.addEventListener('message', this.handleMessage);
+
+    // Resolves on a verified READY; rejects on timeout, a failed handshake or unmount
+    await new Promise<void>((resolve, reject) => {
+      this.pendingInit = { resolve, reject };
+      this.monitor?.connecting();
+    });
+  }
+
+  /**
+   * Moves the widget into another container, e.g. when a re-render replaces
+   * the element hosting it, without starting over. Browsers reload a moved
+   * iframe, so it reconnects and gets its merchant context, token and view
+   * back; commands sent meanwhile wait in the queue.
+   */
+  moveTo(containerId: string): void {
+    this.assertNotDestroyed();
+    const { config, iframe, layout } = this;
+    if (!config || !iframe || !layout) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+    if (containerId === config.containerId) return;
+
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new UnifiedSDKError('CONTAINER_NOT_FOUND', 'Container element not found');
+    }
+
+    this.config = { ...config, containerId };
+    this.container = container;
+    layout.destroy();
+    this.layout = this.createLayout(this.config, container);
+    this.session = undefined;
+    this.channel.reset();
+    this.iframeLoaded = false;
+    this.layout.mount(iframe);
+  }
+
+  /**
+   * Reloads the iframe with a fresh session and resolves once the new
+   * iframe has completed the handshake.
+   */
+  async refresh(): Promise<void> {
+    this.assertNotDestroyed();
+
+    if (!this.iframe) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+
+    this.reload();
+    await this.waitForReady();
+  }
+
+  /**
+   * Removes the iframe, listeners and pending timers. The instance cannot be
+   * used afterwards; create a new one to mount the widget again.
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+
+    const destroyed = new UnifiedSDKError('DESTROYED', 'SDK instance has been destroyed');
+    this.teardown(destroyed);
+    this.ingest.cancel(destroyed);
+    this.outbox.discard(() => true);
+    this.events.removeAllListeners();
+    if (this.instanceId !== undefined) {
+      unregisterInstance(this.instanceId, this);
+      this.instanceId = undefined;
+    }
+    this.config = undefined;
+    this.container = undefined;
+    this.destroyed = true;
+  }
+
+  /**
+   * Subscribes to an event raised by the iframe. Returns an unsubscribe function.
+   */
+  public on<K extends UnifiedEventName>(event: K, handler: UnifiedEventHandler<K>): () => void {
+    this.assertNotDestroyed();
+    return this.events.on(event, handler);
+  }
+
+  public off<K extends UnifiedEventName>(event: K, handler: UnifiedEventHandler<K>): void {
+    this.events.off(event, handler);
+  }
+
+  public once<K extends UnifiedEventName>(event: K, handler: UnifiedEventHandler<K>): () => void {
+    this.assertNotDestroyed();
+    return this.events.once(event, handler);
+  }
+
+  /**
+   * Calls a method exposed by the iframe and resolves with its result.
+   * Rejects with an `RpcError` on timeout, cancellation or a remote failure.
+   */
+  public async call<T = unknown>(method: string, params?: unknown, options?: RpcCallOptions): Promise<T> {
+    this.assertNotDestroyed();
+    if (!this.iframe) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+
+    return this.rpc.call<T>(method, params, options);
+  }
+
+  /**
+   * Exposes a host method the iframe can call. Returns a function that
+   * removes it.
+   */
+  public handle(method: string, handler: RpcHandler): () => void {
+    this.assertNotDestroyed();
+    return this.rpc.register(method, handler);
+  }
+
+  /**
+   * Hands the merchant bearer token to the iframe, which keeps it in memory
+   * only. Waits for the handshake if the iframe is not ready yet.
+   */
+  public async authenticate(token: string): Promise<void> {
+    this.assertNotDestroyed();
+    if (typeof token !== 'string' || token.length === 0) {
+      throw new UnifiedSDKError('INVALID_TOKEN', 'A non-empty token is required');
+    }
+
+    await this.waitForReady();
+    await this.call<AuthenticateResult>(RpcMethod.AUTHENTICATE, { token });
+    this.authToken = token;
+  }
+
+  /**
+   * Changes theme, locale, feature flags or custom styles on the live widget
+   * without reloading it. Feature flags merge into the current ones; custom
+   * styles replace the previous set. Only the settings that changed are sent.
+   */
+  public updateConfig(changes: RuntimeConfig): void {
+    this.assertNotDestroyed();
+    const config = this.config;
+    if (!config) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+
+    const error = validateConfig(changes);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_CONFIG', error);
+    }
+
+    const diff = diffConfig(config, changes);
+    if (Object.keys(diff).length === 0) return;
+
+    this.config = { ...config, ...diff, features: { ...config.features, ...diff.features } };
+
+    // Before READY there is no session; the full config follows the handshake instead
+    if (this.session) {
+      this.post(createEnvelope(MessageType.CONFIG, diff));
+    }
+  }
+
+  public setTheme(theme: Theme): void {
+    this.updateConfig({ theme });
+  }
+
+  public setLocale(locale: string): void {
+    this.updateConfig({ locale });
+  }
+
+  public setFeatures(features: FeatureFlags): void {
+    this.updateConfig({ features });
+  }
+
+  /**
+   * Switches the widget to another merchant or location without reloading
+   * the iframe. Each context keeps its own alerts and state in the iframe.
+   */
+  public async setMerchantContext(context: MerchantContext): Promise<void> {
+    this.assertNotDestroyed();
+    const error = validateMerchantContext(context);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_CONTEXT', error);
+    }
+
+    // The iframe drops the previous merchant's token; don't hand it back after a reload
+    if (this.merchantContext && this.merchantContext.merchantId !== context.merchantId) {
+      this.authToken = undefined;
+      this.unreadCount = undefined;
+    }
+
+    // Waiting events belong to the context they were recorded in
+    void this.ingest.flush().catch(() => undefined);
+
+    this.merchantContext = { ...context };
+    await this.waitForReady();
+    await this.call<MerchantContext>(RpcMethod.SET_MERCHANT_CONTEXT, this.merchantContext);
+    if (this.config) this.useQueueStore(this.config);
+    this.refreshUnreadCount();
+    this.events.emit('context:changed', { ...context });
+  }
+
+  public getMerchantContext(): MerchantContext | undefined {
+    return this.merchantContext ? { ...this.merchantContext } : undefined;
+  }
+
+  /**
+   * Opens the floating panel or sidebar drawer, or unhides the embedded widget.
+   */
+  public showDashboard(): void {
+    this.assertNotDestroyed();
+    if (!this.layout) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+    this.layout.show();
+  }
+
+  public hideDashboard(): void {
+    this.assertNotDestroyed();
+    if (!this.layout) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+    this.layout.hide();
+  }
+
+  public isDashboardOpen(): boolean {
+    return this.layout?.isOpen() ?? false;
+  }
+
+  /**
+   * Alerts, sentiment, insights and urgent actions for the active merchant.
+   * Later changes arrive as `alert:*`, `sentiment:updated`, `insights:updated`
+   * and `urgentActions:updated` events.
+   */
+  public async getSnapshot(): Promise<IntelligenceSnapshot> {
+    this.assertNotDestroyed();
+    await this.waitForReady();
+    const snapshot = await this.rpc.call<IntelligenceSnapshot>(RpcMethod.INTELLIGENCE_GET_SNAPSHOT);
+    this.unreadCount = snapshot.alerts.filter((alert) => alert.unread).length;
+    return snapshot;
+  }
+
+  /**
+   * Navigates the iframe to a view or deep link such as `alerts/a-123`, and
+   * opens the floating panel or sidebar so the view is visible. Rejects with
+   * `INVALID_VIEW` for unknown views, or an `RpcError` when the iframe cannot
+   * show it (e.g. the feature is disabled or the alert does not exist).
+   */
+  public async switchView(view: ViewPath, params?: ViewParams): Promise<void> {
+    this.assertNotDestroyed();
+    const route = parseViewPath(view, params);
+    if (!route) {
+      throw new UnifiedSDKError('INVALID_VIEW', `Unknown view "${view}"`);
+    }
+
+    await this.waitForReady();
+    this.route = await this.rpc.call<ViewRoute>(RpcMethod.VIEW_SWITCH, route);
+    this.layout?.show();
+  }
+
+  /**
+   * View the iframe last reported, or undefined before it reports one.
+   */
+  public getCurrentView(): ViewName | undefined {
+    return this.route?.view;
+  }
+
+  /**
+   * Name this widget is registered under (see `getInstance()`), or undefined
+   * before init().
+   */
+  public getInstanceId(): string | undefined {
+    return this.instanceId;
+  }
+
+  /** Same as `alerts.acknowledge()` */
+  public async acknowledgeAlert(alertId: string): Promise<void> {
+    await this.alerts.acknowledge(alertId);
+  }
+
+  /** Same as `alerts.snooze()` */
+  public async snoozeAlert(alertId: string, until: Date | number): Promise<void> {
+    await this.alerts.snooze(alertId, until);
+  }
+
+  /** Same as `alerts.dismiss()` */
+  public async dismissAlert(alertId: string): Promise<void> {
+    await this.alerts.dismiss(alertId);
+  }
+
+  /**
+   * Commands waiting for the iframe to connect or reconnect.
+   */
+  public getQueueSize(): number {
+    return this.outbox.size;
+  }
+
+  /**
+   * Whether the iframe is answering: `connecting` until READY, `degraded`
+   * after a missed heartbeat, `disconnected` while waiting to reload it.
+   */
+  public getConnectionState(): ConnectionState {
+    return this.monitor?.getState() ?? 'disconnected';
+  }
+
+  /**
+   * Protocol version agreed with the iframe, or undefined before READY.
+   */
+  public getProtocolVersion(): number | undefined {
+    return this.session?.protocolVersion;
+  }
+
+  public isDestroyed(): boolean {
+    return this.destroyed;
+  }
+
+  /** `reason` rejects the calls still waiting on the iframe */
+  private teardown(reason = new UnifiedSDKError('CANCELLED', 'The widget was unmounted')): void {
+    this.clearTimers();
+    this.waiters.forEach((cancel) => cancel(reason));
+    // Their callers are cancelled below, so a remount must not replay them
+    this.outbox.discard((message) => message.type === MessageType.RPC_REQUEST && !message.durable);
+    this.monitor?.stop();
+    this.monitor = undefined;
+    this.settleInit(new UnifiedSDKError('CANCELLED', 'The widget was unmounted before it connected'));
+    this.hideFallback();
+    this.iframeLoaded = false;
+    this.loadFailed = false;
+    this.unreadCount = undefined;
+    this.layout?.destroy();
+    this.layout = undefined;
+    this.session = undefined;
+    this.authToken = undefined;
+    this.merchantContext = undefined;
+    this.channel.reset();
+    this.rpc.cancelAll(reason.code, reason.message);
+
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('message', this.handleMessage);
+    }
+
+    if (this.iframe) {
+      this.iframe.removeEventListener('load', this.handleLoad);
+      this.iframe.remove();
+      this.iframe = undefined;
+    }
+  }
+
+  private assertNotDestroyed(): void {
+    if (this.destroyed) {
+      throw new UnifiedSDKError('DESTROYED', 'SDK instance has been destroyed');
+    }
+  }
+
+  private waitForReady(): Promise<void> {
+    if (this.session) return Promise.resolve();
+    if (!this.iframe) {
+      return Promise.reject(new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const settle = () => {
+        this.clearTimer(timer);
+        this.waiters.delete(cancel);
+        unsubscribe();
+      };
+      const cancel = (error: UnifiedSDKError) => {
+        settle();
+        reject(error);
+      };
+      const unsubscribe = this.events.once('ready', () => {
+        settle();
+        resolve();
+      });
+      const timer = this.setTimer(() => {
+        cancel(new UnifiedSDKError('LOAD_TIMEOUT', 'Iframe did not complete the handshake in time'));
+      }, this.config?.readyTimeout ?? READY_TIMEOUT_MS);
+      this.waiters.add(cancel);
+    });
+  }
+
+  private setTimer(callback: () => void, ms: number): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      callback();
+    }, ms);
+    this.timers.add(timer);
+    return timer;
+  }
+
+  private clearTimer(timer: ReturnType<typeof setTimeout>): void {
+    clearTimeout(timer);
+    this.timers.delete(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private post(message: RpcEnvelope): void {
+    if (!this.canDeliver()) {
+      this.outbox.enqueue({ id: message.id, type: message.type, payload: message.payload, queuedAt: Date.now() });
+      return;
+    }
+    this.deliver(message);
+  }
+
+  // Durable stored messages go ahead of anything sent after them, so delivery waits for the restore
+  private canDeliver(): boolean {
+    return !!this.session && this.monitor?.getState() !== 'disconnected' && !this.outbox.isRestoring();
   }
 
-  private sendHandshake(): void {
-    if (!this.iframe?.contentWindow || !this.config) return;
+  private flushQueue(): void {
+    if (!this.canDeliver()) return;
+    this.outbox.drain().forEach((message) => {
+      if (!message.durable) {
+        this.deliver(message);
+        return;
+      }
+      // Stays stored until the iframe answers, so a reload before then replays it
+      const { method, params } = message.payload as { method: string; params?: unknown };
+      this.rpc.call(method, params).then(
+        () => this.outbox.acknowledge(message),
+        (error: RpcError) => {
+          // An answered error would only repeat; unanswered calls are retried on the next page
+          if (!['TIMEOUT', 'CANCELLED', 'DESTROYED'].includes(error.code)) this.outbox.acknowledge(message);
+        }
+      );
+    });
+  }
+
+  private configureQueue(config: UnifiedConfig): void {
+    this.outbox.configure({
+      maxSize: config.queue?.maxSize ?? QUEUE_MAX_SIZE,
+      dropPolicy: config.queue?.dropPolicy ?? 'oldest',
+    });
+    this.useQueueStore(config);
+  }
+
+  /**
+   * Points durable commands at the store of the widget's stable id (its
+   * `instanceId`, else its container) and current merchant context, and
+   * replays what a previous page left there. Commands of the previous
+   * context stay in its store.
+   */
+  private useQueueStore(config: UnifiedConfig): void {
+    if (config.queue?.persist !== true || !isIndexedDBAvailable()) {
+      this.outbox.configure({ store: undefined });
+      return;
+    }
+    const owner = `${config.instanceId ?? config.containerId}|${getMerchantContextKey(this.merchantContext)}`;
+    this.outbox.discard((message) => message.durable === true);
+    this.outbox.release();
+    this.outbox.configure({ store: createIndexedDBStore(owner) });
+    void this.outbox.restore().then(() => this.flushQueue());
+  }
+
+  private async sendAlertAction(method: string, params: { alertId: string }): Promise<void> {
+    this.assertNotDestroyed();
+    if (typeof params.alertId !== 'string' || params.alertId.length === 0) {
+      throw new UnifiedSDKError('INVALID_ALERT', 'An alert id is required');
+    }
+    await this.sendCommand(method, params);
+  }
+
+  // Calls the iframe now, or queues the call durably while it is connecting or offline
+  private async sendCommand(method: string, params: unknown): Promise<void> {
+    this.assertNotDestroyed();
+    if (!this.config) {
+      throw new UnifiedSDKError('NOT_INITIALIZED', 'SDK has not been initialized');
+    }
+
+    if (this.canDeliver()) {
+      await this.rpc.call(method, params);
+      return;
+    }
+
+    // Nobody awaits the reply of a replayed command; the iframe's events report the outcome
+    const queued = this.outbox.enqueue({
+      id: createMessageId(),
+      type: MessageType.RPC_REQUEST,
+      payload: { method, params },
+      queuedAt: Date.now(),
+      durable: true,
+    });
+    if (!queued) {
+      throw new UnifiedSDKError('QUEUE_FULL', 'The outbound queue is full');
+    }
+  }
+
+  private deliver(message: RpcEnvelope): void {
+    const target = this.iframe?.contentWindow;
+    if (!target) return;
+
+    const envelope = { ...message, timestamp: Date.now() };
 
-    const message = {
-      type: 'HANDSHAKE',
+    this.channel
+      .seal(envelope)
+      .then((sealed) => target.postMessage(sealed, this.iframeUrl))
+      .catch((error) => this.reportError({ code: 'SIGNING_FAILED', message: error.message }));
+  }
+
+  private createMonitor(config: UnifiedConfig): ConnectionMonitor {
+    return new ConnectionMonitor({
+      readyTimeout: config.readyTimeout ?? READY_TIMEOUT_MS,
+      heartbeatInterval: config.heartbeatInterval ?? HEARTBEAT_INTERVAL_MS,
+      maxReconnectAttempts: config.maxReconnectAttempts ?? MAX_RECONNECT_ATTEMPTS,
+      ping: () => this.post(createEnvelope(MessageType.PING)),
+      reload: () => this.reload(),
+      onChange: (change) => this.events.emit('connection:changed', change),
+      onReadyTimeout: () => {
+        this.settleInit(new UnifiedSDKError('LOAD_TIMEOUT', 'Iframe did not complete the handshake in time'));
+        this.reportLoadFailure();
+      },
+      onGiveUp: (attempts) => {
+        this.reportError({
+          code: 'CONNECTION_LOST',
+          message: `Iframe stopped responding and did not recover after ${attempts} reloads`,
+        });
+        this.showFallback();
+      },
+    });
+  }
+
+  private settleInit(error?: UnifiedSDKError): void {
+    const pending = this.pendingInit;
+    this.pendingInit = undefined;
+    if (!pending) return;
+
+    if (error) {
+      pending.reject(error);
+    } else {
+      pending.resolve();
+    }
+  }
+
+  // A failed handshake is not fixed by reloading, so the monitor stays down
+  private failHandshake(message: string): void {
+    this.monitor?.fail(false);
+    this.settleInit(new UnifiedSDKError('HANDSHAKE_FAILED', message));
+    this.showFallback();
+  }
+
+  /**
+   * Reported once per outage. A frame that loaded but never answered was most
+   * likely refused by CSP `frame-ancestors` or a kiosk policy; browsers give
+   * the host no direct signal for either.
+   */
+  private reportLoadFailure(): void {
+    if (!this.loadFailed) {
+      this.loadFailed = true;
+      const src = this.iframe?.src;
+      this.reportError(
+        this.iframeLoaded
+          ? {
+              code: 'IFRAME_BLOCKED',
+              message: 'Iframe loaded but never answered the handshake; it may be blocked by CSP frame-ancestors',
+              data: { src },
+            }
+          : { code: 'IFRAME_LOAD_FAILED', message: 'Iframe did not load', data: { src } }
+      );
+    }
+    this.showFallback();
+  }
+
+  // A blocked or broken frame otherwise leaves a blank box; stand in with plain DOM until READY
+  private showFallback(): void {
+    const iframe = this.iframe;
+    if (!iframe || !this.config || this.config.fallback === false) return;
+
+    iframe.hidden = true;
+    if (!this.fallback) {
+      this.fallback = new WidgetFallback(this.config.fallbackUrl ?? this.getIframeSrc(), this.unreadCount);
+      iframe.after(this.fallback.element);
+    }
+  }
+
+  private hideFallback(): void {
+    this.fallback?.destroy();
+    this.fallback = undefined;
+    if (this.iframe) this.iframe.hidden = false;
+  }
+
+  private createLayout(config: UnifiedConfig, container: HTMLElement): WidgetLayout {
+    return createLayout(config, container, {
+      onOpenChange: (open) => this.events.emit('dashboard:toggled', { open }),
+    });
+  }
+
+  private reload(): void {
+    if (!this.iframe) return;
+
+    this.session = undefined;
+    this.channel.reset();
+    this.iframeLoaded = false;
+    this.iframe.src = this.getIframeSrc();
+  }
+
+  private handleLoad = (): void => {
+    // Also covers the iframe navigating or crashing and reloading on its own
+    this.iframeLoaded = true;
+    this.monitor?.connecting();
+    void this.sendHandshake();
+  };
+
+  private async sendHandshake(): Promise<void> {
+    const iframe = this.iframe;
+    if (!iframe?.contentWindow || !this.config) return;
+
+    if (!isSecureContextAvailable()) {
+      const message = 'Web Crypto is unavailable; the widget must be served over HTTPS or localhost';
+      this.reportError({ code: 'INSECURE_CONTEXT', message });
+      this.failHandshake(message);
+      return;
+    }
+
+    this.session = undefined;
+    const publicKey = await this.channel.createPublicKey();
+
+    // The iframe may have been replaced or destroyed while the key was generated
+    if (iframe !== this.iframe || !iframe.contentWindow || !this.config) return;
+
+    const message = createEnvelope<HandshakePayload>(MessageType.HANDSHAKE, {
       apiKey: this.config.apiKey,
       features: this.config.features,
-      timestamp: Date.now()
-    };
+      protocol: SUPPORTED_PROTOCOL,
+      // Without the capability the iframe never sends RESIZE
+      capabilities: this.isAutoResizing()
+        ? SUPPORTED_CAPABILITIES
+        : SUPPORTED_CAPABILITIES.filter((capability) => capability !== 'resize'),
+      publicKey,
+      channel: this.channelId,
+    });
+
+    iframe.contentWindow.postMessage(message, this.iframeUrl);
+  }
+
+  // Errors still surface in the console when the host has not subscribed
+  private reportError(error: ErrorPayload): void {
+    if (this.destroyed) return;
+    if (this.events.listenerCount('error') === 0) {
+      console.error('Iframe error:', error);
+    }
+    this.events.emit('error', error);
+  }
 
-    this.iframe.contentWindow.postMessage(message, this.iframeUrl);
+  private reportSecurityViolation(violation: SecurityViolation, source: 'sdk' | 'iframe' = 'sdk'): void {
+    console.warn('Dropped postMessage that failed verification:', violation);
+    this.events.emit('security', { ...violation, source });
   }
 
-  private handleMessage(event: MessageEvent): void {
+  private async handleReady(message: Envelope<ReadyPayload>): Promise<void> {
+    const payload = message.payload;
+    const version = payload?.protocolVersion;
+    if (
+      !payload ||
+      !Number.isInteger(payload.protocolVersion) ||
+      payload.protocolVersion < SUPPORTED_PROTOCOL.min ||
+      payload.protocolVersion > SUPPORTED_PROTOCOL.max
+    ) {
+      const message = `Iframe answered with protocol v${version}, ` +
+        `SDK supports v${SUPPORTED_PROTOCOL.min}-${SUPPORTED_PROTOCOL.max}`;
+      this.reportError({ code: 'PROTOCOL_MISMATCH', message });
+      this.failHandshake(message);
+      return;
+    }
+
+    try {
+      await this.channel.establish(payload.publicKey);
+    } catch {
+      this.reportSecurityViolation({ reason: 'BAD_SIGNATURE', type: message.type, id: message.id });
+      return;
+    }
+
+    // READY is the first signed envelope, proving the iframe holds the matching key
+    const check = await this.channel.open(message);
+    if (!check.ok) {
+      this.channel.reset();
+      this.reportSecurityViolation({ reason: check.reason, type: message.type, id: message.id });
+      return;
+    }
+
+    this.session = payload;
+
+    // Settings may have changed since the handshake went out; apply them before anything else
+    if (this.config) {
+      this.deliver(createEnvelope(MessageType.CONFIG, getRuntimeConfig(this.config)));
+    }
+    this.monitor?.ready();
+    this.loadFailed = false;
+    this.hideFallback();
+    this.events.emit('ready', payload);
+    this.settleInit();
+
+    // A reloaded iframe starts blank; restore the context before the token bound to it
+    if (this.merchantContext) {
+      this.call(RpcMethod.SET_MERCHANT_CONTEXT, this.merchantContext).catch((error) => {
+        this.reportError({ code: 'CONTEXT_FAILED', message: error.message });
+      });
+    }
+    if (this.authToken) {
+      this.authenticate(this.authToken).catch((error) => {
+        this.reportError({ code: 'AUTH_FAILED', message: error.message });
+      });
+    }
+    this.refreshUnreadCount();
+    this.flushQueue();
+  }
+
+  private refreshAuthToken(): void {
+    const provider = this.config?.getAuthToken;
+    if (!provider) return;
+
+    Promise.resolve()
+      .then(() => provider())
+      .then((token) => this.authenticate(token))
+      .catch((error) => {
+        this.reportError({ code: 'TOKEN_REFRESH_FAILED', message: error.message });
+      });
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
     // Verify origin
     if (event.origin !== this.iframeUrl) return;
 
-    // Handle different message types
-    switch (event.data.type) {
-      case 'READY':
-        // Iframe is ready
-        break;
-      case 'ERROR':
-        console.error('Iframe error:', event.data.payload);
-        break;
-      default:
-        // Handle other message types
-        break;
+    // Every widget shares the origin; only messages from this instance's own frame count
+    if (!this.iframe || event.source !== this.iframe.contentWindow) return;
+
+    if (!isEnvelope(event.data)) return;
+
+    const message = event.data;
+    this.inbound = this.inbound.then(() => this.receive(message)).catch((error) => {
+      console.error('Failed to handle iframe message:', error);
+    });
+  };
+
+  // Runs one message at a time so verification never reorders the stream
+  private async receive(message: Envelope): Promise<void> {
+    if (this.destroyed) return;
+
+    if (!this.channel.isEstablished()) {
+      if (
+        (message.type === MessageType.READY || message.type === MessageType.ERROR) &&
+        message.channel !== this.channelId
+      ) {
+        this.reportSecurityViolation({ reason: 'CHANNEL_MISMATCH', type: message.type, id: message.id });
+      } else if (message.type === MessageType.READY) {
+        await this.handleReady(message);
+      } else if (message.type === MessageType.ERROR) {
+        // Handshake failures (e.g. protocol mismatch) arrive before a session exists
+        this.reportError(message.payload);
+        this.failHandshake(message.payload?.message ?? 'The iframe rejected the handshake');
+      } else {
+        this.reportSecurityViolation({ reason: 'NO_SESSION', type: message.type, id: message.id });
+      }
+      return;
+    }
+
+    const check = await this.channel.open(message);
+    if (this.destroyed) return;
+    if (!check.ok) {
+      this.reportSecurityViolation({ reason: check.reason, type: message.type, id: message.id });
+      return;
+    }
+    if (message.channel !== this.channelId) {
+      this.reportSecurityViolation({ reason: 'CHANNEL_MISMATCH', type: message.type, id: message.id });
+      return;
+    }
+
+    this.dispatch(message);
+  }
+
+  private dispatch(message: Envelope): void {
+    if (this.rpc.handleMessage(message)) return;
+
+    const { type, payload } = message;
+
+    if (type === MessageType.ERROR) {
+      this.reportError(payload);
+      return;
+    }
+
+    if (type === MessageType.SECURITY_VIOLATION) {
+      this.reportSecurityViolation(payload, 'iframe');
+      return;
+    }
+
+    const eventName = MESSAGE_EVENTS[type];
+    if (eventName) {
+      this.events.emit(eventName, payload);
+    }
+
+    if (type === MessageType.PONG) {
+      this.monitor?.pong();
+    }
+
+    if (type === MessageType.TOKEN_EXPIRING) {
+      this.refreshAuthToken();
+    }
+
+    if (type === MessageType.RESIZE) {
+      this.applyContentSize(payload);
+    }
+
+    if (type === MessageType.VIEW_CHANGED) {
+      this.trackView(payload);
+    }
+
+    if (type === MessageType.DISMISS && this.config?.position && this.config.position !== 'embedded') {
+      this.layout?.hide();
+    }
+
+    // The iframe reports on every location; the badge and deep links follow the one on screen
+    if (type === MessageType.ALERT_UPDATED && this.isCurrentContext(payload?.contextKey)) {
+      this.applyUnreadCount((payload as AlertUpdatedPayload | undefined)?.unreadCount);
     }
+
+    if (type === MessageType.NOTIFICATION && (payload as NotificationPayload | undefined)?.channels?.includes('browser')) {
+      const current = this.isCurrentContext(payload.contextKey);
+      showBrowserNotification(payload, (alertId) => {
+        if (current) this.switchView(alertId ? `alerts/${alertId}` : 'alerts').catch(() => undefined);
+      });
+    }
+  }
+
+  private isCurrentContext(contextKey: unknown): boolean {
+    return contextKey === undefined || contextKey === getMerchantContextKey(this.merchantContext);
+  }
+
+  // Keeps the launcher badge in step with the iframe; a missed update only leaves the badge stale
+  private refreshUnreadCount(): void {
+    const layout = this.layout;
+    if (!layout?.setUnreadCount || !this.session) return;
+
+    this.rpc
+      .call<number>(RpcMethod.ALERTS_GET_UNREAD_COUNT)
+      .then((count) => {
+        if (layout === this.layout) this.applyUnreadCount(count);
+      })
+      .catch(() => undefined);
+  }
+
+  // ALERT_UPDATED carries the new count, so no round trip is needed after the first fetch
+  private applyUnreadCount(count: number | undefined): void {
+    if (typeof count !== 'number') return;
+    this.unreadCount = count;
+    this.layout?.setUnreadCount?.(count);
+  }
+
+  private trackView(payload: ViewChangedPayload | undefined): void {
+    const route = payload && parseViewPath(payload.view, payload.params);
+    if (route) this.route = route;
+  }
+
+  private getIframeSrc(): string {
+    const query = new URLSearchParams();
+    if (this.route && (this.route.view !== 'dashboard' || this.route.params)) {
+      query.set('view', formatViewPath(this.route));
+    }
+    if (this.config?.panel) {
+      query.set('panel', this.config.panel);
+    }
+
+    const src = `${this.iframeUrl}${IFRAME_PATH}`;
+    const search = query.toString();
+    return search ? `${src}?${search}` : src;
+  }
+
+  // Floating and sidebar panels have a fixed size, so only embedded layouts follow content
+  private isAutoResizing(): boolean {
+    const position = this.config?.position ?? 'embedded';
+    return position === 'embedded' && this.config?.autoResize !== false;
+  }
+
+  private applyContentSize(size: ResizePayload | undefined): void {
+    if (!this.iframe || !this.config || !this.isAutoResizing()) return;
+    if (!this.session?.capabilities.includes('resize')) return;
+    if (typeof size?.height !== 'number' || !Number.isFinite(size.height)) return;
+
+    this.iframe.style.height = `${clampHeight(size.height, this.config)}px`;
   }
 
   // Public method to trigger demo scenarios
   public triggerScenario(scenario: string): void {
-    if (!this.iframe?.contentWindow) return;
-
-    const message = {
-      type: 'TRIGGER_SCENARIO',
+    this.assertNotDestroyed();
+    this.post({
+      type: MessageType.TRIGGER_SCENARIO,
+      id: createMessageId(),
       payload: { scenario },
-      timestamp: Date.now()
-    };
-
-    this.iframe.contentWindow.postMessage(message, this.iframeUrl);
+    });
   }
 }
\ No newline at end of file
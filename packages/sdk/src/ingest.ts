@@ -0,0 +1,131 @@
+import { validatePosEvent } from '@company/pos-intelligence-protocol';
+import type {
+  InventoryEvent,
+  OrderEvent,
+  PosEvent,
+  ReviewEvent,
+  ShiftEvent,
+} from '@company/pos-intelligence-protocol';
+import { UnifiedSDKError } from './errors';
+
+type Time = Date | number;
+
+/** Times may be Dates; `timestamp` defaults to now */
+type EventInput<T extends PosEvent> = Omit<T, 'kind' | 'timestamp'> & { timestamp?: Time };
+
+export type OrderInput = EventInput<OrderEvent>;
+export type ReviewInput = EventInput<ReviewEvent>;
+export type InventoryInput = EventInput<InventoryEvent>;
+export type ShiftInput = Omit<EventInput<ShiftEvent>, 'start' | 'end'> & { start: Time; end?: Time };
+
+export interface IngestOptions {
+  /** Events sent in one message at most */
+  maxBatchSize: number;
+  /** Milliseconds an event waits for others to join its batch */
+  flushInterval: number;
+}
+
+export interface IngestTransport {
+  /** Delivers a batch now, or queues it while the iframe is away */
+  send(events: PosEvent[]): Promise<void>;
+}
+
+interface PendingBatch {
+  events: PosEvent[];
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  promise: Promise<void>;
+}
+
+const toTime = (time: Time) => (time instanceof Date ? time.getTime() : time);
+
+function createBatch(): PendingBatch {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { events: [], resolve, reject, promise };
+}
+
+/**
+ * `sdk.ingest`: feeds the merchant's POS activity to the iframe, which keeps
+ * it for the rules and views. Each event is checked when it is handed over,
+ * then sent in batches; the promise resolves once its batch is delivered or
+ * queued for delivery.
+ */
+export class IngestAPI {
+  private batch?: PendingBatch;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private transport: IngestTransport,
+    private options: IngestOptions = { maxBatchSize: 50, flushInterval: 1000 }
+  ) {}
+
+  configure(changes: Partial<IngestOptions>): void {
+    this.options = { ...this.options, ...changes };
+  }
+
+  order({ timestamp, ...order }: OrderInput): Promise<void> {
+    return this.add({ ...order, kind: 'order', timestamp: toTime(timestamp ?? Date.now()) });
+  }
+
+  review({ timestamp, ...review }: ReviewInput): Promise<void> {
+    return this.add({ ...review, kind: 'review', timestamp: toTime(timestamp ?? Date.now()) });
+  }
+
+  inventory({ timestamp, ...item }: InventoryInput): Promise<void> {
+    return this.add({ ...item, kind: 'inventory', timestamp: toTime(timestamp ?? Date.now()) });
+  }
+
+  shift({ timestamp, start, end, ...shift }: ShiftInput): Promise<void> {
+    return this.add({
+      ...shift,
+      kind: 'shift',
+      start: toTime(start),
+      ...(end === undefined ? {} : { end: toTime(end) }),
+      timestamp: toTime(timestamp ?? Date.now()),
+    });
+  }
+
+  /** Sends the waiting events now instead of after `flushInterval` */
+  async flush(): Promise<void> {
+    const batch = this.batch;
+    if (!batch) return;
+
+    this.batch = undefined;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.transport.send(batch.events).then(batch.resolve, batch.reject);
+    await batch.promise;
+  }
+
+  /** Drops the waiting events, rejecting their promises with `error` */
+  cancel(error: UnifiedSDKError): void {
+    const batch = this.batch;
+    this.batch = undefined;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    batch?.reject(error);
+  }
+
+  private async add(event: PosEvent): Promise<void> {
+    const error = validatePosEvent(event);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_EVENT', error);
+    }
+
+    this.batch ??= createBatch();
+    const { promise } = this.batch;
+    this.batch.events.push(event);
+
+    if (this.batch.events.length >= this.options.maxBatchSize) {
+      void this.flush().catch(() => undefined);
+    } else {
+      this.timer ??= setTimeout(() => void this.flush().catch(() => undefined), this.options.flushInterval);
+    }
+    return promise;
+  }
+}
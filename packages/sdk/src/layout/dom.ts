@@ -0,0 +1,41 @@
+// Above typical host chrome (headers, toasts) without fighting browser UI
+export const OVERLAY_Z_INDEX = '2147483000';
+
+export function createElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  styles: Partial<CSSStyleDeclaration> = {},
+  attributes: Record<string, string> = {}
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  Object.assign(element.style, styles);
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+  return element;
+}
+
+export function createCloseButton(label: string): HTMLButtonElement {
+  const button = createElement(
+    'button',
+    {
+      border: 'none',
+      background: 'transparent',
+      cursor: 'pointer',
+      fontSize: '20px',
+      lineHeight: '1',
+      padding: '4px 8px',
+      color: 'inherit',
+    },
+    { type: 'button', 'aria-label': label }
+  );
+  button.textContent = '×';
+  return button;
+}
+
+/**
+ * Moves focus back to where it was before an overlay opened, if that element
+ * is still in the document.
+ */
+export function restoreFocus(element: Element | null): void {
+  if (element instanceof HTMLElement && element.isConnected) {
+    element.focus();
+  }
+}
@@ -0,0 +1,53 @@
+import { createElement } from './dom';
+
+/**
+ * Plain DOM stand-in for an iframe that is blocked or failed to load: the
+ * last known unread count and a link to open the dashboard in a new window.
+ */
+export class WidgetFallback {
+  readonly element: HTMLDivElement;
+  private summary: HTMLParagraphElement;
+
+  constructor(url: string, unreadCount?: number) {
+    this.element = createElement(
+      'div',
+      {
+        boxSizing: 'border-box',
+        padding: '16px',
+        border: '1px solid #e5e7eb',
+        borderRadius: '8px',
+        background: '#f9fafb',
+        color: '#111827',
+        font: '14px/1.5 system-ui, sans-serif',
+      },
+      { role: 'status', 'data-unified-fallback': '' }
+    );
+
+    const title = createElement('strong', { display: 'block' });
+    title.textContent = 'Business intelligence could not be shown here';
+
+    this.summary = createElement('p', { margin: '4px 0 12px' });
+
+    const link = createElement(
+      'a',
+      { color: '#0f766e', fontWeight: '600' },
+      { href: url, target: '_blank', rel: 'noopener noreferrer' }
+    );
+    link.textContent = 'Open in a new window';
+
+    this.element.append(title, this.summary, link);
+    this.render(unreadCount);
+  }
+
+  private render(count?: number): void {
+    if (count === undefined) {
+      this.summary.textContent = 'Alerts are unavailable until the widget reconnects.';
+    } else {
+      this.summary.textContent = count === 1 ? '1 unread alert' : `${count} unread alerts`;
+    }
+  }
+
+  destroy(): void {
+    this.element.remove();
+  }
+}
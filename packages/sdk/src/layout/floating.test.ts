@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FloatingLayout } from './floating';
+
+describe('FloatingLayout', () => {
+  let container: HTMLElement;
+  let layout: FloatingLayout;
+  const onOpenChange = vi.fn();
+
+  const launcher = () => container.querySelector('button[aria-haspopup]') as HTMLButtonElement;
+  const panel = () => container.querySelector('[role="dialog"]') as HTMLElement;
+  const handle = () => container.querySelector('[data-drag-handle]') as HTMLElement;
+
+  function pointer(type: string, clientX: number, clientY: number) {
+    const event = new MouseEvent(type, { clientX, clientY, button: 0, bubbles: true });
+    Object.defineProperty(event, 'pointerId', { value: 1 });
+    handle().dispatchEvent(event);
+  }
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    onOpenChange.mockClear();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    layout.destroy();
+    container.remove();
+  });
+
+  it('should open and close the panel from the launcher', () => {
+    layout = new FloatingLayout(container, { onOpenChange });
+    layout.mount(document.createElement('iframe'));
+    expect(panel().style.display).toBe('none');
+
+    launcher().click();
+    expect(layout.isOpen()).toBe(true);
+    expect(panel().style.display).toBe('flex');
+    expect(launcher().getAttribute('aria-expanded')).toBe('true');
+
+    panel().dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(layout.isOpen()).toBe(false);
+    expect(onOpenChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should show the unread count on the launcher badge', () => {
+    layout = new FloatingLayout(container, { onOpenChange });
+    const badge = launcher().querySelector('span') as HTMLElement;
+    expect(badge.style.display).toBe('none');
+
+    layout.setUnreadCount(3);
+    expect(badge.textContent).toBe('3');
+    expect(badge.style.display).toBe('block');
+    expect(launcher().getAttribute('aria-label')).toContain('3 unread');
+
+    layout.setUnreadCount(250);
+    expect(badge.textContent).toBe('99+');
+  });
+
+  it('should remember where the panel was dragged', () => {
+    layout = new FloatingLayout(container, { onOpenChange });
+    layout.show();
+
+    pointer('pointerdown', 10, 10);
+    pointer('pointermove', 110, 60);
+    pointer('pointerup', 110, 60);
+    expect(panel().style.left).toBe('100px');
+    expect(panel().style.top).toBe('50px');
+
+    layout.destroy();
+    layout = new FloatingLayout(container, { onOpenChange });
+    expect(panel().style.left).toBe('100px');
+    expect(panel().style.top).toBe('50px');
+  });
+});
@@ -0,0 +1,282 @@
+import type { LayoutCallbacks, WidgetLayout } from './index';
+import { OVERLAY_Z_INDEX, createCloseButton, createElement, restoreFocus } from './dom';
+
+const POSITION_STORAGE_KEY = 'unified-pos-intelligence:panel-position';
+const PANEL_WIDTH = 380;
+const PANEL_HEIGHT = 600;
+const HANDLE_HEIGHT = 40;
+const EDGE_MARGIN = 16;
+const LAUNCHER_SIZE = 56;
+
+interface PanelPosition {
+  left: number;
+  top: number;
+}
+
+function loadPosition(): PanelPosition | undefined {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(POSITION_STORAGE_KEY) ?? 'null');
+    if (saved && Number.isFinite(saved.left) && Number.isFinite(saved.top)) {
+      return saved;
+    }
+  } catch {
+    // Storage can be blocked or hold something unreadable; fall back to the corner
+  }
+  return undefined;
+}
+
+function savePosition(position: PanelPosition): void {
+  try {
+    window.localStorage.setItem(POSITION_STORAGE_KEY, JSON.stringify(position));
+  } catch {
+    // Not remembering the position is fine
+  }
+}
+
+// Keeps the drag handle on screen so the panel can always be moved back
+function clampPosition({ left, top }: PanelPosition): PanelPosition {
+  const maxLeft = Math.max(0, window.innerWidth - PANEL_WIDTH);
+  const maxTop = Math.max(0, window.innerHeight - HANDLE_HEIGHT);
+  return {
+    left: Math.min(Math.max(0, left), maxLeft),
+    top: Math.min(Math.max(0, top), maxTop),
+  };
+}
+
+/**
+ * A launcher bubble with an unread badge that opens a draggable panel. The
+ * panel remembers where it was dropped.
+ */
+export class FloatingLayout implements WidgetLayout {
+  private root: HTMLDivElement;
+  private launcher: HTMLButtonElement;
+  private badge: HTMLSpanElement;
+  private panel: HTMLDivElement;
+  private handle: HTMLDivElement;
+  private body: HTMLDivElement;
+  private closeButton: HTMLButtonElement;
+  private iframe?: HTMLIFrameElement;
+  private open = false;
+  private unreadCount = 0;
+  private position?: PanelPosition;
+  private drag?: { pointerId: number; offsetX: number; offsetY: number };
+
+  constructor(container: HTMLElement, private callbacks: LayoutCallbacks) {
+    this.root = createElement('div', {}, { 'data-unified-layout': 'floating' });
+
+    this.launcher = createElement(
+      'button',
+      {
+        position: 'fixed',
+        right: `${EDGE_MARGIN}px`,
+        bottom: `${EDGE_MARGIN}px`,
+        width: `${LAUNCHER_SIZE}px`,
+        height: `${LAUNCHER_SIZE}px`,
+        borderRadius: '50%',
+        border: 'none',
+        cursor: 'pointer',
+        background: '#1e5f74',
+        color: '#fff',
+        fontSize: '24px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.25)',
+        zIndex: OVERLAY_Z_INDEX,
+      },
+      { type: 'button', 'aria-expanded': 'false', 'aria-haspopup': 'dialog' }
+    );
+    this.launcher.textContent = '✦';
+    this.launcher.addEventListener('click', this.handleLauncherClick);
+
+    this.badge = createElement('span', {
+      position: 'absolute',
+      top: '-4px',
+      right: '-4px',
+      minWidth: '20px',
+      height: '20px',
+      padding: '0 6px',
+      borderRadius: '10px',
+      background: '#dc2626',
+      color: '#fff',
+      fontSize: '12px',
+      lineHeight: '20px',
+      textAlign: 'center',
+      display: 'none',
+    }, { 'aria-hidden': 'true' });
+    this.launcher.appendChild(this.badge);
+
+    this.panel = createElement(
+      'div',
+      {
+        position: 'fixed',
+        right: `${EDGE_MARGIN}px`,
+        bottom: `${EDGE_MARGIN * 2 + LAUNCHER_SIZE}px`,
+        width: `${PANEL_WIDTH}px`,
+        maxWidth: `calc(100vw - ${EDGE_MARGIN * 2}px)`,
+        height: `${PANEL_HEIGHT}px`,
+        maxHeight: `calc(100vh - ${EDGE_MARGIN * 2}px)`,
+        display: 'none',
+        flexDirection: 'column',
+        borderRadius: '12px',
+        overflow: 'hidden',
+        background: '#fff',
+        boxShadow: '0 12px 32px rgba(0, 0, 0, 0.25)',
+        zIndex: OVERLAY_Z_INDEX,
+      },
+      { role: 'dialog', 'aria-label': 'Unified Intelligence' }
+    );
+    this.panel.addEventListener('keydown', this.handleKeydown);
+
+    this.handle = createElement(
+      'div',
+      {
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        height: `${HANDLE_HEIGHT}px`,
+        padding: '0 8px 0 12px',
+        cursor: 'move',
+        userSelect: 'none',
+        touchAction: 'none',
+        background: '#1e5f74',
+        color: '#fff',
+        fontSize: '14px',
+        fontWeight: '600',
+      },
+      { 'data-drag-handle': '' }
+    );
+    this.handle.textContent = 'Unified Intelligence';
+    this.handle.addEventListener('pointerdown', this.handlePointerDown);
+    this.handle.addEventListener('pointermove', this.handlePointerMove);
+    this.handle.addEventListener('pointerup', this.handlePointerUp);
+    this.handle.addEventListener('pointercancel', this.handlePointerUp);
+
+    this.closeButton = createCloseButton('Close dashboard');
+    this.closeButton.addEventListener('click', () => this.hide());
+    this.handle.appendChild(this.closeButton);
+
+    this.body = createElement('div', { flex: '1 1 auto', minHeight: '0' });
+
+    this.panel.append(this.handle, this.body);
+    this.root.append(this.panel, this.launcher);
+    container.appendChild(this.root);
+
+    const saved = loadPosition();
+    if (saved) {
+      this.moveTo(clampPosition(saved));
+    }
+    this.renderBadge();
+  }
+
+  mount(iframe: HTMLIFrameElement): void {
+    this.iframe = iframe;
+    this.body.appendChild(iframe);
+  }
+
+  show(): void {
+    if (this.open) return;
+
+    this.open = true;
+    this.panel.style.display = 'flex';
+    this.launcher.setAttribute('aria-expanded', 'true');
+    this.closeButton.focus();
+    this.callbacks.onOpenChange(true);
+  }
+
+  hide(): void {
+    if (!this.open) return;
+
+    const hadFocus = this.panel.contains(document.activeElement);
+    this.open = false;
+    this.panel.style.display = 'none';
+    this.launcher.setAttribute('aria-expanded', 'false');
+    if (hadFocus) {
+      restoreFocus(this.launcher);
+    }
+    this.callbacks.onOpenChange(false);
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  setUnreadCount(count: number): void {
+    this.unreadCount = Math.max(0, Math.floor(count));
+    this.renderBadge();
+  }
+
+  destroy(): void {
+    this.endDrag();
+    this.root.remove();
+    this.iframe = undefined;
+  }
+
+  private renderBadge(): void {
+    const count = this.unreadCount;
+    this.badge.textContent = count > 99 ? '99+' : String(count);
+    this.badge.style.display = count > 0 ? 'block' : 'none';
+    this.launcher.setAttribute(
+      'aria-label',
+      count > 0 ? `Open intelligence dashboard, ${count} unread alerts` : 'Open intelligence dashboard'
+    );
+  }
+
+  private moveTo(position: PanelPosition): void {
+    const { left, top } = position;
+    this.position = position;
+    Object.assign(this.panel.style, { left: `${left}px`, top: `${top}px`, right: 'auto', bottom: 'auto' });
+  }
+
+  private handleLauncherClick = (): void => {
+    if (this.open) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  };
+
+  private handleKeydown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      this.hide();
+    }
+  };
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    if (event.button !== 0 || event.target === this.closeButton) return;
+
+    const rect = this.panel.getBoundingClientRect();
+    this.drag = { pointerId: event.pointerId, offsetX: event.clientX - rect.left, offsetY: event.clientY - rect.top };
+    this.handle.setPointerCapture?.(event.pointerId);
+    // The iframe would otherwise swallow pointer events when the cursor crosses it
+    if (this.iframe) {
+      this.iframe.style.pointerEvents = 'none';
+    }
+    event.preventDefault();
+  };
+
+  private handlePointerMove = (event: PointerEvent): void => {
+    if (!this.drag || event.pointerId !== this.drag.pointerId) return;
+
+    this.moveTo(clampPosition({ left: event.clientX - this.drag.offsetX, top: event.clientY - this.drag.offsetY }));
+  };
+
+  private handlePointerUp = (event: PointerEvent): void => {
+    if (!this.drag || event.pointerId !== this.drag.pointerId) return;
+
+    this.endDrag();
+    if (this.position) {
+      savePosition(this.position);
+    }
+  };
+
+  private endDrag(): void {
+    if (!this.drag) return;
+
+    if (this.handle.hasPointerCapture?.(this.drag.pointerId)) {
+      this.handle.releasePointerCapture(this.drag.pointerId);
+    }
+    this.drag = undefined;
+    if (this.iframe) {
+      this.iframe.style.pointerEvents = '';
+    }
+  }
+}
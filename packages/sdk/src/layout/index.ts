@@ -0,0 +1,75 @@
+import type { UnifiedConfig } from '../types';
+import { FloatingLayout } from './floating';
+import { SidebarLayout } from './sidebar';
+
+export interface LayoutCallbacks {
+  /** Fired on every open/close, including ones the user triggers from the chrome */
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Where the iframe lives on the host page and how it is shown and hidden.
+ */
+export interface WidgetLayout {
+  /** Places the iframe. Called once: moving an iframe in the DOM reloads it. */
+  mount(iframe: HTMLIFrameElement): void;
+  show(): void;
+  hide(): void;
+  isOpen(): boolean;
+  /** Present on layouts that display an unread badge */
+  setUnreadCount?(count: number): void;
+  destroy(): void;
+}
+
+/**
+ * The iframe sits directly in the host container and is always open unless
+ * the host hides it.
+ */
+export class EmbeddedLayout implements WidgetLayout {
+  private iframe?: HTMLIFrameElement;
+  private open = true;
+
+  constructor(private container: HTMLElement, private callbacks: LayoutCallbacks) {}
+
+  mount(iframe: HTMLIFrameElement): void {
+    this.iframe = iframe;
+    this.container.appendChild(iframe);
+  }
+
+  show(): void {
+    this.setOpen(true);
+  }
+
+  hide(): void {
+    this.setOpen(false);
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  destroy(): void {
+    this.iframe = undefined;
+  }
+
+  private setOpen(open: boolean): void {
+    if (open === this.open) return;
+
+    this.open = open;
+    if (this.iframe) {
+      this.iframe.style.display = open ? '' : 'none';
+    }
+    this.callbacks.onOpenChange(open);
+  }
+}
+
+export function createLayout(config: UnifiedConfig, container: HTMLElement, callbacks: LayoutCallbacks): WidgetLayout {
+  switch (config.position) {
+    case 'floating':
+      return new FloatingLayout(container, callbacks);
+    case 'sidebar':
+      return new SidebarLayout(container, config.sidebarSide ?? 'right', callbacks);
+    default:
+      return new EmbeddedLayout(container, callbacks);
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SidebarLayout } from './sidebar';
+
+describe('SidebarLayout', () => {
+  let container: HTMLElement;
+  let layout: SidebarLayout;
+  const onOpenChange = vi.fn();
+
+  const drawer = () => container.querySelector('[data-unified-layout="sidebar"]') as HTMLElement;
+  const backdrop = () => container.querySelector('[data-unified-layout="sidebar-backdrop"]') as HTMLElement;
+
+  beforeEach(() => {
+    onOpenChange.mockClear();
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    layout.destroy();
+    container.remove();
+  });
+
+  it('should slide in from the configured edge and close on backdrop click', () => {
+    layout = new SidebarLayout(container, 'left', { onOpenChange });
+    expect(drawer().style.transform).toBe('translateX(-100%)');
+
+    layout.show();
+    expect(drawer().style.transform).toBe('none');
+    expect(drawer().getAttribute('aria-hidden')).toBe('false');
+
+    backdrop().click();
+    expect(layout.isOpen()).toBe(false);
+    expect(drawer().style.transform).toBe('translateX(-100%)');
+    expect(onOpenChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should trap focus and restore it after Escape', () => {
+    const trigger = document.createElement('button');
+    const outside = document.createElement('button');
+    document.body.append(trigger, outside);
+    trigger.focus();
+
+    layout = new SidebarLayout(container, 'right', { onOpenChange });
+    layout.mount(document.createElement('iframe'));
+    layout.show();
+    const closeButton = drawer().querySelector('button') as HTMLButtonElement;
+    expect(document.activeElement).toBe(closeButton);
+
+    outside.focus();
+    expect(document.activeElement).toBe(closeButton);
+
+    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(layout.isOpen()).toBe(false);
+    expect(document.activeElement).toBe(trigger);
+
+    trigger.remove();
+    outside.remove();
+  });
+});
@@ -0,0 +1,150 @@
+import type { LayoutCallbacks, WidgetLayout } from './index';
+import { OVERLAY_Z_INDEX, createCloseButton, createElement, restoreFocus } from './dom';
+
+const DRAWER_WIDTH = 420;
+const TRANSITION_MS = 200;
+
+/**
+ * A drawer that slides in from the left or right edge over a backdrop. While
+ * open, focus stays inside the drawer and Escape or a backdrop click closes it.
+ */
+export class SidebarLayout implements WidgetLayout {
+  private backdrop: HTMLDivElement;
+  private drawer: HTMLDivElement;
+  private body: HTMLDivElement;
+  private closeButton: HTMLButtonElement;
+  private iframe?: HTMLIFrameElement;
+  private open = false;
+  private previousFocus: Element | null = null;
+
+  constructor(container: HTMLElement, private side: 'left' | 'right', private callbacks: LayoutCallbacks) {
+    this.backdrop = createElement(
+      'div',
+      {
+        position: 'fixed',
+        inset: '0',
+        background: 'rgba(0, 0, 0, 0.4)',
+        opacity: '0',
+        visibility: 'hidden',
+        transition: `opacity ${TRANSITION_MS}ms ease, visibility ${TRANSITION_MS}ms`,
+        zIndex: OVERLAY_Z_INDEX,
+      },
+      { 'data-unified-layout': 'sidebar-backdrop' }
+    );
+    this.backdrop.addEventListener('click', () => this.hide());
+
+    this.drawer = createElement(
+      'div',
+      {
+        position: 'fixed',
+        top: '0',
+        bottom: '0',
+        [side]: '0',
+        width: `${DRAWER_WIDTH}px`,
+        maxWidth: '100vw',
+        display: 'flex',
+        flexDirection: 'column',
+        background: '#fff',
+        boxShadow: '0 0 32px rgba(0, 0, 0, 0.25)',
+        transform: this.closedTransform(),
+        visibility: 'hidden',
+        transition: `transform ${TRANSITION_MS}ms ease, visibility ${TRANSITION_MS}ms`,
+        zIndex: OVERLAY_Z_INDEX,
+      },
+      {
+        role: 'dialog',
+        'aria-modal': 'true',
+        'aria-label': 'Unified Intelligence',
+        'aria-hidden': 'true',
+        'data-unified-layout': 'sidebar',
+      }
+    );
+
+    const header = createElement('div', {
+      display: 'flex',
+      justifyContent: 'flex-end',
+      padding: '8px',
+    });
+    this.closeButton = createCloseButton('Close dashboard');
+    this.closeButton.addEventListener('click', () => this.hide());
+    this.closeButton.addEventListener('keydown', this.handleCloseButtonKeydown);
+    header.appendChild(this.closeButton);
+
+    this.body = createElement('div', { flex: '1 1 auto', minHeight: '0' });
+    this.drawer.append(header, this.body);
+    container.append(this.backdrop, this.drawer);
+  }
+
+  mount(iframe: HTMLIFrameElement): void {
+    this.iframe = iframe;
+    this.body.appendChild(iframe);
+  }
+
+  show(): void {
+    if (this.open) return;
+
+    this.open = true;
+    this.previousFocus = document.activeElement;
+    Object.assign(this.backdrop.style, { opacity: '1', visibility: 'visible' });
+    Object.assign(this.drawer.style, { transform: 'none', visibility: 'visible' });
+    this.drawer.setAttribute('aria-hidden', 'false');
+
+    document.addEventListener('focusin', this.handleFocusIn);
+    document.addEventListener('keydown', this.handleKeydown);
+    this.closeButton.focus();
+    this.callbacks.onOpenChange(true);
+  }
+
+  hide(): void {
+    if (!this.open) return;
+
+    this.open = false;
+    document.removeEventListener('focusin', this.handleFocusIn);
+    document.removeEventListener('keydown', this.handleKeydown);
+
+    Object.assign(this.backdrop.style, { opacity: '0', visibility: 'hidden' });
+    Object.assign(this.drawer.style, { transform: this.closedTransform(), visibility: 'hidden' });
+    this.drawer.setAttribute('aria-hidden', 'true');
+
+    restoreFocus(this.previousFocus);
+    this.previousFocus = null;
+    this.callbacks.onOpenChange(false);
+  }
+
+  isOpen(): boolean {
+    return this.open;
+  }
+
+  destroy(): void {
+    document.removeEventListener('focusin', this.handleFocusIn);
+    document.removeEventListener('keydown', this.handleKeydown);
+    this.backdrop.remove();
+    this.drawer.remove();
+    this.iframe = undefined;
+  }
+
+  private closedTransform(): string {
+    return this.side === 'left' ? 'translateX(-100%)' : 'translateX(100%)';
+  }
+
+  // Focus that escapes the drawer (e.g. tabbing out of the iframe) is pulled back in
+  private handleFocusIn = (event: FocusEvent): void => {
+    if (!this.drawer.contains(event.target as Node)) {
+      this.closeButton.focus();
+    }
+  };
+
+  private handleKeydown = (event: KeyboardEvent): void => {
+    if (event.key === 'Escape') {
+      this.hide();
+    }
+  };
+
+  // Shift+Tab from the first control wraps to the iframe, the last stop in the drawer
+  private handleCloseButtonKeydown = (event: KeyboardEvent): void => {
+    if (event.key === 'Tab' && event.shiftKey && this.iframe) {
+      event.preventDefault();
+      this.iframe.focus();
+    }
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CommandQueue, installCommandQueue } from './command-queue';
+import type { Command } from './command-queue';
+import { connectIframe, settle } from '../test/fake-iframe';
+
+describe('installCommandQueue', () => {
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.id = 'test-container';
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    const queue = window.UnifiedPOS;
+    if (queue instanceof CommandQueue) queue.sdk?.destroy();
+    delete window.UnifiedPOS;
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  const init: Command = ['init', { containerId: 'test-container', apiKey: 'pk_test_123', features: { alerts: true } }];
+
+  it('should replay commands queued before the SDK loaded', async () => {
+    const onAlert = vi.fn();
+    const onReady = vi.fn();
+    // What the snippet leaves behind; `on` was pushed before `init`
+    window.UnifiedPOS = [['on', 'alert:new', onAlert], init, (sdk) => sdk.on('ready', onReady)];
+
+    const queue = installCommandQueue(window);
+    expect(window.UnifiedPOS).toBe(queue);
+    expect(container.querySelector('iframe')).not.toBeNull();
+
+    const iframe = await connectIframe(container);
+    expect(onReady).toHaveBeenCalledTimes(1);
+
+    await iframe.send('ALERT_NEW', { id: 'a1', title: 'Rush', message: 'Busy', severity: 'critical' });
+    await vi.waitFor(() => expect(onAlert).toHaveBeenCalledTimes(1));
+  });
+
+  it('should run commands pushed after load right away', async () => {
+    const queue = installCommandQueue(window);
+    queue.push(init);
+    await connectIframe(container);
+
+    window.UnifiedPOS!.push(['hideDashboard']);
+    expect(queue.sdk?.isDashboardOpen()).toBe(false);
+  });
+
+  it('should log failing and unknown commands without stopping the queue', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const queue = installCommandQueue(window);
+
+    queue.push(init, ['teardown'], ['setMerchantContext', { merchantId: '' }], ['hideDashboard']);
+    await settle();
+
+    expect(error.mock.calls.map(([message]) => message)).toEqual([
+      '[UnifiedPOS] "teardown" failed:',
+      '[UnifiedPOS] "setMerchantContext" failed:',
+    ]);
+    expect(queue.sdk?.isDashboardOpen()).toBe(false);
+  });
+
+  it('should keep the first queue when the bundle loads twice', () => {
+    const queue = installCommandQueue(window);
+    expect(installCommandQueue(window)).toBe(queue);
+  });
+});
@@ -0,0 +1,128 @@
+import { UnifiedPOSIntelligence, UnifiedSDKError } from '../index';
+
+/**
+ * A queued call: `['init', config]`, `['on', 'alert:new', handler]`, or a
+ * callback that receives the SDK instance once it exists.
+ */
+export type Command = [method: string, ...args: unknown[]] | ((sdk: UnifiedPOSIntelligence) => void);
+
+// Public methods callable through the queue; anything else is rejected
+const COMMANDS: (keyof UnifiedPOSIntelligence)[] = [
+  'init',
+  'refresh',
+  'destroy',
+  'on',
+  'off',
+  'once',
+  'call',
+  'handle',
+  'authenticate',
+  'updateConfig',
+  'setTheme',
+  'setLocale',
+  'setFeatures',
+  'setMerchantContext',
+  'switchView',
+  'acknowledgeAlert',
+  'snoozeAlert',
+  'dismissAlert',
+  'showDashboard',
+  'hideDashboard',
+  'triggerScenario',
+];
+
+function reportError(command: string, error: unknown): void {
+  console.error(`[UnifiedPOS] "${command}" failed:`, error);
+}
+
+/**
+ * Runs commands pushed by the loader snippet against one SDK instance.
+ * Commands pushed before `init` wait for it, so the snippet's order of
+ * pushes doesn't matter.
+ */
+export class CommandQueue {
+  private instance?: UnifiedPOSIntelligence;
+  private pending: Command[] = [];
+
+  get sdk(): UnifiedPOSIntelligence | undefined {
+    return this.instance;
+  }
+
+  push = (...commands: Command[]): void => {
+    commands.forEach((command) => this.run(command));
+  };
+
+  private run(command: Command): void {
+    if (Array.isArray(command) && command[0] === 'init') {
+      this.init(command[1]);
+      return;
+    }
+
+    if (!this.instance || this.instance.isDestroyed()) {
+      this.pending.push(command);
+      return;
+    }
+
+    if (typeof command === 'function') {
+      try {
+        command(this.instance);
+      } catch (error) {
+        reportError('callback', error);
+      }
+      return;
+    }
+
+    const [method, ...args] = command;
+    if (!COMMANDS.includes(method as keyof UnifiedPOSIntelligence)) {
+      reportError(method, new Error('Unknown command'));
+      return;
+    }
+
+    try {
+      const handler = this.instance[method as keyof UnifiedPOSIntelligence] as (...params: unknown[]) => unknown;
+      const result = handler.apply(this.instance, args);
+      if (result instanceof Promise) {
+        result.catch((error) => reportError(method, error));
+      }
+    } catch (error) {
+      reportError(method, error);
+    }
+  }
+
+  private init(config: unknown): void {
+    if (!this.instance || this.instance.isDestroyed()) {
+      this.instance = new UnifiedPOSIntelligence();
+    }
+
+    this.instance.init(config as Parameters<UnifiedPOSIntelligence['init']>[0]).catch((error) => {
+      // A `destroy` pushed before the iframe connected is deliberate, not a failure
+      if (error instanceof UnifiedSDKError && error.code === 'CANCELLED') return;
+      reportError('init', error);
+    });
+
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((command) => this.run(command));
+  }
+}
+
+declare global {
+  interface Window {
+    UnifiedPOS?: Command[] | CommandQueue;
+  }
+}
+
+/**
+ * Replaces the snippet's `window.UnifiedPOS` array with a live queue and
+ * replays what was pushed before the SDK loaded. Loading the bundle twice
+ * keeps the first queue.
+ */
+export function installCommandQueue(target: Window = window): CommandQueue {
+  const existing = target.UnifiedPOS;
+  if (existing && !Array.isArray(existing)) return existing;
+
+  const queue = new CommandQueue();
+  target.UnifiedPOS = queue;
+  if (existing) queue.push(...existing);
+  return queue;
+}
@@ -0,0 +1,10 @@
+// Entry point for the script-tag (IIFE/UMD) build, exposed as `window.UnifiedPOSSDK`
+import { installCommandQueue } from './command-queue';
+
+export * from '../index';
+export { CommandQueue, installCommandQueue } from './command-queue';
+export type { Command } from './command-queue';
+
+if (typeof window !== 'undefined') {
+  installCommandQueue(window);
+}
@@ -0,0 +1,69 @@
+import { RpcMethod, validateNotificationPreferences } from '@company/pos-intelligence-protocol';
+import type {
+  NotificationPayload,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+} from '@company/pos-intelligence-protocol';
+import { UnifiedSDKError } from './errors';
+
+export interface NotificationsTransport {
+  /** Waits for the iframe, then calls it */
+  request<T>(method: string, params?: unknown): Promise<T>;
+}
+
+/**
+ * `sdk.notifications`: reads and changes how the merchant hears about
+ * alerts. The iframe applies quiet hours and digests and sends what the host
+ * should show as `notification` events.
+ */
+export class NotificationsAPI {
+  constructor(private transport: NotificationsTransport) {}
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    return this.transport.request<NotificationPreferences>(RpcMethod.NOTIFICATIONS_GET_PREFERENCES);
+  }
+
+  /**
+   * Changes the given fields and resolves with the whole preferences. Null
+   * clears a category override or webhook.
+   */
+  async setPreferences(update: NotificationPreferencesUpdate): Promise<NotificationPreferences> {
+    const error = validateNotificationPreferences(update);
+    if (error) {
+      throw new UnifiedSDKError('INVALID_PREFERENCES', error);
+    }
+    return this.transport.request<NotificationPreferences>(RpcMethod.NOTIFICATIONS_SET_PREFERENCES, update);
+  }
+
+  /**
+   * Asks the merchant to allow browser notifications. Call it from a click
+   * handler; browsers ignore requests made without one.
+   */
+  async requestBrowserPermission(): Promise<NotificationPermission> {
+    if (typeof Notification === 'undefined') return 'denied';
+    return Notification.requestPermission();
+  }
+}
+
+/**
+ * Shows a notification's alerts as one browser Notification, when the page
+ * has permission. `onSelect` gets the alert id, or undefined for a digest.
+ */
+export function showBrowserNotification(
+  { alerts, digest }: NotificationPayload,
+  onSelect: (alertId?: string) => void
+): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted' || alerts.length === 0) return;
+
+  const [first] = alerts;
+  const single = alerts.length === 1 && !digest;
+  const notification = new Notification(single ? first.title : `${alerts.length} new alerts`, {
+    body: single ? first.message : alerts.map((alert) => alert.title).join('\n'),
+    tag: single ? `alert-${first.id}` : `digest-${first.id}`,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+    onSelect(single ? first.id : undefined);
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+import { OutboundQueue } from './index';
+import type { OutboundQueueOptions, QueuedMessage, QueueStore } from './index';
+
+function message(id: string, durable = false): QueuedMessage {
+  return { id, type: 'TRIGGER_SCENARIO', payload: { scenario: id }, queuedAt: Number(id.slice(1)), durable };
+}
+
+function memoryStore(initial: QueuedMessage[] = []): QueueStore & { records: Map<string, QueuedMessage> } {
+  const records = new Map(initial.map((entry) => [entry.id, entry]));
+  return {
+    records,
+    load: async () => [...records.values()],
+    put: async (entry) => {
+      records.set(entry.id, entry);
+    },
+    delete: async (id) => {
+      records.delete(id);
+    },
+  };
+}
+
+function createQueue(options: Partial<OutboundQueueOptions> = {}) {
+  return new OutboundQueue({
+    maxSize: 3,
+    dropPolicy: 'oldest',
+    onDrop: vi.fn(),
+    onStoreError: vi.fn(),
+    ...options,
+  });
+}
+
+describe('OutboundQueue', () => {
+  it('should drain messages in the order they were queued', () => {
+    const queue = createQueue();
+    queue.enqueue(message('m1'));
+    queue.enqueue(message('m2'));
+
+    expect(queue.drain().map(({ id }) => id)).toEqual(['m1', 'm2']);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should drop the oldest message when full', () => {
+    const onDrop = vi.fn();
+    const queue = createQueue({ onDrop });
+    ['m1', 'm2', 'm3', 'm4'].forEach((id) => queue.enqueue(message(id)));
+
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ id: 'm1' }));
+    expect(queue.drain().map(({ id }) => id)).toEqual(['m2', 'm3', 'm4']);
+  });
+
+  it('should refuse new messages when full under the newest policy', () => {
+    const onDrop = vi.fn();
+    const queue = createQueue({ dropPolicy: 'newest', onDrop });
+    ['m1', 'm2', 'm3'].forEach((id) => queue.enqueue(message(id)));
+
+    expect(queue.enqueue(message('m4'))).toBe(false);
+    expect(onDrop).toHaveBeenCalledWith(expect.objectContaining({ id: 'm4' }));
+    expect(queue.drain().map(({ id }) => id)).toEqual(['m1', 'm2', 'm3']);
+  });
+
+  it('should keep durable messages in the store until they are acknowledged', async () => {
+    const store = memoryStore();
+    const queue = createQueue({ store });
+    queue.enqueue(message('m1'));
+    queue.enqueue(message('m2', true));
+    await vi.waitFor(() => expect([...store.records.keys()]).toEqual(['m2']));
+
+    queue.discard(() => true);
+    expect(store.records.has('m2')).toBe(true);
+
+    await queue.restore();
+    const [drained] = queue.drain();
+    expect(drained.id).toBe('m2');
+    await queue.restore();
+    expect(queue.size).toBe(0);
+    expect(store.records.has('m2')).toBe(true);
+
+    queue.acknowledge(drained);
+    await vi.waitFor(() => expect(store.records.size).toBe(0));
+  });
+
+  it('should restore stored messages ahead of ones queued since', async () => {
+    const store = memoryStore([message('m2', true), message('m1', true)]);
+    const queue = createQueue({ store });
+    queue.enqueue(message('m9'));
+
+    const restored = queue.restore();
+    expect(queue.isRestoring()).toBe(true);
+    await restored;
+
+    expect(queue.isRestoring()).toBe(false);
+    expect(queue.drain().map(({ id }) => id)).toEqual(['m1', 'm2', 'm9']);
+  });
+
+  it('should report store failures without losing the message', async () => {
+    const onStoreError = vi.fn();
+    const store = { ...memoryStore(), put: () => Promise.reject(new Error('quota exceeded')) };
+    const queue = createQueue({ store, onStoreError });
+
+    queue.enqueue(message('m1', true));
+    await vi.waitFor(() => expect(onStoreError).toHaveBeenCalledWith(expect.objectContaining({ message: 'quota exceeded' })));
+    expect(queue.size).toBe(1);
+  });
+});
@@ -0,0 +1,144 @@
+export type DropPolicy = 'oldest' | 'newest';
+
+/**
+ * A message waiting for the iframe. Signed and timestamped only when it is
+ * finally delivered.
+ */
+export interface QueuedMessage {
+  id: string;
+  type: string;
+  payload?: unknown;
+  queuedAt: number;
+  /** Kept in the store until delivered, so it survives a page reload */
+  durable?: boolean;
+}
+
+/**
+ * Where durable messages live while undelivered, e.g. IndexedDB.
+ */
+export interface QueueStore {
+  load(): Promise<QueuedMessage[]>;
+  put(message: QueuedMessage): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface OutboundQueueOptions {
+  maxSize: number;
+  dropPolicy: DropPolicy;
+  store?: QueueStore;
+  onDrop(message: QueuedMessage): void;
+  onStoreError(error: Error): void;
+}
+
+/**
+ * Holds outgoing messages in order until the iframe can take them, capped
+ * at `maxSize`. A full queue drops its oldest message, or refuses the new
+ * one with the `newest` policy.
+ */
+export class OutboundQueue {
+  private messages: QueuedMessage[] = [];
+  // Durable messages handed over but not yet acknowledged
+  private delivering = new Set<string>();
+  private restoring?: Promise<void>;
+
+  constructor(private options: OutboundQueueOptions) {}
+
+  get size(): number {
+    return this.messages.length;
+  }
+
+  /** Applies new limits or a store; a smaller `maxSize` drops the excess right away */
+  configure(changes: Partial<Pick<OutboundQueueOptions, 'maxSize' | 'dropPolicy' | 'store'>>): void {
+    this.options = { ...this.options, ...changes };
+    this.trim();
+  }
+
+  isRestoring(): boolean {
+    return this.restoring !== undefined;
+  }
+
+  /**
+   * Loads durable messages left by a previous page ahead of anything queued
+   * since, skipping ones already queued or being delivered.
+   */
+  restore(): Promise<void> {
+    const store = this.options.store;
+    if (!store) return Promise.resolve();
+
+    this.restoring = store
+      .load()
+      .then((stored) => {
+        const queued = new Set([...this.messages.map((message) => message.id), ...this.delivering]);
+        const restored = stored
+          .filter((message) => !queued.has(message.id))
+          .sort((a, b) => a.queuedAt - b.queuedAt);
+        this.messages = [...restored, ...this.messages];
+        this.trim();
+      })
+      .catch((error) => this.options.onStoreError(error))
+      .finally(() => {
+        this.restoring = undefined;
+      });
+    return this.restoring;
+  }
+
+  /** Returns false when the message was dropped instead */
+  enqueue(message: QueuedMessage): boolean {
+    if (this.messages.length >= this.options.maxSize && this.options.dropPolicy === 'newest') {
+      this.options.onDrop(message);
+      return false;
+    }
+
+    this.messages.push(message);
+    if (message.durable) this.persist(message);
+    this.trim();
+    return true;
+  }
+
+  /**
+   * Empties the queue, returning its messages oldest first. Durable ones
+   * stay in the store until they are acknowledged.
+   */
+  drain(): QueuedMessage[] {
+    const messages = this.messages;
+    this.messages = [];
+    messages.filter((message) => message.durable).forEach((message) => this.delivering.add(message.id));
+    return messages;
+  }
+
+  /** Removes a drained durable message from the store once the iframe has carried it out */
+  acknowledge(message: QueuedMessage): void {
+    this.delivering.delete(message.id);
+    this.forget(message);
+  }
+
+  /**
+   * Forgets matching messages without delivering them. Durable ones stay in
+   * the store for the next page.
+   */
+  discard(predicate: (message: QueuedMessage) => boolean): void {
+    this.messages = this.messages.filter((message) => !predicate(message));
+  }
+
+  /** Stops waiting on unacknowledged deliveries, e.g. before switching stores; they stay stored */
+  release(): void {
+    this.delivering.clear();
+  }
+
+  private trim(): void {
+    while (this.messages.length > this.options.maxSize) {
+      const [dropped] = this.messages.splice(0, 1);
+      this.forget(dropped);
+      this.options.onDrop(dropped);
+    }
+  }
+
+  private persist(message: QueuedMessage): void {
+    this.options.store?.put(message).catch((error) => this.options.onStoreError(error));
+  }
+
+  private forget(message: QueuedMessage): void {
+    if (!message.durable) return;
+    this.options.store?.delete(message.id).catch((error) => this.options.onStoreError(error));
+  }
+}
@@ -0,0 +1,53 @@
+import type { QueuedMessage, QueueStore } from './index';
+
+const DB_NAME = 'pos-intelligence';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const store = req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    store.createIndex('owner', 'owner');
+  };
+  return request(req);
+}
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+/**
+ * Keeps one widget's durable messages in IndexedDB, tagged with `owner` (its
+ * stable id and merchant context) so widgets on the same page, and the same
+ * widget after switching merchants, replay only their own.
+ */
+export function createIndexedDBStore(owner: string): QueueStore {
+  let database: Promise<IDBDatabase> | undefined;
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    database ??= openDatabase();
+    const db = await database;
+    return request(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    async load() {
+      const records = await withStore('readonly', (store) => store.index('owner').getAll(owner));
+      return records.map(({ owner: _owner, ...message }) => message as QueuedMessage);
+    },
+    async put(message) {
+      await withStore('readwrite', (store) => store.put({ ...message, owner }));
+    },
+    async delete(id) {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import type { CSSProperties, HTMLAttributes } from 'react';
+import { useUnreadCount } from './UnifiedIntelligenceProvider';
+
+export interface AlertBadgeProps extends HTMLAttributes<HTMLSpanElement> {
+  /** Counts above this show as e.g. `99+` */
+  max?: number;
+}
+
+const DEFAULT_STYLE: CSSProperties = {
+  display: 'inline-block',
+  minWidth: '20px',
+  padding: '2px 8px',
+  borderRadius: '9999px',
+  background: '#dc2626',
+  color: '#fff',
+  fontSize: '12px',
+  fontWeight: 500,
+  lineHeight: '16px',
+  textAlign: 'center',
+};
+
+/**
+ * Unread alert count for host navigation. Renders nothing when there are no
+ * unread alerts. Passing `className` drops the built-in styles.
+ */
+export function AlertBadge({ max = 99, className, style, ...props }: AlertBadgeProps) {
+  const count = useUnreadCount();
+  if (count === 0) return null;
+
+  return (
+    <span
+      role="status"
+      aria-label={`${count} unread alerts`}
+      {...props}
+      className={className}
+      style={className ? style : { ...DEFAULT_STYLE, ...style }}
+    >
+      {count > max ? `${max}+` : count}
+    </span>
+  );
+}
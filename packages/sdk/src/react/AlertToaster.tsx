@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CSSProperties } from 'react';
+import type { AlertSeverity, AlertSummary, NotificationPayload } from '../types';
+import { useIntelligence } from './UnifiedIntelligenceProvider';
+import { isCurrentContext } from './useIntelligenceSession';
+
+export interface AlertToasterProps {
+  /**
+   * Alert severities that raise a toast for every new alert. By default
+   * toasts follow the merchant's notification preferences instead.
+   */
+  severities?: AlertSeverity[];
+  /** How long a toast stays up, in milliseconds */
+  duration?: number;
+  /** Most toasts shown at once; older ones are dropped */
+  limit?: number;
+  /** Called when a toast is clicked. Defaults to opening the alert in the widget. */
+  onSelect?: (alert: AlertSummary) => void;
+}
+
+interface Toast {
+  id: string;
+  title: string;
+  message: string;
+  /** Absent for a digest, which opens the alerts view */
+  alert?: AlertSummary;
+}
+
+function toToast({ alerts, digest }: NotificationPayload): Toast | null {
+  const [first] = alerts;
+  if (!first) return null;
+  if (alerts.length === 1 && !digest) return { id: first.id, title: first.title, message: first.message, alert: first };
+  return {
+    id: `digest-${first.id}`,
+    title: `${alerts.length} new alerts`,
+    message: alerts.map((alert) => alert.title).join(' · '),
+  };
+}
+
+const CONTAINER_STYLE: CSSProperties = {
+  position: 'fixed',
+  top: '16px',
+  right: '16px',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '8px',
+  width: '320px',
+  maxWidth: 'calc(100vw - 32px)',
+  zIndex: 2147483000,
+};
+
+const TOAST_STYLE: CSSProperties = {
+  display: 'flex',
+  alignItems: 'flex-start',
+  gap: '8px',
+  padding: '12px',
+  borderRadius: '8px',
+  borderLeft: '4px solid #dc2626',
+  background: '#fff',
+  color: '#111827',
+  boxShadow: '0 8px 24px rgba(0, 0, 0, 0.2)',
+  fontSize: '14px',
+};
+
+const BUTTON_STYLE: CSSProperties = {
+  border: 'none',
+  background: 'transparent',
+  color: 'inherit',
+  cursor: 'pointer',
+  font: 'inherit',
+  padding: 0,
+};
+
+/**
+ * Pops up toasts for the alerts the merchant has sent to host toasts, one
+ * per alert or one per digest. Render it once, anywhere inside
+ * `UnifiedIntelligenceProvider`.
+ */
+export function AlertToaster({ severities, duration = 8000, limit = 3, onSelect }: AlertToasterProps) {
+  const { sdk } = useIntelligence();
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Read through a ref so a new severities array each render doesn't resubscribe
+  const severitiesRef = useRef(severities);
+  severitiesRef.current = severities;
+
+  const dismiss = useCallback((toastId: string) => {
+    clearTimeout(timers.current.get(toastId));
+    timers.current.delete(toastId);
+    setToasts((current) => current.filter((toast) => toast.id !== toastId));
+  }, []);
+
+  useEffect(() => {
+    if (!sdk) return;
+
+    const show = (toast: Toast) => {
+      clearTimeout(timers.current.get(toast.id));
+      timers.current.set(toast.id, setTimeout(() => dismiss(toast.id), duration));
+      setToasts((current) => [toast, ...current.filter((entry) => entry.id !== toast.id)].slice(0, limit));
+    };
+
+    const unsubscribeNew = sdk.on('alert:new', (alert) => {
+      if (!severitiesRef.current?.includes(alert.severity) || !isCurrentContext(sdk, alert.contextKey)) return;
+      show({ id: alert.id, title: alert.title, message: alert.message, alert });
+    });
+    const unsubscribeNotification = sdk.on('notification', (notification) => {
+      if (severitiesRef.current || !notification.channels.includes('toast')) return;
+      if (!isCurrentContext(sdk, notification.contextKey)) return;
+      const toast = toToast(notification);
+      if (toast) show(toast);
+    });
+    // Acknowledged elsewhere (e.g. in the widget) means there is nothing left to announce
+    const unsubscribeAcknowledged = sdk.on('alert:acknowledged', ({ alertId, contextKey }) => {
+      if (isCurrentContext(sdk, contextKey)) dismiss(alertId);
+    });
+
+    return () => {
+      unsubscribeNew();
+      unsubscribeNotification();
+      unsubscribeAcknowledged();
+    };
+  }, [sdk, duration, limit, dismiss]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => {
+      pending.forEach((timer) => clearTimeout(timer));
+      pending.clear();
+    };
+  }, []);
+
+  const select = ({ id, alert }: Toast) => {
+    dismiss(id);
+    if (alert && onSelect) {
+      onSelect(alert);
+      return;
+    }
+    sdk?.switchView(alert ? `alerts/${alert.id}` : 'alerts').catch(() => undefined);
+  };
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div style={CONTAINER_STYLE} data-unified-toaster="">
+      {toasts.map((toast) => (
+        <div key={toast.id} role="alert" style={TOAST_STYLE}>
+          <button type="button" style={{ ...BUTTON_STYLE, flex: 1, textAlign: 'left' }} onClick={() => select(toast)}>
+            <strong style={{ display: 'block' }}>{toast.title}</strong>
+            <span>{toast.message}</span>
+          </button>
+          <button
+            type="button"
+            aria-label="Dismiss alert"
+            style={{ ...BUTTON_STYLE, fontSize: '18px', lineHeight: 1 }}
+            onClick={() => dismiss(toast.id)}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { useEffect, useRef } from 'react';
+import type { HTMLAttributes } from 'react';
+import { useIntelligence } from './UnifiedIntelligenceProvider';
+
+export type IntelligenceWidgetProps = HTMLAttributes<HTMLDivElement>;
+
+/**
+ * Where the provider's embedded widget renders. With a floating or sidebar
+ * position the widget lives at the provider and this renders an empty div.
+ */
+export function IntelligenceWidget(props: IntelligenceWidgetProps) {
+  const { registerContainer } = useIntelligence();
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => registerContainer(ref.current!), [registerContainer]);
+
+  return <div {...props} ref={ref} />;
+}
@@ -0,0 +1,210 @@
+import type { ReactNode } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import {
+  AlertBadge,
+  AlertToaster,
+  IntelligenceWidget,
+  UnifiedIntelligenceProvider,
+  useIntelligence,
+  useSentiment,
+} from './index';
+import type { UseUnifiedIntelligenceConfig } from './index';
+import type { UnifiedPOSIntelligence } from '../index';
+import { connectIframe, settle } from '../test/fake-iframe';
+
+const config = { apiKey: 'pk_test_123', features: { alerts: true, businessSentiment: true } };
+
+const snapshot = {
+  alerts: [
+    { id: 'a1', title: 'Rush', message: 'Busy', severity: 'warning', unread: true },
+    { id: 'a2', title: 'Review', message: '5 stars', severity: 'info', unread: false },
+  ],
+  sentiment: { score: 4.3 },
+  insights: [],
+  urgentActions: [],
+};
+
+function Rating() {
+  const sentiment = useSentiment();
+  return <p>Rating {sentiment?.score ?? '—'}</p>;
+}
+
+async function renderProvider(children: ReactNode, options: Partial<UseUnifiedIntelligenceConfig> = {}) {
+  const view = render(
+    <UnifiedIntelligenceProvider config={{ ...config, ...options }}>{children}</UnifiedIntelligenceProvider>
+  );
+  await act(settle);
+
+  const iframe = await act(() => connectIframe(view.container));
+  const findSnapshotRequest = () =>
+    iframe.requests().find((request) => request.payload.method === 'intelligence.getSnapshot');
+  await vi.waitFor(() => expect(findSnapshotRequest()).toBeDefined());
+  await act(async () => {
+    await iframe.send('RPC_RESPONSE', { requestId: findSnapshotRequest()!.id, result: snapshot });
+    await settle();
+  });
+  return { ...view, iframe };
+}
+
+describe('UnifiedIntelligenceProvider', () => {
+  it('should share one iframe between the widget, badge and hooks', async () => {
+    const { container, unmount } = await renderProvider(
+      <>
+        <nav>Alerts <AlertBadge /></nav>
+        <Rating />
+        <IntelligenceWidget className="widget" />
+      </>
+    );
+
+    expect(container.querySelectorAll('iframe')).toHaveLength(1);
+    expect(container.querySelector('.widget iframe')).not.toBeNull();
+    expect(screen.getByRole('status')).toHaveTextContent('1');
+    expect(screen.getByText('Rating 4.3')).toBeInTheDocument();
+    unmount();
+  });
+
+  it('should keep the session when the widget remounts', async () => {
+    let session: UnifiedPOSIntelligence | null = null;
+    function Session() {
+      session = useIntelligence().sdk;
+      return null;
+    }
+    const widget = (name: string) => (
+      <>
+        <Session />
+        <IntelligenceWidget key={name} className={name} />
+      </>
+    );
+    const { container, iframe, rerender, unmount } = await renderProvider(widget('first'));
+    const sdk = session!;
+
+    const switched = sdk.setMerchantContext({ merchantId: 'm1' });
+    await vi.waitFor(() => expect(iframe.requests().some((request) => request.payload.method === 'context.set')).toBe(true));
+    const contextRequest = iframe.requests().find((request) => request.payload.method === 'context.set')!;
+    await act(async () => {
+      await iframe.send('RPC_RESPONSE', { requestId: contextRequest.id, result: { merchantId: 'm1' } });
+      await switched;
+    });
+
+    rerender(<UnifiedIntelligenceProvider config={config}>{widget('second')}</UnifiedIntelligenceProvider>);
+    await act(settle);
+    expect(session).toBe(sdk);
+    expect(container.querySelectorAll('iframe')).toHaveLength(1);
+    expect(container.querySelector('.second iframe')).not.toBeNull();
+
+    const reconnected = await act(() => connectIframe(container));
+    await vi.waitFor(() => expect(reconnected.requests()[0]?.payload).toEqual({
+      method: 'context.set',
+      params: { merchantId: 'm1' },
+    }));
+    unmount();
+  });
+
+  it('should mount floating widgets at the provider without an IntelligenceWidget', async () => {
+    const { container, unmount } = await renderProvider(<AlertBadge />, { position: 'floating' });
+
+    expect(container.querySelector('[data-unified-intelligence-host] iframe')).not.toBeNull();
+    expect(screen.getByRole('status')).toHaveTextContent('1');
+    unmount();
+  });
+
+  it('should toast alerts sent to host toasts and open them in the widget', async () => {
+    const { iframe, unmount } = await renderProvider(
+      <>
+        <AlertToaster />
+        <IntelligenceWidget />
+      </>
+    );
+    const lowStock = { id: 'a3', title: 'Low stock', message: 'Oat milk', severity: 'info' };
+    const fryer = { id: 'a4', title: 'Fryer down', message: 'Call service', severity: 'critical' };
+
+    await act(async () => {
+      await iframe.send('ALERT_NEW', fryer);
+      await iframe.send('NOTIFICATION', { alerts: [lowStock], channels: ['browser'], digest: false });
+      await iframe.send('NOTIFICATION', { alerts: [fryer], channels: ['toast', 'browser'], digest: false });
+      await settle();
+    });
+
+    expect(screen.getAllByRole('alert')).toHaveLength(1);
+    fireEvent.click(screen.getByText('Fryer down'));
+    expect(screen.queryByRole('alert')).toBeNull();
+
+    await vi.waitFor(() => expect(iframe.requests()).toHaveLength(2));
+    expect(iframe.requests()[1].payload).toEqual({
+      method: 'view.switch',
+      params: { view: 'alerts', params: { alertId: 'a4' } },
+    });
+    unmount();
+  });
+
+  it('should leave out alerts of locations that are not on screen', async () => {
+    const { iframe, unmount } = await renderProvider(
+      <>
+        <AlertBadge />
+        <AlertToaster />
+        <IntelligenceWidget />
+      </>,
+      { merchantId: 'm1' }
+    );
+    const fryer = { id: 'a4', title: 'Fryer down', message: 'Call service', severity: 'critical', contextKey: 'm2/default' };
+
+    await act(async () => {
+      await iframe.send('ALERT_NEW', fryer);
+      await iframe.send('ALERT_UPDATED', { alert: { ...fryer, unread: true }, unreadCount: 3, contextKey: 'm2/default' });
+      await iframe.send('NOTIFICATION', { alerts: [fryer], channels: ['toast'], digest: false, contextKey: 'm2/default' });
+      await settle();
+    });
+
+    expect(screen.queryByRole('alert')).toBeNull();
+    expect(screen.getByRole('status')).toHaveTextContent('1');
+    unmount();
+  });
+
+  it('should batch a digest into one toast, or toast by severity when asked to', async () => {
+    const { iframe, unmount } = await renderProvider(
+      <>
+        <AlertToaster severities={['warning']} />
+        <IntelligenceWidget />
+      </>
+    );
+    const rush = { id: 'a3', title: 'Rush', message: 'Busy', severity: 'warning' };
+
+    await act(async () => {
+      await iframe.send('NOTIFICATION', { alerts: [rush], channels: ['toast'], digest: false });
+      await iframe.send('ALERT_NEW', rush);
+      await settle();
+    });
+    expect(screen.getAllByRole('alert')).toHaveLength(1);
+    unmount();
+
+    const digest = await renderProvider(
+      <>
+        <AlertToaster />
+        <IntelligenceWidget />
+      </>
+    );
+    await act(async () => {
+      await digest.iframe.send('NOTIFICATION', {
+        alerts: [rush, { id: 'a5', title: 'New review', message: '5 stars', severity: 'info' }],
+        channels: ['toast'],
+        digest: true,
+      });
+      await settle();
+    });
+    expect(screen.getByRole('alert')).toHaveTextContent('2 new alerts');
+    expect(screen.getByRole('alert')).toHaveTextContent('Rush · New review');
+    digest.unmount();
+  });
+
+  it('should require a provider', () => {
+    const Orphan = () => {
+      useIntelligence();
+      return null;
+    };
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(() => render(<Orphan />)).toThrow('inside <UnifiedIntelligenceProvider>');
+    vi.mocked(console.error).mockRestore();
+  });
+});
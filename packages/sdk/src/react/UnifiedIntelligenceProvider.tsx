@@ -0,0 +1,75 @@
+import { createContext, useCallback, useContext, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import { useIntelligenceSession } from './useIntelligenceSession';
+import type { IntelligenceSession, IntelligenceSessionConfig } from './useIntelligenceSession';
+
+interface IntelligenceContextValue extends IntelligenceSession {
+  /** Called by `IntelligenceWidget` to host the embedded iframe. Returns an unregister function. */
+  registerContainer: (element: HTMLElement) => () => void;
+}
+
+const IntelligenceContext = createContext<IntelligenceContextValue | null>(null);
+
+export interface UnifiedIntelligenceProviderProps {
+  config: IntelligenceSessionConfig;
+  children?: ReactNode;
+}
+
+/**
+ * Owns the single SDK instance and iframe shared by every hook and component
+ * below it. Embedded widgets mount into `IntelligenceWidget`; floating and
+ * sidebar widgets mount at the provider, so they stay alive across routes.
+ */
+export function UnifiedIntelligenceProvider({ config, children }: UnifiedIntelligenceProviderProps) {
+  const [widgetContainer, setWidgetContainer] = useState<HTMLElement | null>(null);
+  const [overlayContainer, setOverlayContainer] = useState<HTMLElement | null>(null);
+  const isOverlay = config.position === 'floating' || config.position === 'sidebar';
+  const session = useIntelligenceSession(config, isOverlay ? overlayContainer : widgetContainer);
+
+  // Only the most recently mounted widget hosts the iframe
+  const registerContainer = useCallback((element: HTMLElement) => {
+    setWidgetContainer(element);
+    return () => setWidgetContainer((current) => (current === element ? null : current));
+  }, []);
+
+  const value = useMemo(() => ({ ...session, registerContainer }), [session, registerContainer]);
+
+  return (
+    <IntelligenceContext.Provider value={value}>
+      {children}
+      {isOverlay && <div ref={setOverlayContainer} data-unified-intelligence-host="" />}
+    </IntelligenceContext.Provider>
+  );
+}
+
+/**
+ * The shared SDK instance, widget status and live data. Must be called
+ * inside `UnifiedIntelligenceProvider`.
+ */
+export function useIntelligence(): IntelligenceContextValue {
+  const context = useContext(IntelligenceContext);
+  if (!context) {
+    throw new Error('useIntelligence must be used inside <UnifiedIntelligenceProvider>');
+  }
+  return context;
+}
+
+export function useAlerts() {
+  return useIntelligence().alerts;
+}
+
+export function useUnreadCount() {
+  return useIntelligence().unreadCount;
+}
+
+export function useSentiment() {
+  return useIntelligence().sentiment;
+}
+
+export function useInsights() {
+  return useIntelligence().insights;
+}
+
+export function useUrgentActions() {
+  return useIntelligence().urgentActions;
+}
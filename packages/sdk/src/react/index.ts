@@ -1,2 +1,19 @@
-// React hooks for Unified POS Intelligence SDK
-export { useUnifiedIntelligence } from './useUnifiedIntelligence';
\ No newline at end of file
+// React hooks and components for Unified POS Intelligence SDK
+export { useUnifiedIntelligence } from './useUnifiedIntelligence';
+export type { UseUnifiedIntelligenceConfig } from './useUnifiedIntelligence';
+export {
+  UnifiedIntelligenceProvider,
+  useAlerts,
+  useInsights,
+  useIntelligence,
+  useSentiment,
+  useUnreadCount,
+  useUrgentActions,
+} from './UnifiedIntelligenceProvider';
+export type { UnifiedIntelligenceProviderProps } from './UnifiedIntelligenceProvider';
+export { IntelligenceWidget } from './IntelligenceWidget';
+export type { IntelligenceWidgetProps } from './IntelligenceWidget';
+export { AlertBadge } from './AlertBadge';
+export type { AlertBadgeProps } from './AlertBadge';
+export { AlertToaster } from './AlertToaster';
+export type { AlertToasterProps } from './AlertToaster';
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { isAlertUnread } from '@company/pos-intelligence-protocol';
+import type { Alert, AlertSummary, Insight, IntelligenceSnapshot, SentimentSummary, UrgentAction } from '../types';
+
+export type IntelligenceAction =
+  | { type: 'snapshot'; snapshot: IntelligenceSnapshot }
+  | { type: 'alert:new'; alert: AlertSummary }
+  | { type: 'alert:acknowledged'; alertId: string }
+  | { type: 'alert:updated'; alert: Alert }
+  | { type: 'sentiment:updated'; sentiment: SentimentSummary | null }
+  | { type: 'insights:updated'; insights: Insight[] }
+  | { type: 'urgentActions:updated'; urgentActions: UrgentAction[] }
+  | { type: 'reset' };
+
+export const INITIAL_INTELLIGENCE_STATE: IntelligenceSnapshot = {
+  alerts: [],
+  sentiment: null,
+  insights: [],
+  urgentActions: [],
+};
+
+/**
+ * Applies SDK events on top of the last snapshot fetched from the iframe.
+ */
+export function intelligenceReducer(state: IntelligenceSnapshot, action: IntelligenceAction): IntelligenceSnapshot {
+  switch (action.type) {
+    case 'snapshot':
+      return action.snapshot;
+    case 'alert:new':
+      return {
+        ...state,
+        alerts: [{ ...action.alert, unread: true }, ...state.alerts.filter((alert) => alert.id !== action.alert.id)],
+      };
+    case 'alert:acknowledged':
+      return {
+        ...state,
+        alerts: state.alerts.map((alert) => (alert.id === action.alertId ? { ...alert, unread: false } : alert)),
+      };
+    case 'alert:updated': {
+      const { id, title, message, severity } = action.alert;
+      const others = state.alerts.filter((alert) => alert.id !== id);
+      if (action.alert.status === 'dismissed') {
+        return { ...state, alerts: others };
+      }
+      const updated = { id, title, message, severity, unread: isAlertUnread(action.alert) };
+      const known = others.length < state.alerts.length;
+      return {
+        ...state,
+        alerts: known
+          ? state.alerts.map((alert) => (alert.id === id ? updated : alert))
+          : [updated, ...state.alerts],
+      };
+    }
+    case 'sentiment:updated':
+      return { ...state, sentiment: action.sentiment };
+    case 'insights:updated':
+      return { ...state, insights: action.insights };
+    case 'urgentActions:updated':
+      return { ...state, urgentActions: action.urgentActions };
+    case 'reset':
+      return INITIAL_INTELLIGENCE_STATE;
+  }
+}
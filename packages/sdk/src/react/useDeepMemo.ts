@@ -0,0 +1,29 @@
+import { useRef } from 'react';
+
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return (
+    keysA.length === keysB.length &&
+    keysA.every((key) =>
+      Object.prototype.hasOwnProperty.call(b, key) &&
+      isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    )
+  );
+}
+
+/**
+ * Returns the previous value while the new one is deeply equal to it, so
+ * inline config objects can be used as effect dependencies.
+ */
+export function useDeepMemo<T>(value: T): T {
+  const ref = useRef(value);
+  if (!isDeepEqual(ref.current, value)) {
+    ref.current = value;
+  }
+  return ref.current;
+}
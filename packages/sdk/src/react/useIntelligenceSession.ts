@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { getMerchantContextKey, UnifiedPOSIntelligence } from '../index';
+import type { ConnectionState, RuntimeConfig, UnifiedConfig } from '../types';
+import { INITIAL_INTELLIGENCE_STATE, intelligenceReducer } from './intelligenceState';
+import { useDeepMemo } from './useDeepMemo';
+
+export type IntelligenceSessionConfig = Omit<UnifiedConfig, 'containerId'>;
+
+let containerCount = 0;
+
+/** Whether an event belongs to the location on screen; events of other locations carry their own key */
+export function isCurrentContext(sdk: UnifiedPOSIntelligence, contextKey: string | undefined): boolean {
+  return contextKey === undefined || contextKey === getMerchantContextKey(sdk.getMerchantContext());
+}
+
+// Settings updateConfig() applies in place; anything else remounts the iframe
+function splitConfig({ theme, locale, features, customStyles, getAuthToken, ...mount }: IntelligenceSessionConfig) {
+  const runtime: RuntimeConfig = { theme, locale, features, customStyles };
+  return { runtime, mount: { ...mount, hasAuthTokenProvider: getAuthToken !== undefined } };
+}
+
+/**
+ * Runs one SDK instance in `container` for as long as there is one (a new
+ * container takes over the iframe) and mirrors its alerts, sentiment, insights and urgent actions
+ * into React state. Config is compared deeply, so an inline object does not
+ * remount the iframe on every render.
+ */
+export function useIntelligenceSession(config: IntelligenceSessionConfig, container: HTMLElement | null) {
+  const [sdk, setSdk] = useState<UnifiedPOSIntelligence | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isInitialized, setIsInitialized] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting');
+  const [data, dispatch] = useReducer(intelligenceReducer, INITIAL_INTELLIGENCE_STATE);
+
+  // The effects read the latest config; only deep changes re-run them
+  const configRef = useRef(config);
+  configRef.current = config;
+  const { runtime, mount } = splitConfig(config);
+  const mountConfig = useDeepMemo(mount);
+  const runtimeConfig = useDeepMemo(runtime);
+  // Another container only moves the iframe; losing the container ends the session
+  const containerRef = useRef(container);
+  containerRef.current = container;
+  const hasContainer = container !== null;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    container.id ||= `unified-intelligence-${++containerCount}`;
+
+    // Each mount owns its instance, so StrictMode's mount/unmount/mount never shares one
+    const instance = new UnifiedPOSIntelligence();
+    let active = true;
+
+    const loadSnapshot = () => {
+      instance
+        .getSnapshot()
+        .then((snapshot) => {
+          if (active) dispatch({ type: 'snapshot', snapshot });
+        })
+        .catch(() => undefined);
+    };
+
+    instance.on('ready', () => {
+      // Also reached when the SDK recovers after init() timed out
+      setIsInitialized(true);
+      setIsLoading(false);
+      setError(null);
+      loadSnapshot();
+    });
+    instance.on('connection:changed', ({ state }) => setConnectionState(state));
+    instance.on('context:changed', loadSnapshot);
+    instance.on('alert:new', (alert) => {
+      if (isCurrentContext(instance, alert.contextKey)) dispatch({ type: 'alert:new', alert });
+    });
+    instance.on('alert:acknowledged', ({ alertId, contextKey }) => {
+      if (isCurrentContext(instance, contextKey)) dispatch({ type: 'alert:acknowledged', alertId });
+    });
+    instance.on('alert:updated', ({ alert, contextKey }) => {
+      if (isCurrentContext(instance, contextKey)) dispatch({ type: 'alert:updated', alert });
+    });
+    instance.on('sentiment:updated', (sentiment) => dispatch({ type: 'sentiment:updated', sentiment }));
+    instance.on('insights:updated', (insights) => dispatch({ type: 'insights:updated', insights }));
+    instance.on('urgentActions:updated', (urgentActions) => dispatch({ type: 'urgentActions:updated', urgentActions }));
+
+    setSdk(instance);
+
+    const { getAuthToken, ...initial } = configRef.current;
+    instance
+      .init({
+        ...initial,
+        containerId: container.id,
+        // Always calls the latest provider, which is usually an inline function
+        getAuthToken: getAuthToken && (() => configRef.current.getAuthToken!()),
+      })
+      .then(() => {
+        if (!active) return;
+        setIsInitialized(true);
+        setIsLoading(false);
+      })
+      .catch((err) => {
+        if (!active) return;
+        setError(err.message);
+        setIsLoading(false);
+      });
+
+    return () => {
+      active = false;
+      instance.destroy();
+      setSdk((current) => (current === instance ? null : current));
+      setIsInitialized(false);
+      setIsLoading(true);
+      setError(null);
+      setConnectionState('connecting');
+      dispatch({ type: 'reset' });
+    };
+  }, [mountConfig, hasContainer]);
+
+  useEffect(() => {
+    if (!sdk || !container || sdk.isDestroyed()) return;
+
+    container.id ||= `unified-intelligence-${++containerCount}`;
+    try {
+      sdk.moveTo(container.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sdk, container]);
+
+  useEffect(() => {
+    if (!sdk || !isInitialized) return;
+
+    try {
+      sdk.updateConfig(runtimeConfig);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, [sdk, isInitialized, runtimeConfig]);
+
+  // Stable while nothing changes, so context consumers skip unrelated renders
+  return useMemo(
+    () => ({
+      sdk,
+      isLoading,
+      isInitialized,
+      error,
+      connectionState,
+      ...data,
+      unreadCount: data.alerts.filter((alert) => alert.unread).length,
+    }),
+    [sdk, isLoading, isInitialized, error, connectionState, data]
+  );
+}
+
+export type IntelligenceSession = ReturnType<typeof useIntelligenceSession>;
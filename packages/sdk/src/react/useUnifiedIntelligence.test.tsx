@@ -0,0 +1,111 @@
+import { StrictMode } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { useUnifiedIntelligence } from './useUnifiedIntelligence';
+import type { UseUnifiedIntelligenceConfig } from './useUnifiedIntelligence';
+import { connectIframe, settle } from '../test/fake-iframe';
+
+type HookResult = ReturnType<typeof useUnifiedIntelligence>;
+
+async function renderWidget(config: UseUnifiedIntelligenceConfig, options: { strict?: boolean } = {}) {
+  const result: { current?: HookResult } = {};
+
+  function Widget(props: { config: UseUnifiedIntelligenceConfig }) {
+    result.current = useUnifiedIntelligence(props.config);
+    return <div ref={result.current.container} />;
+  }
+
+  const element = (props: { config: UseUnifiedIntelligenceConfig }) =>
+    options.strict ? <StrictMode><Widget {...props} /></StrictMode> : <Widget {...props} />;
+  const view = render(element({ config }));
+  // Lets init() settle inside act() before the test drives the iframe
+  await act(settle);
+  return {
+    ...view,
+    result: result as { current: HookResult },
+    rerender: (next: UseUnifiedIntelligenceConfig) => view.rerender(element({ config: next })),
+  };
+}
+
+const config = { apiKey: 'pk_test_123', features: { alerts: true, businessSentiment: true } };
+
+const snapshot = {
+  alerts: [{ id: 'a1', title: 'Rush', message: 'Busy', severity: 'warning', unread: true }],
+  sentiment: { score: 4.3, change: 0.2, reviewCount: 10 },
+  insights: [],
+  urgentActions: [{ id: 'action-a1', title: 'Respond to: Rush', alertId: 'a1' }],
+};
+
+describe('useUnifiedIntelligence', () => {
+  it('should load a snapshot and follow live updates', async () => {
+    const { container, result, unmount } = await renderWidget(config);
+    const iframe = await act(() => connectIframe(container));
+
+    await vi.waitFor(() => expect(iframe.requests()).toHaveLength(1));
+    const [request] = iframe.requests();
+    expect(request.payload).toEqual({ method: 'intelligence.getSnapshot' });
+    await act(async () => {
+      await iframe.send('RPC_RESPONSE', { requestId: request.id, result: snapshot });
+      await settle();
+    });
+    expect(result.current.alerts).toEqual(snapshot.alerts);
+    expect(result.current.isInitialized).toBe(true);
+    expect(result.current.sdk).not.toBeNull();
+
+    await act(async () => {
+      await iframe.send('ALERT_NEW', { id: 'a2', title: 'Review', message: '1 star', severity: 'critical' });
+      await iframe.send('ALERT_ACKNOWLEDGED', { alertId: 'a1' });
+      await iframe.send('SENTIMENT_UPDATED', { score: 3.9, change: -0.4, reviewCount: 11 });
+      await iframe.send('URGENT_ACTIONS_UPDATED', []);
+      await settle();
+    });
+
+    expect(result.current.alerts.map(({ id, unread }) => ({ id, unread }))).toEqual([
+      { id: 'a2', unread: true },
+      { id: 'a1', unread: false },
+    ]);
+    expect(result.current.sentiment?.score).toBe(3.9);
+    expect(result.current.urgentActions).toEqual([]);
+
+    await act(async () => {
+      await iframe.send('ALERT_UPDATED', { alert: { id: 'a1', status: 'dismissed' }, previousStatus: 'acknowledged', unreadCount: 1 });
+      await settle();
+    });
+    expect(result.current.alerts.map(({ id }) => id)).toEqual(['a2']);
+    unmount();
+  });
+
+  it('should keep the iframe across renders and apply runtime changes in place', async () => {
+    const { container, rerender, unmount } = await renderWidget({ ...config, theme: 'light' });
+    const iframe = await act(() => connectIframe(container));
+    const element = container.querySelector('iframe');
+
+    rerender({ ...config, features: { ...config.features }, theme: 'light' });
+    rerender({ ...config, theme: 'dark' });
+    await vi.waitFor(() => expect(iframe.sent().filter((message) => message.type === 'CONFIG')).toHaveLength(2));
+
+    expect(iframe.sent().filter((message) => message.type === 'CONFIG')[1].payload).toEqual({ theme: 'dark' });
+    expect(container.querySelector('iframe')).toBe(element);
+
+    rerender({ ...config, theme: 'dark', position: 'sidebar' });
+    expect(container.querySelector('iframe')).not.toBe(element);
+    unmount();
+  });
+
+  it('should leave a single widget under StrictMode and remove it on unmount', async () => {
+    const { container, result, unmount } = await renderWidget(config, { strict: true });
+    expect(result.current.isInitialized).toBe(false);
+    expect(result.current.connectionState).toBe('connecting');
+
+    await act(() => connectIframe(container));
+    await act(settle);
+    expect(result.current.isInitialized).toBe(true);
+    expect(result.current.connectionState).toBe('ready');
+    expect(container.querySelectorAll('iframe')).toHaveLength(1);
+
+    const sdk = result.current.sdk!;
+    unmount();
+    expect(sdk.isDestroyed()).toBe(true);
+    expect(container.querySelector('iframe')).toBeNull();
+  });
+});
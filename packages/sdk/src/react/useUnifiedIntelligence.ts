@@ -1,69 +1,20 @@
-import { useEffect, useRef, useState } from 'react';
-import { UnifiedPOSIntelligence } from '../index';
+import { useState } from 'react';
+import { useIntelligenceSession } from './useIntelligenceSession';
+import type { IntelligenceSessionConfig } from './useIntelligenceSession';
 
-interface UnifiedConfig {
-  containerId?: string;
-  apiKey: string;
-  features: {
-    alerts?: boolean;
-    businessSentiment?: boolean;
-    competitorAnalysis?: boolean;
-    redditMonitoring?: boolean;
-  };
-  theme?: 'light' | 'dark' | 'auto';
-  position?: 'embedded' | 'floating' | 'sidebar';
-  locale?: string;
-  customStyles?: Record<string, string>;
-  defaultView?: 'alerts' | 'sentiment' | 'competitor' | 'reddit' | 'dashboard';
-}
-
-export function useUnifiedIntelligence(config: UnifiedConfig) {
-  const containerRef = useRef<HTMLDivElement>(null);
-  const sdkRef = useRef<UnifiedPOSIntelligence | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!containerRef.current) return;
+export type UseUnifiedIntelligenceConfig = IntelligenceSessionConfig;
 
-    const containerId = `unified-intelligence-${Date.now()}`;
-    containerRef.current.id = containerId;
-
-    const sdk = new UnifiedPOSIntelligence();
-    sdkRef.current = sdk;
-
-    sdk.init({
-      ...config,
-      containerId,
-    })
-      .then(() => {
-        setIsInitialized(true);
-        setIsLoading(false);
-      })
-      .catch((err) => {
-        setError(err.message);
-        setIsLoading(false);
-      });
-
-    return () => {
-      // Cleanup when component unmounts
-      setIsInitialized(false);
-      setIsLoading(true);
-      setError(null);
-    };
-  }, [config]);
+/**
+ * Mounts a standalone widget into the element `container` is attached to.
+ * Use `UnifiedIntelligenceProvider` instead when several components need
+ * the same widget.
+ */
+export function useUnifiedIntelligence(config: UseUnifiedIntelligenceConfig) {
+  const [element, setElement] = useState<HTMLElement | null>(null);
+  const session = useIntelligenceSession(config, element);
 
   return {
-    container: containerRef,
-    sdk: sdkRef.current,
-    isLoading,
-    isInitialized,
-    error,
-    // Placeholder for future features
-    alerts: [],
-    sentiment: null,
-    insights: [],
-    urgentActions: [],
+    container: setElement,
+    ...session,
   };
-}
\ No newline at end of file
+}
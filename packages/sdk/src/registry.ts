@@ -0,0 +1,34 @@
+import type { UnifiedPOSIntelligence } from './index';
+
+// Initialized instances by id; an instance leaves when it is destroyed
+const instances = new Map<string, UnifiedPOSIntelligence>();
+let instanceCount = 0;
+
+export function createInstanceId(): string {
+  return `widget-${++instanceCount}`;
+}
+
+export function registerInstance(id: string, instance: UnifiedPOSIntelligence): boolean {
+  const current = instances.get(id);
+  if (current && current !== instance) return false;
+
+  instances.set(id, instance);
+  return true;
+}
+
+export function unregisterInstance(id: string, instance: UnifiedPOSIntelligence): void {
+  if (instances.get(id) === instance) {
+    instances.delete(id);
+  }
+}
+
+/**
+ * The initialized widget registered under `id`, e.g. `getInstance('alerts-panel')`.
+ */
+export function getInstance(id: string): UnifiedPOSIntelligence | undefined {
+  return instances.get(id);
+}
+
+export function getInstances(): UnifiedPOSIntelligence[] {
+  return [...instances.values()];
+}
@@ -0,0 +1,82 @@
+import { vi, expect } from 'vitest';
+import {
+  MessageType,
+  PROTOCOL_VERSION,
+  SecureChannel,
+  createEnvelope,
+} from '@company/pos-intelligence-protocol';
+import type { Envelope } from '@company/pos-intelligence-protocol';
+import type { UnifiedPOSIntelligence } from '../index';
+import type { UnifiedConfig } from '../types';
+
+export const IFRAME_ORIGIN = 'http://localhost:3001';
+
+// Gives pending crypto and message chains a chance to run before negative assertions
+export const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+// Tests mount one widget unless they pass the sending iframe's window explicitly
+export function dispatchFromIframe(
+  data: unknown,
+  origin = IFRAME_ORIGIN,
+  source = document.querySelector('iframe')?.contentWindow ?? null
+) {
+  window.dispatchEvent(new MessageEvent('message', { data, origin, source }));
+}
+
+/**
+ * Stands in for the iframe app: answers the SDK handshake with a signed
+ * READY and lets tests send and read signed envelopes.
+ */
+export async function connectIframe(container: HTMLElement, readyPayload: Record<string, unknown> = {}) {
+  const iframe = container.querySelector('iframe') as HTMLIFrameElement;
+  const postMessage = vi.fn();
+  Object.defineProperty(iframe, 'contentWindow', {
+    value: { postMessage },
+    writable: true,
+    configurable: true,
+  });
+
+  iframe.dispatchEvent(new Event('load'));
+  await vi.waitFor(() => expect(postMessage).toHaveBeenCalled());
+
+  const handshake = postMessage.mock.calls[0][0] as Envelope;
+  const channel = new SecureChannel();
+  const publicKey = await channel.createPublicKey();
+  await channel.establish(handshake.payload.publicKey);
+
+  const contentWindow = iframe.contentWindow as unknown as Window;
+  const send = async (type: string, payload?: unknown) => {
+    const sealed = await channel.seal({ ...createEnvelope(type, payload), channel: handshake.payload.channel });
+    dispatchFromIframe(sealed, IFRAME_ORIGIN, contentWindow);
+    return sealed;
+  };
+
+  // Envelopes the SDK posted after the handshake, in order
+  const sent = () => postMessage.mock.calls.slice(1).map(([message]) => message as Envelope);
+  const requests = () => sent().filter((message) => message.type === MessageType.RPC_REQUEST);
+
+  await send(MessageType.READY, {
+    protocolVersion: PROTOCOL_VERSION,
+    capabilities: ['rpc', 'events', 'resize'],
+    features: handshake.payload.features,
+    publicKey,
+    ...readyPayload,
+  });
+  await settle();
+
+  return { iframe, postMessage, channel, handshake, send, sent, requests };
+}
+
+/**
+ * Mounts `sdk` and answers its handshake, resolving once init() has.
+ */
+export async function initWidget(
+  sdk: UnifiedPOSIntelligence,
+  config: UnifiedConfig,
+  readyPayload?: Record<string, unknown>
+) {
+  const initialized = sdk.init(config);
+  const iframe = await connectIframe(document.getElementById(config.containerId)!, readyPayload);
+  await initialized;
+  return iframe;
+}
@@ -0,0 +1,161 @@
+import type {
+  AlertEscalatedPayload,
+  AlertSummary,
+  AlertUpdatedPayload,
+  ErrorPayload,
+  FeatureFlags,
+  Insight,
+  MerchantContext,
+  NotificationPayload,
+  PanelView,
+  ReadyPayload,
+  ResizePayload,
+  SecurityViolation,
+  SentimentSummary,
+  Theme,
+  TokenExpiringPayload,
+  UrgentAction,
+  ViewChangedPayload,
+  ViewPath,
+} from '@company/pos-intelligence-protocol';
+import type { ConnectionChange } from './connection';
+import type { DropPolicy } from './queue';
+
+export type { ConnectionChange, ConnectionState } from './connection';
+export type { DropPolicy } from './queue';
+export type {
+  Alert,
+  AlertCategory,
+  AlertEscalatedPayload,
+  AlertFilter,
+  AlertPolicy,
+  AlertRule,
+  AlertSeverity,
+  AlertSource,
+  AlertState,
+  AlertStatus,
+  AlertSummary,
+  AlertUpdatedPayload,
+  EventsIngestParams,
+  EventsIngestResult,
+  FeatureFlags,
+  Incident,
+  Insight,
+  IntelligenceSnapshot,
+  InventoryEvent,
+  NotificationChannel,
+  NotificationPayload,
+  NotificationPreferences,
+  NotificationPreferencesUpdate,
+  OrderEvent,
+  PanelView,
+  PosEvent,
+  PosEventKind,
+  QuietHours,
+  ResizePayload,
+  ReviewEvent,
+  RuleCondition,
+  RuleMetric,
+  RuleOperator,
+  SentimentSummary,
+  ShiftEvent,
+  Theme,
+  UrgentAction,
+  ViewChangedPayload,
+  ViewName,
+  ViewParams,
+  ViewPath,
+} from '@company/pos-intelligence-protocol';
+
+export interface UnifiedConfig {
+  containerId: string;
+  apiKey: string;
+  features: FeatureFlags;
+  theme?: Theme;
+  position?: 'embedded' | 'floating' | 'sidebar';
+  /** Edge the sidebar drawer slides in from */
+  sidebarSide?: 'left' | 'right';
+  locale?: string;
+  customStyles?: Record<string, string>;
+  /** Size the embedded iframe to its content (default). Turn off for fixed-height containers. */
+  autoResize?: boolean;
+  /** Lower bound in pixels for the auto-sized height */
+  minHeight?: number;
+  /** Upper bound in pixels; the widget scrolls inside beyond it */
+  maxHeight?: number;
+  /** View or deep link to open first; `'competitor'` is accepted as an alias of `'competitors'` */
+  defaultView?: ViewPath | 'competitor';
+  /** Shows only this feature's view, without the header and tabs, e.g. a compact alerts panel */
+  panel?: PanelView;
+  /** Name in the instance registry (see `getInstance()`); defaults to a generated id */
+  instanceId?: string;
+  /** Milliseconds init() waits for the iframe's READY before rejecting (default 10000) */
+  readyTimeout?: number;
+  /** Milliseconds between heartbeat pings once connected (default 15000); 0 turns heartbeats off */
+  heartbeatInterval?: number;
+  /** Reloads tried, with exponential backoff, once the iframe stops answering (default 5); 0 turns them off */
+  maxReconnectAttempts?: number;
+  /** Buffering of commands sent while the iframe is connecting or offline */
+  queue?: QueueConfig;
+  /** Batching of events sent with `sdk.ingest` */
+  ingest?: IngestConfig;
+  /**
+   * Show a plain summary with a link to open the widget in a new window when
+   * the iframe is blocked or fails to load (default true)
+   */
+  fallback?: boolean;
+  /** Where the fallback's link leads; defaults to the iframe's own page */
+  fallbackUrl?: string;
+  /** Supplies a fresh merchant token when the current one is about to expire */
+  getAuthToken?: () => string | Promise<string>;
+}
+
+export interface QueueConfig {
+  /** Most commands held at once (default 100) */
+  maxSize?: number;
+  /** Command dropped when the queue is full (default `'oldest'`) */
+  dropPolicy?: DropPolicy;
+  /** Keep alert acknowledgements, snoozes and ingested events in IndexedDB until delivered, across page reloads */
+  persist?: boolean;
+}
+
+export interface IngestConfig {
+  /** Events sent in one message at most (default 50, up to 500) */
+  maxBatchSize?: number;
+  /** Milliseconds an event waits for others to join its batch (default 1000) */
+  flushInterval?: number;
+}
+
+/**
+ * Settings that `updateConfig()` can change without reloading the iframe.
+ */
+export type RuntimeConfig = Partial<Pick<UnifiedConfig, 'theme' | 'locale' | 'features' | 'customStyles'>>;
+
+export interface UnifiedEventMap {
+  ready: ReadyPayload;
+  error: ErrorPayload;
+  'alert:new': AlertSummary;
+  'alert:acknowledged': { alertId: string; contextKey?: string };
+  /** An alert was raised or changed state, in the widget or through `sdk.alerts` */
+  'alert:updated': AlertUpdatedPayload;
+  /** An unacknowledged warning became critical; it also arrives again as `alert:new` */
+  'alert:escalated': AlertEscalatedPayload;
+  /** Alerts to announce on the host, per the merchant's notification preferences; digests batch several */
+  notification: NotificationPayload;
+  'sentiment:updated': SentimentSummary | null;
+  'insights:updated': Insight[];
+  'urgentActions:updated': UrgentAction[];
+  'context:changed': MerchantContext;
+  'view:changed': ViewChangedPayload;
+  resize: ResizePayload;
+  'dashboard:toggled': { open: boolean };
+  'auth:expiring': TokenExpiringPayload;
+  security: SecurityViolation & { source: 'sdk' | 'iframe' };
+  'connection:changed': ConnectionChange;
+  /** A queued command was discarded because the queue was full */
+  'queue:dropped': { id: string; type: string };
+}
+
+export type UnifiedEventName = keyof UnifiedEventMap;
+
+export type UnifiedEventHandler<K extends UnifiedEventName> = (payload: UnifiedEventMap[K]) => void;
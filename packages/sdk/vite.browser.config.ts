@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// Script-tag bundle for pages that can't use a bundler; runs after the module build
+export default defineConfig({
+  build: {
+    lib: {
+      entry: resolve(__dirname, 'src/loader/index.ts'),
+      name: 'UnifiedPOSSDK',
+      formats: ['iife', 'umd'],
+      fileName: (format) => `pos-intelligence.${format}.js`,
+    },
+    // Keep the ES/CJS output from the main build
+    emptyOutDir: false,
+    sourcemap: true,
+    minify: true,
+  },
+});
@@ -9,6 +9,7 @@ export default defineConfig({
       entry: {
         index: resolve(__dirname, 'src/index.ts'),
         react: resolve(__dirname, 'src/react/index.ts'),
+        element: resolve(__dirname, 'src/element/index.ts'),
       },
       formats: ['es', 'cjs'],
       fileName: (format, entryName) => {
@@ -31,6 +32,12 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'happy-dom',
+    environmentOptions: {
+      happyDOM: {
+        // Tests drive the iframe side themselves; don't fetch the real app
+        settings: { disableIframePageLoading: true },
+      },
+    },
     setupFiles: './src/test/setup.ts',
     coverage: {
       reporter: ['text', 'json', 'html'],